@@ -2,6 +2,12 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   // No external packages needed - using Gemini for PDF extraction
+
+  // lib/prompts.ts reads prompts/<id>/<version>.md at runtime, which file
+  // tracing can't see, so ship them with every API route explicitly
+  outputFileTracingIncludes: {
+    "/api/**": ["./prompts/**"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,144 @@
+/**
+ * Analysis evaluation CLI
+ *
+ *   pnpm eval [options]
+ *
+ * Runs analyzePaper over fixtures/eval and prints precision/recall of claims
+ * and equations, schema-violation rate and score stability. Uses the
+ * configured provider: SCIPROTO_LLM_PROVIDER=mock replays fixtures/llm
+ * (deterministic, no API key), anything else measures the live model.
+ *
+ * Options:
+ *   --runs <n>            analyses per case (default 1; use 3+ for score stability)
+ *   --case <id>           only this case (repeatable)
+ *   --cases <dir>         case directory (default fixtures/eval)
+ *   --model <name>        analysis model override
+ *   --prompt <id=version> prompt version override (repeatable), e.g. analysis=v2
+ *   --out <file>          write the full report as JSON
+ *   --baseline <file>     compare with an earlier --out report; exits 1 on regressions
+ *   --tolerance <x>       allowed drop per metric before it counts (default 0.05)
+ *
+ * Runs never touch the app's database: storage points at a temp file and
+ * model calls are not recorded as usage.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { EvalReport } from "../src/lib/eval";
+import { parsePromptVersions } from "../src/lib/prompts";
+
+// Read when the storage and LLM modules load, so the eval library is only
+// imported (in main) after these are set
+const EVAL_DB_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "sciproto-eval-"));
+process.env.SCIPROTO_STORAGE = "json";
+process.env.SCIPROTO_JSON_PATH = path.join(EVAL_DB_DIR, "sciproto-db.json");
+process.env.SCIPROTO_LLM_USAGE = "false";
+process.on("exit", () => fs.rmSync(EVAL_DB_DIR, { recursive: true, force: true }));
+
+function parseArgs(argv: string[]) {
+  const args = {
+    runs: 1,
+    cases: [] as string[],
+    dir: undefined as string | undefined,
+    model: undefined as string | undefined,
+    prompts: {} as Record<string, string>,
+    out: undefined as string | undefined,
+    baseline: undefined as string | undefined,
+    tolerance: 0.05,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[++i];
+    if (value === undefined) throw new Error(`Missing value for ${flag}`);
+    switch (flag) {
+      case "--runs": args.runs = parseInt(value, 10); break;
+      case "--case": args.cases.push(value); break;
+      case "--cases": args.dir = value; break;
+      case "--model": args.model = value; break;
+      case "--prompt": {
+        const [id, version] = value.split("=");
+        args.prompts[id] = version;
+        break;
+      }
+      case "--out": args.out = value; break;
+      case "--baseline": args.baseline = value; break;
+      case "--tolerance": args.tolerance = parseFloat(value); break;
+      default: throw new Error(`Unknown option ${flag}`);
+    }
+  }
+  return args;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(0)}%`.padStart(5);
+
+function printReport(report: EvalReport) {
+  console.log("\ncase                      claims P/R    equations P/R  title field authors  violations  score (sd)");
+  for (const c of report.cases) {
+    console.log([
+      c.id.padEnd(24),
+      `${pct(c.claims.precision)}/${pct(c.claims.recall)} `,
+      `${pct(c.equations.precision)}/${pct(c.equations.recall)} `,
+      pct(c.title_accuracy),
+      pct(c.field_accuracy),
+      pct(c.authors_recall).padStart(7),
+      pct(c.schema_violation_rate).padStart(11),
+      `  ${c.score.mean.toFixed(0).padStart(3)} (${c.score.stddev.toFixed(1)})`,
+    ].join(" "));
+    for (const run of c.runs.filter(run => run.failed)) {
+      console.log(`  failed: ${run.error}`);
+    }
+    const missed = new Set(c.runs.flatMap(run => [...run.claims?.missed ?? [], ...run.equations?.missed ?? []]));
+    for (const item of missed) console.log(`  missed: ${item}`);
+  }
+
+  const s = report.summary;
+  console.log(`
+Claims      precision ${pct(s.claims_precision)}  recall ${pct(s.claims_recall)}
+Equations   precision ${pct(s.equations_precision)}  recall ${pct(s.equations_recall)}
+Metadata    title ${pct(s.title_accuracy)}  field ${pct(s.field_accuracy)}  authors ${pct(s.authors_recall)}
+Schema      violations ${pct(s.schema_violation_rate)}  failures ${pct(s.failure_rate)}
+Score       mean stddev ${s.score_stddev.toFixed(2)} over ${report.runs_per_case} run(s) per case`);
+}
+
+async function main() {
+  const { EVAL_CASES_DIR, findRegressions, loadEvalCases, runEval } = await import("../src/lib/eval");
+  const args = parseArgs(process.argv.slice(2));
+  const dir = args.dir ?? EVAL_CASES_DIR;
+  const cases = loadEvalCases(dir, args.cases);
+  if (cases.length === 0) throw new Error(`No eval cases found in ${dir}`);
+
+  const promptVersions = parsePromptVersions(args.prompts);
+  console.log(`Evaluating ${cases.length} case(s) x ${args.runs} run(s)...`);
+  const report = await runEval(cases, {
+    runs: args.runs,
+    model: args.model,
+    promptVersions: Object.keys(promptVersions).length ? promptVersions : undefined,
+    onRun: (evalCase, run, i) =>
+      console.log(`[eval] ${evalCase.id} run ${i + 1}: ${run.failed ? "failed" : `score ${run.score}, ${run.repairs} repair(s)`}`),
+  });
+
+  printReport(report);
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${args.out}`);
+  }
+
+  if (args.baseline) {
+    const baseline: EvalReport = JSON.parse(fs.readFileSync(args.baseline, "utf-8"));
+    const regressions = findRegressions(report, baseline, args.tolerance);
+    if (regressions.length > 0) {
+      console.error(`\nRegressions against ${args.baseline}:`);
+      for (const regression of regressions) console.error(`  ${regression}`);
+      process.exit(1);
+    }
+    console.log(`\nNo regressions against ${args.baseline}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
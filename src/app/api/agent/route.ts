@@ -1,351 +1,572 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI, Type } from "@google/genai";
-
-// Initialize Gemini client
-const apiKey = process.env.GEMINI_API_KEY || "";
-const ai = new GoogleGenAI({ apiKey });
-
-// ============================================================================
-// SYSTEM INSTRUCTION - Smart agent for proving research paper concepts
-// ============================================================================
-
-const systemInstruction = `You are SciProto AI, a helpful assistant that can create interactive prototypes from research papers.
-
-## YOUR ROLE
-You're a conversational AI assistant. You can:
-1. Answer questions about the paper or prototype
-2. Explain concepts and algorithms
-3. Create or update prototypes ONLY when the user asks for changes
-
-## WHEN TO USE render_prototype
-✅ USE the tool when:
-- User asks to "create", "build", "make", "generate" a prototype
-- User asks to "change", "modify", "update", "fix" the prototype
-- User asks for specific feature additions ("add a slider", "show a chart")
-- The initial message contains paper content (first prototype generation)
-- There's an error that needs fixing
-
-❌ DO NOT use the tool when:
-- User says "hi", "hey", "hello", "thanks"
-- User asks a question ("what is this?", "how does it work?")
-- User wants explanation without changes
-- User is just chatting
-
-## CONVERSATION STYLE
-- Be friendly and concise
-- For simple greetings, just respond naturally
-- For questions, explain clearly without regenerating the prototype
-- Only call render_prototype when actual changes are needed
-
-## WHAT MAKES A GREAT PROTOTYPE
-- **Interactive**: Users can adjust parameters and see results change in real-time
-- **Educational**: Shows the algorithm step-by-step, not just final output
-- **Accurate**: Implements the REAL math/algorithm from the paper
-- **Visual**: Uses charts, animations, or diagrams to make concepts clear
-
-## TECHNICAL REQUIREMENTS
-
-### Code Structure (MUST follow this exactly)
-\`\`\`jsx
-import React, { useState, useEffect, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { motion } from 'framer-motion';
-import { Play, Pause, RotateCcw, Sliders } from 'lucide-react';
-
-// Helper functions for the algorithm
-function calculateSomething(params) {
-  // Real implementation
-  return result;
-}
-
-export default function App() {
-  // State with INITIALIZED values (CRITICAL!)
-  const [param1, setParam1] = useState(0.5);
-  const [data, setData] = useState([]);
-  
-  // Compute results
-  const results = useMemo(() => {
-    return calculateSomething(param1);
-  }, [param1]);
-  
-  return (
-    <div className="min-h-screen bg-gray-950 text-white p-6">
-      {/* Title */}
-      <h1 className="text-2xl font-bold mb-4">Concept Name</h1>
-      
-      {/* Controls */}
-      <div className="bg-gray-800/50 rounded-xl p-4 mb-4">
-        <label>Parameter: {param1}</label>
-        <input type="range" min="0" max="1" step="0.01" 
-               value={param1} onChange={e => setParam1(Number(e.target.value))} />
-      </div>
-      
-      {/* Visualization */}
-      <div className="bg-gray-800/50 rounded-xl p-4">
-        {/* Charts, animations, etc */}
-      </div>
-    </div>
-  );
-}
-\`\`\`
-
-### Available Libraries
-- **React 18**: useState, useEffect, useMemo, useCallback, useRef
-- **Recharts**: LineChart, AreaChart, BarChart, ScatterChart, PieChart, ComposedChart, ResponsiveContainer
-- **Framer Motion**: motion, AnimatePresence (for animations)
-- **Lucide React**: Icons (Play, Pause, Settings, Brain, Zap, ChevronRight, etc.)
-- **clsx**: Conditional class names
-
-### CRITICAL RULES (Breaking these causes errors!)
-✅ **MUST DO**:
-- \`import React, { useState } from 'react'\` - ES Module imports
-- \`export default function App()\` - Named export
-- \`useState(initialValue)\` - ALWAYS provide initial value
-- \`(array || []).map()\` or \`array?.map()\` - Check arrays before mapping
-- Use Tailwind CSS for all styling
-
-❌ **NEVER DO**:
-- \`$x$\` or \`\\frac{}\` - No LaTeX! Use Unicode: × ÷ √ ² ³ ∑ ∫ π θ α β
-- \`require()\` - Only ES Module imports
-- \`useState()\` without initial value - Will crash!
-- SVG path with percentage values - Use absolute numbers
-
-## ERROR HANDLING
-When you receive an error from a failed render:
-1. Read the error message carefully
-2. Fix ONLY the specific issue mentioned
-3. Don't rewrite the entire component
-4. Common fixes:
-   - "X is not defined" → Add the import
-   - "Cannot read property of undefined" → Add \`?.\` or \`|| default\`
-   - "Invalid hook call" → Move hooks to top level of component
-
-## UI DESIGN
-- **Background**: bg-gray-950 (main), bg-gray-900 (sections)
-- **Cards**: bg-gray-800/50 rounded-xl border border-white/10 p-4
-- **Text**: text-white (primary), text-gray-400 (secondary)
-- **Accents**: blue-500 (primary), emerald-500 (success), purple-500 (highlight)
-- **Animations**: Use framer-motion for smooth transitions
-
-## CONVERSATION STYLE
-- Be concise - let the prototype speak for itself
-- When modifying, make targeted changes
-- Explain what the prototype PROVES about the paper's claims`;
+import { z } from "zod";
+import { getLlmProvider, userMessage, type LlmMessage, type LlmTool, type LlmToolCall } from "@/lib/llm";
+import { toJsonSchema } from "@/lib/llm/schema";
+import { UnknownPromptError, getPrompt, parsePromptVersions } from "@/lib/prompts";
+import { applyEdits, applyUnifiedDiff, formatPatchFailures, type PatchResult } from "@/lib/patch";
+import { checkPrototype, formatPrototypeDiagnostics } from "@/lib/prototype-check";
+import { findSection, getPaperIndex, paperOutline, readSection, searchPaper, type PaperIndex } from "@/lib/paper-index";
+import { getAgentSession, getPrototype, saveAgentSession, savePrototype, type AgentSession } from "@/lib/db";
+import { compactSession, sessionMessages } from "@/lib/agent-session";
+import {
+  finishTurn,
+  getTurn,
+  pushTurnEvent,
+  runningTurn,
+  startTurn,
+  stopTurn,
+  turnStream,
+  type AgentTurn,
+} from "@/lib/agent-turns";
 
 // ============================================================================
 // TOOL DEFINITION
 // ============================================================================
 
-const agentTools = {
-  functionDeclarations: [
-    {
-      name: "render_prototype",
-      description: `Renders an interactive React prototype in the sandbox. Call this to display your implementation of the paper's concept.
+const RenderPrototypeArgsSchema = z.object({
+  code: z.string().describe(`Complete React component code. MUST include:
+- ES Module imports (import React from 'react')
+- export default function App()
+- All useState calls with initial values
+- Tailwind CSS for styling`),
+  title: z.string().optional().describe("Short descriptive title for this prototype"),
+});
+
+const EditPrototypeArgsSchema = z.object({
+  edits: z.array(z.object({
+    search: z.string().describe("Exact lines from the current code to replace, with enough context to match only once"),
+    replace: z.string().describe("Lines to put in their place (empty to delete)"),
+  })).optional().describe("Search/replace edits, applied in order"),
+  diff: z.string().optional().describe("Alternatively, unified diff hunks (@@ ... @@) against the current code"),
+  title: z.string().optional().describe("New title, if the prototype's focus changed"),
+});
+
+const renderPrototypeTool: LlmTool = {
+  name: "render_prototype",
+    description: `Renders an interactive React prototype in the sandbox. Call this to display your implementation of the paper's concept.
 
 The prototype should:
 - Implement the actual algorithm/equation from the paper
 - Be interactive (sliders, buttons, inputs)
 - Show real calculations, not fake data
 - Help users understand and validate the paper's claims`,
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          code: {
-            type: Type.STRING,
-            description: `Complete React component code. MUST include:
-- ES Module imports (import React from 'react')
-- export default function App()
-- All useState calls with initial values
-- Tailwind CSS for styling`,
-          },
-          title: {
-            type: Type.STRING,
-            description: "Short descriptive title for this prototype",
-          },
-        },
-        required: ["code"],
-      },
-    },
-  ],
+  parameters: toJsonSchema(RenderPrototypeArgsSchema),
+};
+
+const editPrototypeTool: LlmTool = {
+  name: "edit_prototype",
+  description: `Changes part of the current prototype (shown in the system prompt) without resending all of it. Use this for modifications and fixes; use render_prototype for a new prototype or a rewrite.
+
+Give either \`edits\` (search/replace pairs) or a unified \`diff\`. Each search text must match the current code exactly once. If an edit doesn't apply, you get the reason back and can retry.`,
+  parameters: toJsonSchema(EditPrototypeArgsSchema),
+};
+
+const SearchPaperArgsSchema = z.object({
+  query: z.string().describe("What to look for, e.g. \"update rule learning rate\" or \"Algorithm 1\""),
+  limit: z.number().int().min(1).max(10).optional().describe("Passages to return (default 5)"),
+});
+
+const ReadSectionArgsSchema = z.object({
+  section: z.string().describe("Section title or number from the paper outline, e.g. \"3.2\" or \"Experiments\""),
+  part: z.number().int().min(1).optional().describe("Page of a long section (default 1)"),
+});
+
+const searchPaperTool: LlmTool = {
+  name: "search_paper",
+  description: `Searches the paper's text and returns the best-matching passages with their section. Use it to find the exact equations, algorithm steps, hyperparameters and experimental settings to implement.`,
+  parameters: toJsonSchema(SearchPaperArgsSchema),
 };
 
+const readSectionTool: LlmTool = {
+  name: "read_section",
+  description: `Returns the text of one section of the paper (see the outline in the system prompt). Long sections come in parts; ask for the next part if you need more.`,
+  parameters: toJsonSchema(ReadSectionArgsSchema),
+};
 
+// Paper lookups per turn before the tools are withdrawn and the model has
+// to answer with what it has read
+const MAX_PAPER_LOOKUPS = 8;
+
+// Run search_paper / read_section against the paper's passage index
+function lookUpPaper(index: PaperIndex, call: { name: string; args: Record<string, unknown> }): Record<string, unknown> {
+  if (call.name === "search_paper") {
+    const parsed = SearchPaperArgsSchema.safeParse(call.args);
+    if (!parsed.success) return { error: `invalid arguments: ${parsed.error.message}` };
+    const hits = searchPaper(index, parsed.data.query, parsed.data.limit);
+    return hits.length
+      ? { passages: hits.map(hit => ({ section: hit.section, text: hit.text })) }
+      : { passages: [], note: "No passages match. Try other words, or read_section." };
+  }
+
+  const parsed = ReadSectionArgsSchema.safeParse(call.args);
+  if (!parsed.success) return { error: `invalid arguments: ${parsed.error.message}` };
+  const section = findSection(index, parsed.data.section);
+  if (!section) {
+    return { error: `No section "${parsed.data.section}". Sections: ${index.sections.map(s => s.title).join("; ")}` };
+  }
+  return { ...readSection(index, section, parsed.data.part) };
+}
 
+// Failed edit_prototype calls in one turn before the model has to fall back
+// to render_prototype with the complete code
+const MAX_EDIT_ATTEMPTS = 2;
+
+// Rounds of static-check failures (see lib/prototype-check.ts) sent back to
+// the model per turn; after that the code goes to the sandbox as it is
+const MAX_CHECK_ATTEMPTS = 2;
+
+// Calls that change nothing (unknown tools, tools not on offer, render
+// without code) answered with an error per turn before the turn fails
+const MAX_INVALID_CALLS = 2;
+
+// Why a call could not be carried out, for the model to correct
+function invalidCallError(call: { name: string }, offered: LlmTool[]) {
+  const names = offered.map(tool => tool.name).join(", ");
+  if (call.name === "render_prototype") return "render_prototype needs the complete component code as a string in `code`.";
+  if (call.name === "edit_prototype") return `There is no current code to edit. Available tools: ${names}.`;
+  if (call.name === "search_paper" || call.name === "read_section") {
+    return `The paper text is not available for this prototype. Available tools: ${names}.`;
+  }
+  return `Unknown tool "${call.name}". Available tools: ${names}.`;
+}
 
+// Models sometimes wrap the code in a markdown fence
+function stripCodeFence(code: string) {
+  return code.replace(/^```[\w]*\n?/, "").replace(/\n?```$/, "");
+}
 
+// Apply edit_prototype args to the current code
+function applyEditArgs(code: string, args: Record<string, unknown>): PatchResult {
+  const parsed = EditPrototypeArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return { ok: false, failures: [{ index: 0, search: "", reason: `invalid arguments: ${parsed.error.message}` }] };
+  }
+  const { edits, diff } = parsed.data;
+  if (edits?.length) return applyEdits(code, edits);
+  if (diff?.trim()) return applyUnifiedDiff(code, diff);
+  return { ok: false, failures: [{ index: 0, search: "", reason: "give either edits or diff" }] };
+}
 
 // ============================================================================
 // API ROUTE HANDLER
 // ============================================================================
 
+const NDJSON_HEADERS = {
+  "Content-Type": "application/x-ndjson",
+  "Cache-Control": "no-cache",
+  "Connection": "keep-alive",
+};
+
+// 503s from the provider (the status is only in the message for some SDK errors)
+function isOverloadedError(error: unknown) {
+  if (!(error instanceof Error)) return false;
+  const { status } = error as Error & { status?: unknown };
+  return status === 503 || error.message.includes('overloaded') || error.message.includes('503');
+}
+
+/**
+ * GET /api/agent?prototypeId=...
+ * GET /api/agent?turnId=...&from=0
+ *
+ * The stored agent chat of a prototype, for display, with the id of a turn
+ * still running (`runningTurnId`). With `turnId`, the events of that turn
+ * as NDJSON from event `from` on, following it until it finishes.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const turnId = searchParams.get("turnId");
+    if (turnId) {
+      const turn = getTurn(turnId);
+      if (!turn) {
+        return NextResponse.json({ error: "Turn not found" }, { status: 404 });
+      }
+      return new NextResponse(turnStream(turn, Number(searchParams.get("from")) || 0), { headers: NDJSON_HEADERS });
+    }
+
+    const prototypeId = searchParams.get("prototypeId");
+    if (!prototypeId) {
+      return NextResponse.json({ error: "prototypeId or turnId is required" }, { status: 400 });
+    }
+
+    const session = getAgentSession(prototypeId);
+    return NextResponse.json({
+      messages: session?.messages ?? [],
+      runningTurnId: runningTurn(prototypeId)?.id ?? null,
+    });
+  } catch (error) {
+    console.error("[API /agent] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load agent session", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/agent?turnId=...
+ *
+ * Stop a running turn: the model call is aborted and what the agent said so
+ * far is saved
+ */
+export async function DELETE(req: NextRequest) {
+  const turnId = req.nextUrl.searchParams.get("turnId");
+  if (!turnId) {
+    return NextResponse.json({ error: "turnId is required" }, { status: 400 });
+  }
+
+  if (!stopTurn(turnId)) {
+    return NextResponse.json({ error: "No running turn with this id" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
+
+/**
+ * POST /api/agent
+ *
+ * One chat turn: `message` is added to the prototype's stored session, the
+ * agent's reply streams back as NDJSON and is stored when the turn ends.
+ * Code the agent renders or edits is saved with the prototype as a new
+ * revision (`origin`: "agent" or "auto_fix"); a prototype saved for the first
+ * time gets `title` and `description`. Edits apply to the saved code.
+ * The turn runs on if the client disconnects; `turnId` (optional, chosen by
+ * the client) is how it reattaches or stops it.
+ */
 export async function POST(req: NextRequest) {
+  let turn: AgentTurn | undefined;
   try {
     const body = await req.json();
-    const { history, isInitial } = body;
+    const prototypeId = typeof body.prototypeId === "string" ? body.prototypeId : "";
+    const message = typeof body.message === "string" ? body.message : "";
+    if (!prototypeId || !message.trim()) {
+      return NextResponse.json({ error: "prototypeId and message are required" }, { status: 400 });
+    }
+    // Turns of one prototype would overwrite each other's session
+    const running = runningTurn(prototypeId);
+    if (running) {
+      return NextResponse.json(
+        { error: "The agent is still answering", turnId: running.id },
+        { status: 409 }
+      );
+    }
+    turn = startTurn(prototypeId, typeof body.turnId === "string" ? body.turnId : undefined);
+    const { signal } = turn.controller;
+    const paperHash = typeof body.paperHash === "string" ? body.paperHash : undefined;
+    const origin = body.origin === "auto_fix" ? "auto_fix" : "agent";
+    // System prompt from the registry (prompts/agent/); `promptVersions` picks a variant
+    const requestedVersions = parsePromptVersions(body.promptVersions);
+    const prompt = getPrompt("agent", requestedVersions.agent);
+    const promptVersions = { agent: prompt.version };
+
+    // Current prototype code as saved (the client's copy may be stale: another
+    // tab, a restore made elsewhere); edit_prototype is only offered when there is some
+    const savedCode = getPrototype(prototypeId)?.code;
+    const currentCode = savedCode?.trim() ? savedCode : undefined;
+    // The paper is looked up with search_paper / read_section, not sent in full
+    const paperIndex = paperHash ? getPaperIndex(paperHash) : null;
+
+    let system = prompt.text;
+    if (paperIndex) {
+      system += `\n\n## PAPER\n"${paperIndex.title}" is available through search_paper and read_section. ` +
+        `Look up the equations, algorithms and parameters you implement instead of guessing them.\n\n` +
+        `Sections:\n${paperOutline(paperIndex)}`;
+    }
+    if (currentCode) {
+      system += `\n\n## CURRENT PROTOTYPE CODE\n\`\`\`jsx\n${currentCode}\n\`\`\``;
+    }
+
+    // The conversation so far lives on the server; older turns are folded
+    // into a summary once they pass the token budget
+    const now = Date.now();
+    const session: AgentSession = getAgentSession(prototypeId) ?? {
+      id: prototypeId,
+      paper_hash: paperHash,
+      messages: [],
+      summarized: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    session.messages.push(userMessage(message));
+    await compactSession(session, {
+      omitCode: !!currentCode,
+      promptVersions: requestedVersions,
+      context: { prototype_id: prototypeId, paper_hash: paperHash },
+    });
+    if (session.summary) {
+      system += `\n\n## EARLIER CONVERSATION\nSummary of the earlier part of this chat:\n${session.summary}`;
+    }
 
-    // Use history directly - page already formats it correctly
-    const contents = history || [];
+    const contents: LlmMessage[] = sessionMessages(session, { omitCode: !!currentCode });
+    const llm = getLlmProvider();
 
-    console.log(`[Agent] Calling Gemini with ${contents.length} messages, isInitial: ${isInitial}`);
+    console.log(`[Agent] Calling ${llm.model("agent")} with ${contents.length} messages (${session.summarized} summarized)`);
 
     // Retry logic for overloaded model
     const MAX_RETRIES = 3;
     const RETRY_DELAYS = [1000, 2000, 4000]; // Exponential backoff
-    
-    let response;
-    let lastError;
-    
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      try {
-        response = await ai.models.generateContentStream({
-          model: "gemini-3-flash-preview",
-          contents,
-          config: {
-            systemInstruction: systemInstruction,
-            tools: [agentTools],
-          },
-        });
-        break; // Success, exit retry loop
-      } catch (error: any) {
-        lastError = error;
-        const isOverloaded = error?.status === 503 || 
-                            error?.message?.includes('overloaded') ||
-                            error?.message?.includes('503');
-        
-        if (isOverloaded && attempt < MAX_RETRIES - 1) {
-          console.log(`[Agent] Model overloaded, retrying in ${RETRY_DELAYS[attempt]}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt]));
-        } else {
-          throw error;
+
+    const openStream = async (messages: LlmMessage[], tools: LlmTool[], firstAttempt = 0) => {
+      let lastError;
+      for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+        try {
+          return await llm.stream({
+            task: "agent",
+            system,
+            messages,
+            tools,
+            context: { prototype_id: prototypeId, paper_hash: paperHash, attempt: firstAttempt + attempt },
+            signal,
+          });
+        } catch (error) {
+          lastError = error;
+          if (isOverloadedError(error) && attempt < MAX_RETRIES - 1) {
+            console.log(`[Agent] Model overloaded, retrying in ${RETRY_DELAYS[attempt]}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+            await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt]));
+          } else {
+            throw error;
+          }
         }
       }
-    }
-    
-    if (!response) {
-      throw lastError || new Error('Failed to get response from Gemini');
-    }
+      throw lastError || new Error('Failed to get response from the model');
+    };
+
+    // Tools on offer; edit and lookup tools are withdrawn after too many calls
+    const toolsFor = (options: { edit: boolean; lookup: boolean }) => [
+      renderPrototypeTool,
+      ...(options.edit && currentCode ? [editPrototypeTool] : []),
+      ...(options.lookup && paperIndex ? [searchPaperTool, readSectionTool] : []),
+    ];
+    const response = await openStream(contents, toolsFor({ edit: true, lookup: true }));
+    // The user's message is shown on reload while the turn runs
+    saveAgentSession(session);
+
+    // Run the turn apart from this request; the response follows its events
+    const currentTurn = turn;
+    const send = (event: Record<string, unknown>) => pushTurnEvent(currentTurn, event);
+    send({ type: "turn", id: currentTurn.id });
+
+    const run = async () => {
+      // Messages of this turn after the user's, stored with the session
+      const turnMessages: LlmMessage[] = [];
+      const exchange = (text: string, call: LlmToolCall, result: Record<string, unknown>): LlmMessage[] => [
+        {
+          role: "model",
+          parts: [
+            ...(text ? [{ text }] : []),
+            {
+              functionCall: { name: call.name, args: call.args },
+              ...(call.thoughtSignature && { thoughtSignature: call.thoughtSignature }),
+            },
+          ],
+        },
+        { role: "user", parts: [{ functionResponse: { name: call.name, response: result } }] },
+      ];
+      const persist = () => {
+        session.messages.push(...turnMessages.splice(0));
+        saveAgentSession(session);
+      };
 
-    // Create streaming response
-    const stream = new ReadableStream({
-      async start(controller) {
-        const encoder = new TextEncoder();
-        
-        try {
-          // Track if we've already sent a function call for this response
-          let functionCallSent = false;
-          
-          for await (const chunk of response) {
-            // Extract text content - try multiple approaches
-            let text = "";
-            try {
-              // Method 1: Direct text property (function)
-              if (typeof (chunk as any).text === "function") {
-                text = (chunk as any).text();
-              }
-              // Method 2: Direct text property (string)
-              else if (typeof chunk.text === "string") {
-                text = chunk.text;
+      try {
+        let events = response;
+        let failedEdits = 0;
+        let failedChecks = 0;
+        let lookups = 0;
+        let invalidCalls = 0;
+        let attempt = 0;
+
+        // One round per model call. Paper lookups are answered here, and a
+        // failed edit or check is reported back to the model, which fixes it
+        // (or falls back to render_prototype) in the same turn; only code
+        // that passed reaches the client.
+        while (true) {
+          let text = "";
+          let functionCall: LlmToolCall | undefined;
+
+          try {
+            for await (const event of events) {
+              // Send text chunks (only if non-empty)
+              if (event.type === "text" && event.text.trim()) {
+                text += event.text;
+                send({ type: "text", content: event.text });
               }
-              // Method 3: From candidates parts
-              else {
-                const textPart = chunk.candidates?.[0]?.content?.parts?.find(
-                  (p: any) => typeof p.text === "string"
-                );
-                text = textPart?.text || "";
+
+              // Only act on the first function call of a response
+              if (event.type === "tool_call" && !functionCall) {
+                functionCall = event.call;
+                console.log("[Agent] Function call:", functionCall.name);
               }
-            } catch {
-              // Ignore text extraction errors
             }
+          } catch (error) {
+            if (!signal.aborted) throw error;
+          }
 
-            // Send text chunks (only if non-empty)
-            if (text && text.trim()) {
-              controller.enqueue(
-                encoder.encode(JSON.stringify({ type: "text", content: text }) + "\n")
-              );
+          // Stopped: keep what was said, drop a call that may be cut off
+          if (signal.aborted) {
+            if (text) turnMessages.push({ role: "model", parts: [{ text }] });
+            console.log("[Agent] Turn stopped");
+            send({ type: "stopped" });
+            break;
+          }
+
+          if (!functionCall) {
+            if (text) turnMessages.push({ role: "model", parts: [{ text }] });
+            break;
+          }
+          const call = functionCall;
+
+          // Answer the call and read the model's next response
+          const reply = async (result: Record<string, unknown>, nextTools: LlmTool[]) => {
+            turnMessages.push(...exchange(text, call, result));
+            events = await openStream([...contents, ...turnMessages], nextTools, ++attempt);
+          };
+          // End the turn on an unanswerable call
+          const fail = (error: string) => {
+            turnMessages.push(...exchange(text, call, { success: false, error }));
+            send({ type: "error", message: error });
+          };
+          const retry = (error: string, instructions: string, nextTools: LlmTool[]) =>
+            reply({ success: false, error, instructions }, nextTools);
+
+          if ((call.name === "search_paper" || call.name === "read_section") && paperIndex) {
+            lookups++;
+            // Only possible if the model ignored the withdrawn tools
+            if (lookups > MAX_PAPER_LOOKUPS) {
+              fail("The agent kept searching the paper without answering. Please try again.");
+              break;
             }
+            send({
+              type: "paper_lookup",
+              name: call.name,
+              query: call.args?.query ?? call.args?.section,
+            });
+            await reply(
+              lookUpPaper(paperIndex, call),
+              toolsFor({ edit: failedEdits < MAX_EDIT_ATTEMPTS, lookup: lookups < MAX_PAPER_LOOKUPS })
+            );
+            continue;
+          }
 
-            // Check for function calls - only send once per response
-            if (!functionCallSent) {
-              // Check in candidates parts (primary method)
-              const parts = chunk.candidates?.[0]?.content?.parts;
-              if (parts) {
-                for (const part of parts) {
-                  if ((part as any).functionCall) {
-                    const functionCall = (part as any).functionCall;
-                    console.log("[Agent] Function call:", functionCall.name);
-                    
-                    controller.enqueue(
-                      encoder.encode(
-                        JSON.stringify({
-                          type: "tool_call",
-                          name: functionCall.name,
-                          args: functionCall.args,
-                          title: functionCall.args?.title,
-                        }) + "\n"
-                      )
-                    );
-                    functionCallSent = true;
-                    break;
-                  }
-                }
-              }
-              
-              // Fallback: check chunk.functionCalls (older SDK versions)
-              if (!functionCallSent) {
-                const functionCalls = (chunk as any).functionCalls;
-                if (functionCalls && Array.isArray(functionCalls) && functionCalls.length > 0) {
-                  const call = functionCalls[0]; // Take first one only
-                  console.log("[Agent] Function call (fallback):", call.name);
-                  
-                  controller.enqueue(
-                    encoder.encode(
-                      JSON.stringify({
-                        type: "tool_call",
-                        name: call.name,
-                        args: call.args,
-                        title: call.args?.title,
-                      }) + "\n"
-                    )
-                  );
-                  functionCallSent = true;
-                }
+          let code: string | undefined;
+          if (call.name === "edit_prototype" && currentCode) {
+            const result = applyEditArgs(currentCode, call.args ?? {});
+            if (!result.ok) {
+              failedEdits++;
+              const error = formatPatchFailures(result.failures);
+              console.log(`[Agent] Edit failed (attempt ${failedEdits}):\n${error}`);
+              send({ type: "edit_failed", message: error, failures: result.failures });
+              // Only possible if the model ignored the withdrawn tool
+              if (failedEdits > MAX_EDIT_ATTEMPTS) {
+                fail("The prototype could not be updated. Please try again.");
+                break;
               }
+
+              // Edits are all or nothing, so the retry starts from the same code
+              const canRetryEdit = failedEdits < MAX_EDIT_ATTEMPTS;
+              await retry(
+                error,
+                canRetryEdit
+                  ? "No edits were applied. Fix the search text to match the current code exactly, or call render_prototype with the complete code."
+                  : "No edits were applied. Call render_prototype with the complete updated code.",
+                toolsFor({ edit: canRetryEdit, lookup: lookups < MAX_PAPER_LOOKUPS })
+              );
+              continue;
             }
+            code = result.code;
+          } else if (call.name === "render_prototype" && typeof call.args?.code === "string") {
+            code = stripCodeFence(call.args.code);
           }
 
-          // Signal completion
-          controller.enqueue(
-            encoder.encode(JSON.stringify({ type: "done" }) + "\n")
-          );
-          controller.close();
-        } catch (error) {
+          if (code === undefined) {
+            invalidCalls++;
+            const nextTools = toolsFor({ edit: failedEdits < MAX_EDIT_ATTEMPTS, lookup: lookups < MAX_PAPER_LOOKUPS });
+            const error = invalidCallError(call, nextTools);
+            console.log(`[Agent] Invalid call (attempt ${invalidCalls}): ${error}`);
+            if (invalidCalls > MAX_INVALID_CALLS) {
+              fail("The agent could not update the prototype. Please try again.");
+              break;
+            }
+            await retry(error, "Nothing was rendered. Use one of the available tools.", nextTools);
+            continue;
+          }
+
+          if (failedChecks < MAX_CHECK_ATTEMPTS) {
+            const diagnostics = checkPrototype(code);
+            if (diagnostics.length > 0) {
+              failedChecks++;
+              const error = formatPrototypeDiagnostics(diagnostics);
+              console.log(`[Agent] Prototype check failed (attempt ${failedChecks}):\n${error}`);
+              send({ type: "check_failed", message: error, diagnostics });
+              await retry(
+                error,
+                call.name === "edit_prototype"
+                  ? "The edit was not applied. Fix these problems with another edit_prototype call against the same current code, or call render_prototype with the complete code."
+                  : "Nothing was rendered. Fix these problems and call render_prototype again with the complete code.",
+                toolsFor({ edit: failedEdits < MAX_EDIT_ATTEMPTS, lookup: lookups < MAX_PAPER_LOOKUPS })
+              );
+              continue;
+            }
+          }
+
+          // Saved here rather than by the client, which may have left
+          const existing = getPrototype(prototypeId);
+          const revision = savePrototype(prototypeId, {
+            paper_hash: existing?.paper_hash ?? paperHash,
+            title: existing?.title ?? (typeof body.title === "string" && body.title ? body.title : "Untitled Prototype"),
+            description: existing?.description ?? (typeof body.description === "string" ? body.description : ""),
+            code,
+            algorithm_info: existing?.algorithm_info,
+            prompt_versions: promptVersions,
+          }, { origin, message })?.seq;
+
+          send({
+            type: "tool_call",
+            name: call.name,
+            args: call.args,
+            // edit_prototype is applied here; the client renders the result
+            ...(call.name === "edit_prototype" && { code }),
+            title: call.args?.title,
+            prompt_versions: promptVersions,
+            // Revision the code was saved as (none if it was unchanged)
+            ...(revision !== undefined && { revision }),
+          });
+          turnMessages.push(...exchange(text, call, {
+            success: true,
+            rendered: true,
+            ...(revision !== undefined && { revision }),
+          }));
+          break;
+        }
+
+        persist();
+        // Signal completion
+        send({ type: "done" });
+      } catch (error) {
+        // Keep the user's message and whatever was answered before the failure
+        persist();
+        if (signal.aborted) {
+          send({ type: "stopped" });
+        } else {
           console.error("[Agent] Stream error:", error);
-          controller.enqueue(
-            encoder.encode(
-              JSON.stringify({ type: "error", message: String(error) }) + "\n"
-            )
-          );
-          controller.close();
+          send({ type: "error", message: String(error) });
         }
-      },
-    });
+      } finally {
+        finishTurn(currentTurn);
+      }
+    };
+    run();
 
-    return new NextResponse(stream, {
-      headers: {
-        "Content-Type": "application/x-ndjson",
-        "Cache-Control": "no-cache",
-        "Connection": "keep-alive",
-      },
-    });
-  } catch (error: any) {
+    return new NextResponse(turnStream(currentTurn), { headers: NDJSON_HEADERS });
+  } catch (error) {
     console.error("[Agent] Error:", error);
+    // The turn never started
+    if (turn) finishTurn(turn);
+
+    // A requested version that doesn't exist; a missing registry stays a server error
+    if (error instanceof UnknownPromptError && error.version) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     
-    // Check if it's an overload error
-    const isOverloaded = error?.status === 503 || 
-                        error?.message?.includes('overloaded') ||
-                        error?.message?.includes('503');
-    
-    if (isOverloaded) {
+    if (isOverloadedError(error)) {
       // Return a streaming response with error so frontend handles it properly
       const encoder = new TextEncoder();
       const errorStream = new ReadableStream({
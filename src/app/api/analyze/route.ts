@@ -1,30 +1,74 @@
 import { NextRequest, NextResponse } from "next/server";
-import { analyzePaper } from "@/lib/gemini";
-import { saveAnalysis } from "@/lib/db";
+import { analysisModel, analysisPromptVersions, analyzePaper, type AnalysisStreamEvent } from "@/lib/analysis";
+import { getAnalysis, saveAnalysis } from "@/lib/db";
+import { ndjsonResponse } from "@/lib/ndjson";
+import { UnknownPromptError, parsePromptVersions, type PromptVersions } from "@/lib/prompts";
 
+/**
+ * POST /api/analyze
+ *
+ * Analyze extracted paper text, streaming progress as NDJSON:
+ * - { type: "stage", stage, message }        analyzing, reading_chunks, merging,
+ *                                            validating, repairing, verifying, saved
+ * - { type: "chunk", completed, total, sections }  long papers only
+ * - { type: "partial", field, value }        analysis fields as they arrive
+ * - { type: "result", analysis, hash, revision?, model, prompt_versions }
+ * - { type: "error", message, issues? } / { type: "done" }
+ *   `issues` lists what was still wrong if the model output never validated
+ *
+ * Body: { text?, hash?, filename?, model?, promptVersions? }. The analysis is
+ * cached under `hash`; without `text`, the paper stored under `hash` is
+ * re-analyzed. Every save adds an analysis revision (see
+ * /api/papers/[hash]/revisions). `model` overrides the configured analysis
+ * model for this run, `promptVersions` the default prompt versions
+ * (e.g. { analysis: "v2" }; see /api/prompts).
+ */
 export async function POST(req: NextRequest) {
-  try {
-    const { text, hash, filename } = await req.json();
+  const body = await req.json().catch(() => ({}));
+  const { hash } = body;
+  const model = typeof body.model === "string" && body.model.trim() ? body.model.trim() : undefined;
+  let { text, filename } = body;
+
+  if (!text && hash) {
+    const existing = getAnalysis(hash);
+    if (!existing) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+    text = existing.raw_text;
+    filename = existing.filename;
+  }
+
+  if (!text) {
+    return NextResponse.json({ error: "No text provided" }, { status: 400 });
+  }
 
-    if (!text && !hash) { // Allow hash-only if we supported refetching from db, but for now we rely on re-analyzing text
-      return NextResponse.json({ error: "No text provided" }, { status: 400 });
+  const requestedPrompts = parsePromptVersions(body.promptVersions);
+  let promptVersions: PromptVersions;
+  try {
+    promptVersions = analysisPromptVersions(text, { promptVersions: requestedPrompts });
+  } catch (error) {
+    if (error instanceof UnknownPromptError && error.version) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
+    throw error;
+  }
+
+  return ndjsonResponse<AnalysisStreamEvent>(async send => {
+    console.log(`Analyzing paper${model ? ` with ${model}` : ""}...`);
+    const analysis = await analyzePaper(text, { onProgress: send, paperHash: hash, model, promptVersions });
 
-    // Double check cache if hash provided (redundant but safe)
-    // Actually, if we are here, it means cache missed or force refresh.
-    
-    console.log("Analyzing paper...");
-    const analysis = await analyzePaper(text);
-    
     // Save to Cache if hash is present
+    const usedModel = analysisModel({ model });
+    let revision: number | undefined;
     if (hash) {
-        saveAnalysis(hash, filename || "unknown.pdf", text, analysis);
-        console.log("Saved analysis to cache:", hash);
+      revision = saveAnalysis(hash, filename || "unknown.pdf", text, analysis, {
+        model: usedModel,
+        promptVersions,
+      }).seq;
+      console.log(`Saved analysis to cache: ${hash} (revision ${revision})`);
+      send({ type: "stage", stage: "saved", message: "Saved to your library" });
     }
 
-    return NextResponse.json(analysis);
-  } catch (error) {
-    console.error("Analysis Error:", error);
-    return NextResponse.json({ error: "Failed to analyze paper" }, { status: 500 });
-  }
+    send({ type: "result", analysis, hash, revision, model: usedModel, prompt_versions: promptVersions });
+  }, "[API /analyze]");
 }
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { fetchArxivPaper, fetchArxivPdfText } from "@/lib/arxiv";
-import { analyzePaper } from "@/lib/gemini";
+import { analysisModel, analysisPromptVersions, analyzePaper, type AnalysisStreamEvent } from "@/lib/analysis";
 import { getAnalysis, saveAnalysis } from "@/lib/db";
+import { ndjsonResponse } from "@/lib/ndjson";
 
 /**
  * GET /api/arxiv/[id]
@@ -9,7 +10,9 @@ import { getAnalysis, saveAnalysis } from "@/lib/db";
  * Fetch a specific arXiv paper by ID
  * 
  * Query params:
- * - analyze: If "true", fetch PDF, extract text, and analyze
+ * - analyze: If "true", fetch PDF, extract text, and analyze. The response
+ *   is then an NDJSON progress stream (see /api/analyze) whose "result"
+ *   event also carries `paper`, `text` and `cached`.
  * - text: If "true", also fetch and extract PDF text
  */
 export async function GET(
@@ -39,44 +42,41 @@ export async function GET(
       // Use arXiv ID as hash for caching
       const cacheKey = `arxiv-${id.replace(/[^a-zA-Z0-9]/g, "-")}`;
       
-      // Check cache
-      const cached = getAnalysis(cacheKey);
-      if (cached) {
-        console.log(`[API /arxiv/${id}] Cache hit`);
-        return NextResponse.json({
-          paper,
-          text: cached.raw_text,
-          analysis: JSON.parse(cached.analysis_json),
-          cached: true,
-        });
-      }
-      
-      try {
+      return ndjsonResponse<AnalysisStreamEvent>(async send => {
+        // Check cache
+        const cached = getAnalysis(cacheKey);
+        if (cached) {
+          console.log(`[API /arxiv/${id}] Cache hit`);
+          send({
+            type: "result",
+            hash: cacheKey,
+            paper,
+            text: cached.raw_text,
+            analysis: JSON.parse(cached.analysis_json),
+            cached: true,
+          });
+          return;
+        }
+
         // Extract text from PDF using unpdf
         console.log(`[API /arxiv/${id}] Extracting text...`);
+        send({ type: "stage", stage: "extracting", message: "Downloading and extracting the PDF" });
         const text = await fetchArxivPdfText(id);
-        
-        // Analyze the text with Gemini
-        console.log(`[API /arxiv/${id}] Analyzing with Gemini...`);
-        const analysis = await analyzePaper(text);
-        
+
+        // Analyze the text with the configured LLM provider
+        console.log(`[API /arxiv/${id}] Analyzing...`);
+        const analysis = await analyzePaper(text, { onProgress: send, paperHash: cacheKey });
+
         // Cache the result
-        saveAnalysis(cacheKey, `arxiv-${id}`, text, analysis);
-        console.log(`[API /arxiv/${id}] Analysis complete, cached`);
-        
-        return NextResponse.json({
-          paper,
-          text,
-          analysis,
-          cached: false,
+        saveAnalysis(cacheKey, `arxiv-${id}`, text, analysis, {
+          model: analysisModel(),
+          promptVersions: analysisPromptVersions(text),
         });
-      } catch (analysisError) {
-        console.error(`[API /arxiv/${id}] Analysis failed:`, analysisError);
-        return NextResponse.json(
-          { error: "Failed to analyze paper", details: String(analysisError) },
-          { status: 500 }
-        );
-      }
+        console.log(`[API /arxiv/${id}] Analysis complete, cached`);
+        send({ type: "stage", stage: "saved", message: "Saved to your library" });
+
+        send({ type: "result", hash: cacheKey, paper, text, analysis, cached: false });
+      }, `[API /arxiv/${id}]`);
     }
     
     // If text requested but not analysis
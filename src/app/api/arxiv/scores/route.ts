@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { quickAnalyzePapers, type QuickAnalysisInput } from "@/lib/analysis";
+import { getQuickScores, saveQuickScores } from "@/lib/db";
+import { getLlmProvider } from "@/lib/llm";
+
+// One arXiv results page at most (see /api/arxiv `max`)
+const MAX_PAPERS = 100;
+
+/**
+ * POST /api/arxiv/scores
+ *
+ * Quick-score arXiv papers from their abstracts for Discover triage:
+ * predicted breakthrough score and prototypability (1-100 each). Scores are
+ * cached by arXiv id; uncached papers are scored together in one batched
+ * model call.
+ *
+ * Body: { papers: [{ id, title, summary }] } (as returned by /api/arxiv)
+ * Returns: { scores: { [id]: QuickScoreEntry }, cached, scored }
+ * Papers the model skipped are missing from `scores`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const papers: QuickAnalysisInput[] = (Array.isArray(body.papers) ? body.papers : [])
+      .filter((p: { id?: unknown; summary?: unknown }) => typeof p?.id === "string" && typeof p.summary === "string")
+      .slice(0, MAX_PAPERS)
+      .map((p: { id: string; title?: unknown; summary: string }) => ({
+        id: p.id,
+        title: typeof p.title === "string" ? p.title : undefined,
+        text: p.summary,
+      }));
+
+    if (papers.length === 0) {
+      return NextResponse.json({ error: "No papers provided" }, { status: 400 });
+    }
+
+    const cached = getQuickScores(papers.map(p => p.id));
+    const missing = papers.filter(p => !cached[p.id]);
+
+    if (missing.length > 0) {
+      console.log(`[API /arxiv/scores] Scoring ${missing.length} papers (${papers.length - missing.length} cached)`);
+      const results = await quickAnalyzePapers(missing);
+      const model = getLlmProvider().model("quick_analysis");
+      saveQuickScores(Object.fromEntries(
+        Object.entries(results).map(([id, quick]) => [id, { ...quick, model }])
+      ));
+    }
+
+    const scores = missing.length > 0 ? getQuickScores(papers.map(p => p.id)) : cached;
+    return NextResponse.json({
+      scores,
+      cached: Object.keys(cached).length,
+      scored: Object.keys(scores).length - Object.keys(cached).length,
+    });
+  } catch (error) {
+    console.error("[API /arxiv/scores] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to score papers", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
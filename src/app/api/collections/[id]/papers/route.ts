@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setCollectionMembership } from "@/lib/db";
+
+// Both handlers take { hashes: string[] } (or a single { hash })
+async function readHashes(req: NextRequest): Promise<string[] | null> {
+  const { hash, hashes } = await req.json();
+  if (Array.isArray(hashes) && hashes.every(h => typeof h === "string")) return hashes;
+  if (typeof hash === "string") return [hash];
+  return null;
+}
+
+async function updateMembership(
+  req: NextRequest,
+  params: Promise<{ id: string }>,
+  member: boolean
+) {
+  try {
+    const { id } = await params;
+    const hashes = await readHashes(req);
+    if (!hashes) {
+      return NextResponse.json({ error: "hash or hashes is required" }, { status: 400 });
+    }
+
+    const changed = setCollectionMembership(id, hashes, member);
+    if (changed === null) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, changed });
+  } catch (error) {
+    console.error("[API /collections/[id]/papers] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to update collection", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/collections/[id]/papers
+ *
+ * Add papers to a collection
+ *
+ * Body:
+ * - hashes: string[] (or hash: string)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateMembership(req, params, true);
+}
+
+/**
+ * DELETE /api/collections/[id]/papers
+ *
+ * Remove papers from a collection (the papers themselves are kept)
+ *
+ * Body:
+ * - hashes: string[] (or hash: string)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateMembership(req, params, false);
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteCollection, getCollection, listAnalysisSummaries, updateCollection } from "@/lib/db";
+
+/**
+ * GET /api/collections/[id]
+ *
+ * Fetch one collection with summaries of its papers (newest first)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const collection = getCollection(id);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    const { papers } = listAnalysisSummaries({ collection: id, max: Infinity });
+    return NextResponse.json({ collection, papers });
+  } catch (error) {
+    console.error("[API /collections/[id]] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch collection", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/collections/[id]
+ *
+ * Rename a collection or change its description
+ *
+ * Body:
+ * - name?: string
+ * - description?: string
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, description } = await req.json();
+
+    const collection = updateCollection(id, {
+      name: typeof name === "string" ? name : undefined,
+      description: typeof description === "string" ? description : undefined,
+    });
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, collection });
+  } catch (error) {
+    console.error("[API /collections/[id]] Update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update collection", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]
+ *
+ * Delete a collection. Its papers are kept and only lose the membership.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!deleteCollection(id)) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[API /collections/[id]] Delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete collection", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCollection, listCollections } from "@/lib/db";
+
+/**
+ * GET /api/collections
+ *
+ * List paper collections (by name) with their paper counts
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ collections: listCollections() });
+  } catch (error) {
+    console.error("[API /collections] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch collections", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/collections
+ *
+ * Create a collection
+ *
+ * Body:
+ * - name: Display name (the id is derived from it)
+ * - description?: Optional notes
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { name, description } = await req.json();
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Collection name is required" }, { status: 400 });
+    }
+
+    const collection = createCollection(name, typeof description === "string" ? description : undefined);
+    return NextResponse.json({ success: true, collection });
+  } catch (error) {
+    console.error("[API /collections] Create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create collection", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { buildLibraryArchive } from "@/lib/archive";
+
+/**
+ * GET /api/library/export
+ *
+ * Download the whole library (analyses with their earlier revisions,
+ * prototypes with chat history and revisions) as a zip archive.
+ *
+ * Query params:
+ * - pdfs: If "true", include stored original PDFs
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const includePdfs = searchParams.get("pdfs") === "true";
+
+    const archive = buildLibraryArchive({ includePdfs });
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(Buffer.from(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="sciproto-library-${date}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[API /library/export] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to export library", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_ARCHIVE_BYTES, readLibraryArchive } from "@/lib/archive";
+import { importLibrary, ImportConflictStrategy } from "@/lib/db";
+import { savePdf } from "@/lib/pdfs";
+
+const CONFLICT_STRATEGIES: ImportConflictStrategy[] = ["skip", "overwrite", "newer"];
+
+/**
+ * POST /api/library/import
+ *
+ * Merge a library archive (from /api/library/export) into this library.
+ * Form data:
+ * - file: The .zip archive, at most MAX_ARCHIVE_BYTES
+ *
+ * Query params:
+ * - conflict: What to do when a paper hash / prototype or collection id
+ *   already exists
+ *   - "skip" (default): keep the local copy
+ *   - "overwrite": replace it with the imported one
+ *   - "newer": keep whichever was updated more recently
+ */
+export async function POST(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const conflictParam = searchParams.get("conflict") as ImportConflictStrategy | null;
+  const conflict = conflictParam && CONFLICT_STRATEGIES.includes(conflictParam) ? conflictParam : "skip";
+
+  // Refuse oversized uploads before buffering the form
+  const contentLength = Number(req.headers.get("content-length") ?? 0);
+  if (contentLength > MAX_ARCHIVE_BYTES) {
+    return NextResponse.json({ error: "Archive is too large" }, { status: 413 });
+  }
+
+  let archive;
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file") as File | null;
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    if (file.size > MAX_ARCHIVE_BYTES) {
+      return NextResponse.json({ error: "Archive is too large" }, { status: 413 });
+    }
+    archive = readLibraryArchive(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.error("[API /library/import] Invalid archive:", error);
+    return NextResponse.json(
+      { error: "Invalid library archive", details: String(error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = importLibrary(archive.snapshot, conflict);
+
+    // Restore original PDFs for papers that were imported
+    let pdfs = 0;
+    for (const hash of report.importedHashes) {
+      const pdf = archive.pdfs[hash];
+      if (!pdf) continue;
+      savePdf(hash, pdf);
+      pdfs++;
+    }
+
+    return NextResponse.json({
+      success: true,
+      conflict,
+      analyses: report.analyses,
+      prototypes: report.prototypes,
+      collections: report.collections,
+      revisions: report.revisions,
+      analysis_revisions: report.analysisRevisions,
+      pdfs,
+    });
+  } catch (error) {
+    console.error("[API /library/import] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to import library", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
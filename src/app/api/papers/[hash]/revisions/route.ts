@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAnalysisRevision, getAnalysisRevisions, readRevisionAnalysis } from "@/lib/db";
+import { diffAnalyses } from "@/lib/analysis-diff";
+
+/**
+ * GET /api/papers/[hash]/revisions
+ *
+ * Analysis history of a paper. Every (re-)analysis is kept as a revision.
+ *
+ * Query params:
+ * - seq: Return a single revision including its analysis
+ * - from, to: Compare two revisions (`to` defaults to the latest); returns
+ *             both analyses and their diff
+ *
+ * Without params, lists revisions newest first (summary fields only).
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const { hash } = await params;
+    const { searchParams } = new URL(req.url);
+    const revisions = getAnalysisRevisions(hash);
+
+    if (revisions.length === 0) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    const seqParam = searchParams.get("seq");
+    if (seqParam) {
+      const revision = getAnalysisRevision(hash, parseInt(seqParam, 10));
+      if (!revision) {
+        return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+      }
+      return NextResponse.json({
+        seq: revision.seq,
+        model: revision.model,
+        prompt_versions: revision.prompt_versions,
+        created_at: revision.created_at,
+        analysis: readRevisionAnalysis(revision),
+      });
+    }
+
+    const fromParam = searchParams.get("from");
+    if (fromParam) {
+      const from = getAnalysisRevision(hash, parseInt(fromParam, 10));
+      const toParam = searchParams.get("to");
+      const to = toParam ? getAnalysisRevision(hash, parseInt(toParam, 10)) : revisions[0];
+      if (!from || !to) {
+        return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+      }
+      const fromAnalysis = readRevisionAnalysis(from);
+      const toAnalysis = readRevisionAnalysis(to);
+      return NextResponse.json({
+        from: { seq: from.seq, model: from.model, prompt_versions: from.prompt_versions, created_at: from.created_at, analysis: fromAnalysis },
+        to: { seq: to.seq, model: to.model, prompt_versions: to.prompt_versions, created_at: to.created_at, analysis: toAnalysis },
+        diff: diffAnalyses(fromAnalysis, toAnalysis),
+      });
+    }
+
+    return NextResponse.json({
+      revisions: revisions.map(revision => {
+        const analysis = readRevisionAnalysis(revision);
+        return {
+          seq: revision.seq,
+          model: revision.model,
+          prompt_versions: revision.prompt_versions,
+          created_at: revision.created_at,
+          title: analysis.title,
+          breakthrough_score: analysis.breakthrough_score,
+          claims: analysis.key_claims?.length ?? 0,
+          simulations: analysis.simulation_possibilities?.length ?? 0,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("[API /papers/[hash]/revisions] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revisions", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
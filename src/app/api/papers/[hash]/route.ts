@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteAnalysis, getAnalysis, updatePaperLabels } from "@/lib/db";
+
+/**
+ * GET /api/papers/[hash]
+ *
+ * Fetch one analyzed paper
+ *
+ * Query params:
+ * - text: If "true", also include the extracted paper text (raw_text)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const { hash } = await params;
+    const { searchParams } = new URL(req.url);
+    const includeText = searchParams.get("text") === "true";
+
+    const entry = getAnalysis(hash);
+    if (!entry) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      hash: entry.hash,
+      filename: entry.filename,
+      created_at: entry.created_at,
+      schema_version: entry.schema_version,
+      validation_issues: entry.validation_issues,
+      model: entry.model,
+      prompt_versions: entry.prompt_versions,
+      tags: entry.tags ?? [],
+      collection_ids: entry.collection_ids ?? [],
+      analysis: JSON.parse(entry.analysis_json),
+      ...(includeText && { raw_text: entry.raw_text }),
+    });
+  } catch (error) {
+    console.error("[API /papers/[hash]] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch paper", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === "string");
+}
+
+/**
+ * PATCH /api/papers/[hash]
+ *
+ * Replace a paper's tags and/or collections
+ *
+ * Body:
+ * - tags?: string[]
+ * - collection_ids?: string[] (unknown ids are dropped)
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const { hash } = await params;
+    const { tags, collection_ids } = await req.json();
+
+    if ((tags !== undefined && !isStringArray(tags)) || (collection_ids !== undefined && !isStringArray(collection_ids))) {
+      return NextResponse.json({ error: "tags and collection_ids must be arrays of strings" }, { status: 400 });
+    }
+
+    const entry = updatePaperLabels(hash, { tags, collection_ids });
+    if (!entry) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      tags: entry.tags ?? [],
+      collection_ids: entry.collection_ids ?? [],
+    });
+  } catch (error) {
+    console.error("[API /papers/[hash]] Update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update paper", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/papers/[hash]
+ *
+ * Delete a paper's analysis and, by default, every prototype built from it.
+ *
+ * Query params:
+ * - keepPrototypes: If "true", leave its prototypes in place (orphaned);
+ *                   their ids are returned in `orphanedPrototypes`
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const { hash } = await params;
+    const { searchParams } = new URL(req.url);
+    const keepPrototypes = searchParams.get("keepPrototypes") === "true";
+
+    const result = deleteAnalysis(hash, { keepPrototypes });
+    if (!result.deleted) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      deletedPrototypes: result.deletedPrototypes,
+      orphanedPrototypes: result.orphanedPrototypes,
+      ...(result.orphanedPrototypes.length > 0 && {
+        warning: `${result.orphanedPrototypes.length} prototype(s) now reference a deleted paper`,
+      }),
+    });
+  } catch (error) {
+    console.error("[API /papers/[hash]] Delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete paper", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,44 @@
-import { NextResponse } from "next/server";
-import { getAllAnalyses } from "@/lib/db";
+import { NextRequest, NextResponse } from "next/server";
+import { listAnalysisSummaries, AnalysisSortField } from "@/lib/db";
 
-export async function GET() {
+const SORT_FIELDS: AnalysisSortField[] = ["created_at", "breakthrough_score", "title"];
+
+/**
+ * GET /api/papers
+ *
+ * List analyzed papers as lightweight summaries (no raw_text)
+ *
+ * Query params:
+ * - sort: "created_at" (default) | "breakthrough_score" | "title"
+ * - order: "asc" | "desc" (default: desc, asc for title)
+ * - start: Pagination start index (default 0)
+ * - max: Max results (default 50, max 200)
+ * - collection: Only papers in this collection (id)
+ * - tags: Comma-separated tags; only papers carrying all of them
+ */
+export async function GET(req: NextRequest) {
   try {
-    const papers = getAllAnalyses();
-    return NextResponse.json({ papers });
+    const { searchParams } = new URL(req.url);
+
+    const sortParam = searchParams.get("sort") as AnalysisSortField | null;
+    const orderParam = searchParams.get("order");
+    const start = Math.max(parseInt(searchParams.get("start") || "0", 10) || 0, 0);
+    const max = Math.min(Math.max(parseInt(searchParams.get("max") || "50", 10) || 50, 1), 200);
+    const collection = searchParams.get("collection") || undefined;
+    const tags = searchParams.get("tags")?.split(",").filter(Boolean);
+
+    const { papers, total } = listAnalysisSummaries({
+      sort: sortParam && SORT_FIELDS.includes(sortParam) ? sortParam : undefined,
+      order: orderParam === "asc" || orderParam === "desc" ? orderParam : undefined,
+      start,
+      max,
+      collection,
+      tags,
+    });
+
+    return NextResponse.json({ papers, total, start, max });
   } catch (error) {
+    console.error("[API /papers] Error:", error);
     return NextResponse.json({ error: "Failed to fetch papers" }, { status: 500 });
   }
 }
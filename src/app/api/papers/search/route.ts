@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchPapers } from "@/lib/db";
+
+/**
+ * GET /api/papers/search
+ *
+ * Full-text search over analyzed papers (titles, key claims, key equations
+ * and extracted text), ranked with BM25
+ *
+ * Query params:
+ * - q: Search query (required)
+ * - start: Pagination start index (default 0)
+ * - max: Max results (default 20, max 50)
+ *
+ * Each hit has `snippets`: { field, text, highlights } where highlights are
+ * [start, end) character ranges of `text` that matched the query.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const query = searchParams.get("q")?.trim();
+    if (!query) {
+      return NextResponse.json({ error: "Missing query parameter q" }, { status: 400 });
+    }
+
+    const start = Math.max(parseInt(searchParams.get("start") || "0", 10) || 0, 0);
+    const max = Math.min(Math.max(parseInt(searchParams.get("max") || "20", 10) || 20, 1), 50);
+
+    const { hits, total } = searchPapers(query, { start, max });
+
+    return NextResponse.json({ query, results: hits, total, start, max });
+  } catch (error) {
+    console.error("[API /papers/search] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to search papers", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { revalidateAnalyses } from "@/lib/db";
+
+/**
+ * POST /api/papers/validate
+ *
+ * Re-validate every stored analysis against the current PaperAnalysisSchema.
+ * Non-conforming analyses get `validation_issues` set and are listed in the
+ * response.
+ */
+export async function POST() {
+  try {
+    const report = revalidateAnalyses();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[API /papers/validate] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to validate papers", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { listPrompts } from "@/lib/prompts";
+
+/**
+ * GET /api/prompts
+ *
+ * List every version of every system prompt in the registry (without the
+ * text), flagging the default version of each
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ prompts: listPrompts() });
+  } catch (error) {
+    console.error("[API /prompts] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch prompts", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
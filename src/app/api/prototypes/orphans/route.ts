@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { deleteOrphanedPrototypes, getOrphanedPrototypes } from "@/lib/db";
+
+// GET - List prototypes whose paper has been deleted
+export async function GET() {
+  const prototypes = getOrphanedPrototypes().map(({ id, title, paper_hash, updated_at }) => ({
+    id,
+    title,
+    paper_hash,
+    updated_at,
+  }));
+  return NextResponse.json({ prototypes });
+}
+
+// DELETE - Remove every orphaned prototype (and its revisions)
+export async function DELETE() {
+  try {
+    const deleted = deleteOrphanedPrototypes();
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error("Orphan cleanup error:", error);
+    return NextResponse.json({ error: "Failed to clean up prototypes" }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrototype, getPrototypeRevision, getPrototypeRevisions, restorePrototypeRevision } from "@/lib/db";
+import { diffLines, diffStats, formatUnifiedDiff } from "@/lib/diff";
+
+/**
+ * GET /api/prototypes/revisions
+ *
+ * Query params:
+ * - id: Prototype ID (required)
+ * - seq: Return a single revision including its code
+ * - from, to: Return a unified diff between two revisions
+ *             (`to` defaults to the latest revision)
+ *
+ * With only `id`, lists revisions newest first (without code).
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "ID is required" }, { status: 400 });
+  }
+
+  const revisions = getPrototypeRevisions(id);
+
+  const seqParam = searchParams.get("seq");
+  if (seqParam) {
+    const revision = getPrototypeRevision(id, parseInt(seqParam, 10));
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    return NextResponse.json(revision);
+  }
+
+  const fromParam = searchParams.get("from");
+  if (fromParam) {
+    const from = getPrototypeRevision(id, parseInt(fromParam, 10));
+    const toParam = searchParams.get("to");
+    const to = toParam ? getPrototypeRevision(id, parseInt(toParam, 10)) : revisions[0];
+    if (!from || !to) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      from: from.seq,
+      to: to.seq,
+      stats: diffStats(diffLines(from.code, to.code)),
+      diff: formatUnifiedDiff(from.code, to.code, {
+        fromLabel: `revision ${from.seq}`,
+        toLabel: `revision ${to.seq}`,
+      }),
+    });
+  }
+
+  return NextResponse.json({
+    revisions: revisions.map(({ code, ...rest }) => ({ ...rest, lines: code.split("\n").length })),
+  });
+}
+
+/**
+ * POST /api/prototypes/revisions
+ *
+ * Restore a revision: body { id, seq }. The restored code becomes the
+ * prototype's current code and is recorded as a new "restore" revision.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { id, seq } = await req.json();
+
+    if (!id || typeof seq !== "number") {
+      return NextResponse.json({ error: "ID and seq are required" }, { status: 400 });
+    }
+    if (!getPrototype(id)) {
+      return NextResponse.json({ error: "Prototype not found" }, { status: 404 });
+    }
+
+    const revision = restorePrototypeRevision(id, seq);
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, revision });
+  } catch (error) {
+    console.error("Restore revision error:", error);
+    return NextResponse.json({ error: "Failed to restore revision" }, { status: 500 });
+  }
+}
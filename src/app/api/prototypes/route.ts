@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getPrototype, savePrototype, updatePrototypeCode, updatePrototypeHistory, getAllPrototypes, deletePrototype } from "@/lib/db";
+import { getPrototype, savePrototype, updatePrototypeCode, updatePrototypeHistory, getAllPrototypes, deletePrototype, RevisionInfo } from "@/lib/db";
+import { parsePromptVersions } from "@/lib/prompts";
+
+// Revision origins a client may report for a code change
+const CLIENT_REVISION_ORIGINS = ["agent", "auto_fix", "manual"];
+
+function parseRevision(revision: unknown): RevisionInfo | undefined {
+  if (!revision || typeof revision !== "object") return undefined;
+  const { origin, message } = revision as { origin?: unknown; message?: unknown };
+  if (typeof origin !== "string" || !CLIENT_REVISION_ORIGINS.includes(origin)) return undefined;
+  return {
+    origin: origin as RevisionInfo["origin"],
+    message: typeof message === "string" ? message : undefined,
+  };
+}
 
 // GET - Retrieve a prototype by ID or list all
 export async function GET(req: NextRequest) {
@@ -20,10 +34,13 @@ export async function GET(req: NextRequest) {
 }
 
 // POST - Create or update a prototype
+// Optional `revision: { origin, message }` describes what changed the code,
+// `prompt_versions` the agent prompt that wrote it (kept when omitted)
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { id, paper_hash, title, description, code, algorithm_info, history } = body;
+    const { id, paper_hash, title, description, code, algorithm_info, history, revision } = body;
+    const promptVersions = parsePromptVersions(body.prompt_versions);
 
     if (!id) {
       return NextResponse.json({ error: "ID is required" }, { status: 400 });
@@ -35,8 +52,9 @@ export async function POST(req: NextRequest) {
       description,
       code: code || "",
       algorithm_info,
-      history: history || [],
-    });
+      ...(Object.keys(promptVersions).length > 0 && { prompt_versions: promptVersions }),
+      history,
+    }, parseRevision(revision));
 
     return NextResponse.json({ success: true, id });
   } catch (error) {
@@ -49,7 +67,7 @@ export async function POST(req: NextRequest) {
 export async function PATCH(req: NextRequest) {
   try {
     const body = await req.json();
-    const { id, code, algorithm_info, history } = body;
+    const { id, code, algorithm_info, history, revision } = body;
 
     if (!id) {
       return NextResponse.json({ error: "ID is required" }, { status: 400 });
@@ -61,7 +79,7 @@ export async function PATCH(req: NextRequest) {
     }
 
     if (code !== undefined) {
-      updatePrototypeCode(id, code, algorithm_info);
+      updatePrototypeCode(id, code, algorithm_info, parseRevision(revision));
     }
     
     if (history !== undefined) {
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { listTags } from "@/lib/db";
+
+/**
+ * GET /api/tags
+ *
+ * List every tag in use with how many papers carry it (most used first)
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ tags: listTags() });
+  } catch (error) {
+    console.error("[API /tags] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tags", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
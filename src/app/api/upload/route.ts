@@ -2,6 +2,7 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
 import { getAnalysis } from "@/lib/db";
+import { savePdf } from "@/lib/pdfs";
 import { extractText } from "unpdf";
 
 export async function POST(req: NextRequest) {
@@ -32,7 +33,10 @@ export async function POST(req: NextRequest) {
          });
     }
 
-    // 3. Extract text from PDF using unpdf (serverless compatible)
+    // 3. Keep the original so it can be exported with the library
+    savePdf(hashHex, new Uint8Array(buffer));
+
+    // 4. Extract text from PDF using unpdf (serverless compatible)
     console.log("Extracting PDF text...");
     const result = await extractText(new Uint8Array(buffer));
     // unpdf returns text as array of strings (one per page), join them
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listUsage, summarizeUsage } from "@/lib/db";
+
+/**
+ * GET /api/usage
+ *
+ * Token, latency and cost totals for model calls, broken down by task and
+ * model, plus the most recent calls.
+ *
+ * Query params:
+ * - paper: Only calls made for this paper hash (analysis and prototypes)
+ * - prototype: Only calls made for this prototype id
+ * - since: Only calls at or after this timestamp (ms)
+ * - limit: Number of recent calls to return (default 20)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const since = Number(searchParams.get("since")) || undefined;
+    const limit = Math.max(0, Number(searchParams.get("limit") ?? 20) || 0);
+
+    const records = listUsage({
+      paperHash: searchParams.get("paper") || undefined,
+      prototypeId: searchParams.get("prototype") || undefined,
+      since,
+    });
+
+    return NextResponse.json({
+      summary: summarizeUsage(records),
+      recent: records.slice(0, limit),
+    });
+  } catch (error) {
+    console.error("[API /usage] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch usage", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
@@ -12,7 +12,11 @@ import Link from "next/link";
 import SearchBar from "@/components/SearchBar";
 import CategoryFilter from "@/components/CategoryFilter";
 import PaperCard from "@/components/PaperCard";
+import AnalyzingOverlay, { applyAnalysisEvent, startProgress, type AnalysisProgress } from "@/components/AnalyzingOverlay";
 import { ArxivPaper, ArxivSearchResult } from "@/lib/arxiv";
+import type { AnalysisStreamEvent } from "@/lib/analysis";
+import type { QuickScoreEntry } from "@/lib/db";
+import { readNdjson } from "@/lib/ndjson";
 
 // Quick filter options
 type QuickFilter = "latest" | "trending" | "ai" | "physics" | "math";
@@ -25,6 +29,17 @@ const QUICK_FILTERS: { id: QuickFilter; label: string; icon: React.ReactNode; ca
   { id: "math", label: "Optimization", icon: <Compass className="w-4 h-4" />, category: "math.OC" },
 ];
 
+// Triage by quick scores (predicted from the abstract, see /api/arxiv/scores)
+type SortOrder = "newest" | "breakthrough" | "prototypability";
+
+const SORT_OPTIONS: { id: SortOrder; label: string }[] = [
+  { id: "newest", label: "Newest" },
+  { id: "breakthrough", label: "Breakthrough" },
+  { id: "prototypability", label: "Prototypability" },
+];
+
+const MIN_SCORE_OPTIONS = [0, 30, 50, 70];
+
 export default function DiscoverPage() {
   const router = useRouter();
   
@@ -37,6 +52,37 @@ export default function DiscoverPage() {
   const [quickFilter, setQuickFilter] = useState<QuickFilter>("trending");
   const [totalResults, setTotalResults] = useState(0);
   const [analyzingPaperId, setAnalyzingPaperId] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [scores, setScores] = useState<Record<string, QuickScoreEntry>>({});
+  const [isScoring, setIsScoring] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
+  const [minBreakthrough, setMinBreakthrough] = useState(0);
+  const [minPrototypability, setMinPrototypability] = useState(0);
+
+  // Quick-score a page of results; the cards show up unscored until this returns
+  const scorePapers = useCallback(async (results: ArxivPaper[]) => {
+    if (results.length === 0) return;
+    setIsScoring(true);
+    try {
+      const response = await fetch("/api/arxiv/scores", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          papers: results.map(({ id, title, summary }) => ({ id, title, summary })),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to score papers");
+      }
+      const data: { scores: Record<string, QuickScoreEntry> } = await response.json();
+      setScores(prev => ({ ...prev, ...data.scores }));
+    } catch (err) {
+      // Scores are optional; the feed stays usable without them
+      console.error("Error scoring papers:", err);
+    } finally {
+      setIsScoring(false);
+    }
+  }, []);
 
   // Fetch papers
   const fetchPapers = useCallback(async (query?: string, category?: string | null) => {
@@ -60,13 +106,14 @@ export default function DiscoverPage() {
       const data: ArxivSearchResult = await response.json();
       setPapers(data.papers);
       setTotalResults(data.totalResults);
+      scorePapers(data.papers);
     } catch (err) {
       console.error("Error fetching papers:", err);
       setError("Failed to load papers. Please try again.");
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [scorePapers]);
 
   // Initial load
   useEffect(() => {
@@ -116,9 +163,12 @@ export default function DiscoverPage() {
     }
     
     setAnalyzingPaperId(paper.id);
+    setAnalysisProgress(startProgress("extracting", "Fetching paper from arXiv"));
+    // Remaining problems if the model output never validated
+    let issues: string[] = [];
 
     try {
-      // Fetch and analyze paper in single call
+      // Fetch and analyze paper in single call, following its progress stream
       const response = await fetch(`/api/arxiv/${encodeURIComponent(paper.id)}?analyze=true`);
       
       if (!response.ok) {
@@ -126,26 +176,53 @@ export default function DiscoverPage() {
         throw new Error(error.details || "Failed to analyze paper");
       }
 
-      const data = await response.json();
-      
-      if (!data.analysis) {
-        throw new Error("No analysis returned");
+      let failure: string | null = null;
+      let hash: string | null = null;
+      await readNdjson<AnalysisStreamEvent>(response, event => {
+        if (event.type === "error") {
+          failure = event.message;
+          issues = event.issues ?? [];
+        }
+        else if (event.type === "done") return;
+        else {
+          if (event.type === "result") hash = event.hash ?? null;
+          setAnalysisProgress(prev => applyAnalysisEvent(prev, event));
+        }
+      });
+
+      if (failure || !hash) {
+        throw new Error(failure || "No analysis returned");
       }
 
-      // Create a hash from the arXiv ID
-      const hash = `arxiv-${paper.id.replace(/[^a-zA-Z0-9]/g, "-")}`;
-
       // Navigate to the paper page to see analysis and choose simulation
       router.push(`/papers/${hash}`);
       
     } catch (err) {
       console.error("Error analyzing paper:", err);
-      alert("Failed to analyze paper. Please try again.");
+      alert(issues.length > 0
+        ? `The analysis didn't match the expected format:\n${issues.map(issue => `• ${issue}`).join("\n")}`
+        : "Failed to analyze paper. Please try again.");
     } finally {
       setAnalyzingPaperId(null);
+      setAnalysisProgress(null);
     }
   }, [router, analyzingPaperId]);
 
+  // Papers after score filters and sort order. Filtering and score sorts
+  // leave out / push back papers that haven't been scored yet.
+  const visiblePapers = useMemo(() => {
+    const isFiltered = minBreakthrough > 0 || minPrototypability > 0;
+    const filtered = !isFiltered ? papers : papers.filter(paper => {
+      const score = scores[paper.id];
+      return score !== undefined &&
+        score.breakthrough_score >= minBreakthrough &&
+        score.prototypability >= minPrototypability;
+    });
+    if (sortOrder === "newest") return filtered;
+    const key = sortOrder === "breakthrough" ? "breakthrough_score" : "prototypability";
+    return [...filtered].sort((a, b) => (scores[b.id]?.[key] ?? -1) - (scores[a.id]?.[key] ?? -1));
+  }, [papers, scores, sortOrder, minBreakthrough, minPrototypability]);
+
   // Refresh
   const handleRefresh = useCallback(() => {
     fetchPapers(searchQuery || undefined, selectedCategory);
@@ -261,11 +338,58 @@ export default function DiscoverPage() {
             )}
           </div>
           
-          {selectedCategory && (
-            <span className="px-3 py-1 rounded-lg bg-blue-500/10 text-blue-400 text-sm font-mono">
-              {selectedCategory}
-            </span>
-          )}
+          <div className="flex flex-wrap items-center gap-3">
+            {isScoring && (
+              <span className="flex items-center gap-1.5 text-xs text-gray-500">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Scoring...
+              </span>
+            )}
+
+            {/* Triage: sort & minimum scores */}
+            <label className="flex items-center gap-2 text-sm text-gray-500">
+              Sort
+              <select
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-gray-300 text-sm focus:outline-none focus:border-blue-500/50"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id} className="bg-gray-900">{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-500">
+              Breakthrough
+              <select
+                value={minBreakthrough}
+                onChange={(e) => setMinBreakthrough(Number(e.target.value))}
+                className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-gray-300 text-sm focus:outline-none focus:border-blue-500/50"
+              >
+                {MIN_SCORE_OPTIONS.map(min => (
+                  <option key={min} value={min} className="bg-gray-900">{min ? `${min}+` : "Any"}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-500">
+              Prototypability
+              <select
+                value={minPrototypability}
+                onChange={(e) => setMinPrototypability(Number(e.target.value))}
+                className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-gray-300 text-sm focus:outline-none focus:border-blue-500/50"
+              >
+                {MIN_SCORE_OPTIONS.map(min => (
+                  <option key={min} value={min} className="bg-gray-900">{min ? `${min}+` : "Any"}</option>
+                ))}
+              </select>
+            </label>
+
+            {selectedCategory && (
+              <span className="px-3 py-1 rounded-lg bg-blue-500/10 text-blue-400 text-sm font-mono">
+                {selectedCategory}
+              </span>
+            )}
+          </div>
         </div>
 
         {/* Content */}
@@ -312,7 +436,7 @@ export default function DiscoverPage() {
           )}
 
           {/* Empty State */}
-          {!isLoading && !error && papers.length === 0 && (
+          {!isLoading && !error && visiblePapers.length === 0 && (
             <motion.div
               key="empty"
               initial={{ opacity: 0, y: 20 }}
@@ -324,12 +448,16 @@ export default function DiscoverPage() {
                 <Compass className="w-12 h-12 text-gray-400" />
               </div>
               <p className="text-gray-400 text-lg">No papers found</p>
-              <p className="text-gray-500 text-sm mt-2">Try a different search or category</p>
+              <p className="text-gray-500 text-sm mt-2">
+                {papers.length > 0
+                  ? isScoring ? "Waiting for scores..." : "No papers meet the minimum scores"
+                  : "Try a different search or category"}
+              </p>
             </motion.div>
           )}
 
           {/* Papers Grid */}
-          {!isLoading && !error && papers.length > 0 && (
+          {!isLoading && !error && visiblePapers.length > 0 && (
             <motion.div
               key="papers"
               initial={{ opacity: 0 }}
@@ -337,7 +465,7 @@ export default function DiscoverPage() {
               exit={{ opacity: 0 }}
               className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
             >
-              {papers.map((paper, index) => (
+              {visiblePapers.map((paper, index) => (
                 <motion.div
                   key={paper.id}
                   initial={{ opacity: 0, y: 20 }}
@@ -349,6 +477,8 @@ export default function DiscoverPage() {
                     onAnalyze={handleAnalyzePaper}
                     isAnalyzing={analyzingPaperId === paper.id}
                     disabled={analyzingPaperId !== null && analyzingPaperId !== paper.id}
+                    breakthroughScore={scores[paper.id]?.breakthrough_score}
+                    prototypability={scores[paper.id]?.prototypability}
                     variant={index === 0 ? "featured" : "default"}
                   />
                 </motion.div>
@@ -381,6 +511,15 @@ export default function DiscoverPage() {
           </div>
         </div>
       </footer>
+
+      {/* Analysis Progress */}
+      {analyzingPaperId && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40">
+          <div className="relative w-full max-w-xl h-[26rem]">
+            <AnalyzingOverlay isAnalyzing progress={analysisProgress} />
+          </div>
+        </div>
+      )}
     </main>
   );
 }
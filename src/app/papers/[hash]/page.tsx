@@ -2,16 +2,27 @@
 
 import { useState, useEffect, use } from "react";
 import { useRouter } from "next/navigation";
-import { Atom, ArrowLeft, FileText, Loader2 } from "lucide-react";
+import { Atom, ArrowLeft, FileText, Loader2, AlertTriangle, RefreshCw } from "lucide-react";
 import Link from "next/link";
 import AnalysisPanel from "@/components/AnalysisPanel";
-import { PaperAnalysis } from "@/lib/gemini";
+import AnalysisHistory from "@/components/AnalysisHistory";
+import AnalyzingOverlay, { applyAnalysisEvent, startProgress, type AnalysisProgress } from "@/components/AnalyzingOverlay";
+import PaperLabels from "@/components/PaperLabels";
+import UsagePanel from "@/components/UsagePanel";
+import type { AnalysisStreamEvent, PaperAnalysis } from "@/lib/analysis";
+import { readNdjson } from "@/lib/ndjson";
+import type { PromptInfo } from "@/lib/prompts";
 
 interface Paper {
   hash: string;
   filename: string;
-  raw_text: string;
-  analysis_json: string;
+  analysis: PaperAnalysis;
+  validation_issues?: string[];
+  // Model and prompt versions that produced the current analysis
+  model?: string;
+  prompt_versions?: Record<string, string>;
+  tags: string[];
+  collection_ids: string[];
   created_at: number;
 }
 
@@ -25,22 +36,30 @@ export default function PaperPage({ params }: { params: Promise<{ hash: string }
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Re-analysis
+  const [showReanalyze, setShowReanalyze] = useState(false);
+  const [reanalyzeModel, setReanalyzeModel] = useState("");
+  // Analysis prompt version ("" = default), for A/B comparisons
+  const [reanalyzePrompt, setReanalyzePrompt] = useState("");
+  const [promptVersions, setPromptVersions] = useState<PromptInfo[]>([]);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
   // Load paper on mount
   useEffect(() => {
     async function loadPaper() {
       try {
-        const res = await fetch("/api/papers");
-        const data = await res.json();
-        
-        if (data.papers) {
-          const found = data.papers.find((p: Paper) => p.hash === paperHash);
-          if (found) {
-            setPaper(found);
-            setAnalysis(JSON.parse(found.analysis_json));
-          } else {
-            setError("Paper not found");
-          }
+        const res = await fetch(`/api/papers/${encodeURIComponent(paperHash)}`);
+        if (res.status === 404) {
+          setError("Paper not found");
+          return;
         }
+        if (!res.ok) throw new Error(`Request failed: ${res.status}`);
+
+        const found: Paper = await res.json();
+        setPaper(found);
+        setAnalysis(found.analysis);
       } catch (e) {
         console.error("Failed to load paper:", e);
         setError("Failed to load paper");
@@ -51,6 +70,80 @@ export default function PaperPage({ params }: { params: Promise<{ hash: string }
     loadPaper();
   }, [paperHash]);
 
+  useEffect(() => {
+    if (!showReanalyze) return;
+    fetch("/api/prompts")
+      .then(res => res.json())
+      .then(data => setPromptVersions((data.prompts ?? []).filter((p: PromptInfo) => p.id === "analysis")))
+      .catch(e => console.error("Failed to load prompt versions", e));
+  }, [showReanalyze]);
+
+  // Analyze the stored text again; the previous result stays in the history
+  const handleReanalyze = async () => {
+    setIsReanalyzing(true);
+    setProgress(startProgress("analyzing", "Reading the paper"));
+    // Remaining problems if the model output never validated
+    let issues: string[] = [];
+
+    try {
+      const res = await fetch("/api/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          hash: paperHash,
+          model: reanalyzeModel.trim() || undefined,
+          promptVersions: reanalyzePrompt ? { analysis: reanalyzePrompt } : undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Re-analysis failed");
+      }
+
+      let failure: string | null = null;
+      // (cast so the assignment inside the callback isn't narrowed away)
+      let updated = null as PaperAnalysis | null;
+      let producedBy: Pick<Paper, "model" | "prompt_versions"> = {};
+      await readNdjson<AnalysisStreamEvent>(res, event => {
+        if (event.type === "error") {
+          failure = event.message;
+          issues = event.issues ?? [];
+        }
+        else if (event.type === "done") return;
+        else {
+          if (event.type === "result") {
+            updated = event.analysis;
+            producedBy = {
+              model: event.model as string | undefined,
+              prompt_versions: event.prompt_versions as Record<string, string> | undefined,
+            };
+          }
+          setProgress(prev => applyAnalysisEvent(prev, event));
+        }
+      });
+      if (failure || !updated) throw new Error(failure || "Re-analysis failed");
+
+      const reanalyzed = updated;
+      setAnalysis(reanalyzed);
+      setPaper(prev => prev && {
+        ...prev,
+        analysis: reanalyzed,
+        validation_issues: undefined,
+        ...producedBy,
+      });
+      setHistoryVersion(v => v + 1);
+      setShowReanalyze(false);
+    } catch (e) {
+      console.error("Re-analysis failed:", e);
+      alert(issues.length > 0
+        ? `The analysis didn't match the expected format:\n${issues.map(issue => `• ${issue}`).join("\n")}`
+        : "Re-analysis failed. The previous analysis was kept.");
+    } finally {
+      setIsReanalyzing(false);
+      setProgress(null);
+    }
+  };
+
   const handleSimulate = (sim: { title: string; description: string }, index: number) => {
     // Use paper hash + simulation index for consistent ID (no timestamp)
     // This ensures the same simulation always gets the same prototype ID
@@ -96,11 +189,14 @@ export default function PaperPage({ params }: { params: Promise<{ hash: string }
               </Link>
             </div>
 
-            <div className="flex items-center gap-2">
-              <FileText className="w-5 h-5 text-emerald-400" />
-              <h1 className="text-lg font-semibold text-white truncate max-w-xs">
-                {analysis?.title || "Loading..."}
-              </h1>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <FileText className="w-5 h-5 text-emerald-400" />
+                <h1 className="text-lg font-semibold text-white truncate max-w-xs">
+                  {analysis?.title || "Loading..."}
+                </h1>
+              </div>
+              {paper && <UsagePanel paperHash={paper.hash} />}
             </div>
           </div>
         </div>
@@ -128,14 +224,111 @@ export default function PaperPage({ params }: { params: Promise<{ hash: string }
           </div>
         )}
 
+        {!isLoading && !error && paper?.validation_issues && paper.validation_issues.length > 0 && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30 text-sm">
+            <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" />
+            <div className="space-y-1">
+              <p className="text-amber-300 font-medium">
+                This analysis was created with an older format and may be incomplete.
+              </p>
+              <ul className="text-xs text-amber-200/70 font-mono space-y-0.5">
+                {paper.validation_issues.slice(0, 5).map((issue, i) => (
+                  <li key={i}>{issue}</li>
+                ))}
+                {paper.validation_issues.length > 5 && (
+                  <li>+{paper.validation_issues.length - 5} more</li>
+                )}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && !error && paper && (
+          <div className="mb-6">
+            <PaperLabels
+              hash={paper.hash}
+              initialTags={paper.tags}
+              initialCollectionIds={paper.collection_ids}
+            />
+          </div>
+        )}
+
+        {!isLoading && !error && paper && (
+          <AnalysisHistory hash={paper.hash} refreshKey={historyVersion} />
+        )}
+
         {!isLoading && !error && analysis && (
           <AnalysisPanel 
             analysis={analysis} 
             onSimulate={handleSimulate} 
+            onReanalyze={() => setShowReanalyze(true)}
             onBack={() => router.push("/papers")} 
           />
         )}
       </div>
+
+      {/* Re-analysis */}
+      {showReanalyze && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40">
+          {isReanalyzing ? (
+            <div className="relative w-full max-w-xl h-[26rem]">
+              <AnalyzingOverlay isAnalyzing progress={progress} />
+            </div>
+          ) : (
+            <div className="w-full max-w-md p-6 rounded-2xl bg-gray-900 border border-white/10 shadow-2xl space-y-4">
+              <div className="flex items-center gap-2">
+                <RefreshCw className="w-5 h-5 text-blue-400" />
+                <h2 className="text-lg font-semibold text-white">Re-analyze paper</h2>
+              </div>
+              <p className="text-sm text-gray-400">
+                The current analysis is kept in the paper&apos;s history, so you can compare the two afterwards.
+              </p>
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-500">Model (leave empty for the configured default)</span>
+                <input
+                  value={reanalyzeModel}
+                  onChange={e => setReanalyzeModel(e.target.value)}
+                  placeholder={paper?.model ?? "Default model"}
+                  className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-blue-500/50"
+                />
+              </label>
+              {promptVersions.length > 1 && (
+                <label className="block space-y-1">
+                  <span className="text-xs text-gray-500">
+                    Prompt version{paper?.prompt_versions?.analysis && ` (current analysis: ${paper.prompt_versions.analysis})`}
+                  </span>
+                  <select
+                    value={reanalyzePrompt}
+                    onChange={e => setReanalyzePrompt(e.target.value)}
+                    className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500/50"
+                  >
+                    <option value="">Default</option>
+                    {promptVersions.map(p => (
+                      <option key={p.version} value={p.version}>
+                        {p.version}{p.isDefault ? " (default)" : ""}{p.description ? ` · ${p.description}` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setShowReanalyze(false)}
+                  className="px-4 py-2 rounded-xl text-sm text-gray-400 hover:bg-white/5 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleReanalyze}
+                  className="px-4 py-2 rounded-xl text-sm bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                >
+                  Re-analyze
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
     </main>
   );
 }
@@ -1,49 +1,303 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
 import UploadZone from "@/components/UploadZone";
-import AnalyzingOverlay from "@/components/AnalyzingOverlay";
-import { Atom, ArrowRight, ArrowLeft, FileText, Calendar, Loader2 } from "lucide-react";
+import AnalyzingOverlay, { applyAnalysisEvent, startProgress, type AnalysisProgress } from "@/components/AnalyzingOverlay";
+import SearchBar from "@/components/SearchBar";
+import { Atom, ArrowRight, ArrowLeft, FileText, Calendar, Loader2, TrendingUp, ArrowUpDown, Trash2, Download, Upload, Folder, Tag, Plus, X, Search, Unlink } from "lucide-react";
 import Link from "next/link";
+import clsx from "clsx";
+import { readNdjson } from "@/lib/ndjson";
+import type { AnalysisStreamEvent } from "@/lib/analysis";
 
-interface Paper {
+interface PaperSummary {
   hash: string;
   filename: string;
-  raw_text?: string;
-  analysis_json: string;
+  title: string;
+  summary: string;
+  field: string;
+  breakthrough_score: number | null;
   created_at: number;
+  has_issues: boolean;
+  tags: string[];
+  collection_ids: string[];
 }
 
-interface PaperAnalysis {
+interface CollectionSummary {
+  id: string;
+  name: string;
+  paper_count: number;
+}
+
+interface TagSummary {
+  tag: string;
+  count: number;
+}
+
+interface SearchSnippet {
+  field: "title" | "claims" | "equations" | "text";
+  text: string;
+  highlights: [number, number][];
+}
+
+interface SearchResult {
+  hash: string;
   title: string;
-  summary: string;
+  filename: string;
+  created_at: number;
+  snippets: SearchSnippet[];
+}
+
+const SNIPPET_LABELS: Record<SearchSnippet["field"], string> = {
+  title: "Title",
+  claims: "Key claim",
+  equations: "Equation",
+  text: "Paper text",
+};
+
+// Prototype whose paper is no longer in the library
+interface OrphanPrototype {
+  id: string;
+  title: string;
+  paper_hash: string | null;
+  updated_at: number;
 }
 
+interface LibraryFilter {
+  collection: string | null;
+  tags: string[];
+}
+
+type SortOption = "created_at" | "breakthrough_score" | "title";
+
+const SORT_OPTIONS: { id: SortOption; label: string }[] = [
+  { id: "created_at", label: "Newest" },
+  { id: "breakthrough_score", label: "Breakthrough score" },
+  { id: "title", label: "Title" },
+];
+
+const PAGE_SIZE = 24;
+
 export default function PapersPage() {
   const router = useRouter();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [papers, setPapers] = useState<Paper[]>([]);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [papers, setPapers] = useState<PaperSummary[]>([]);
+  const [totalPapers, setTotalPapers] = useState(0);
+  const [sort, setSort] = useState<SortOption>("created_at");
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [deletingHash, setDeletingHash] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [filter, setFilter] = useState<LibraryFilter>({ collection: null, tags: [] });
+  const [orphans, setOrphans] = useState<OrphanPrototype[]>([]);
+  const [isDeletingOrphans, setIsDeletingOrphans] = useState(false);
 
-  useEffect(() => {
-    fetchPapers();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const isFiltered = filter.collection !== null || filter.tags.length > 0;
+
+  const fetchLabels = useCallback(async () => {
+    try {
+      const [collectionsRes, tagsRes] = await Promise.all([
+        fetch("/api/collections"),
+        fetch("/api/tags"),
+      ]);
+      const collectionsData = await collectionsRes.json();
+      const tagsData = await tagsRes.json();
+      setCollections(collectionsData.collections || []);
+      setTags(tagsData.tags || []);
+    } catch (e) {
+      console.error("Failed to fetch collections and tags", e);
+    }
   }, []);
 
-  const fetchPapers = async () => {
+  const fetchPapers = useCallback(async (sortBy: SortOption, libraryFilter: LibraryFilter, start: number = 0) => {
     try {
-      const res = await fetch("/api/papers");
+      const params = new URLSearchParams({
+        sort: sortBy,
+        start: String(start),
+        max: String(PAGE_SIZE),
+      });
+      if (libraryFilter.collection) params.set("collection", libraryFilter.collection);
+      if (libraryFilter.tags.length > 0) params.set("tags", libraryFilter.tags.join(","));
+      const res = await fetch(`/api/papers?${params.toString()}`);
       const data = await res.json();
-      if (data.papers) setPapers(data.papers);
+      if (data.papers) {
+        setPapers(prev => (start === 0 ? data.papers : [...prev, ...data.papers]));
+        setTotalPapers(data.total);
+      }
     } catch (e) {
       console.error("Failed to fetch papers", e);
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPapers(sort, filter);
+  }, [fetchPapers, sort, filter]);
+
+  const fetchOrphans = useCallback(async () => {
+    try {
+      const res = await fetch("/api/prototypes/orphans");
+      const data = await res.json();
+      setOrphans(data.prototypes || []);
+    } catch (e) {
+      console.error("Failed to fetch orphaned prototypes", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLabels();
+  }, [fetchLabels]);
+
+  useEffect(() => {
+    fetchOrphans();
+  }, [fetchOrphans]);
+
+  const handleSearch = useCallback(async (query: string) => {
+    setSearchQuery(query);
+    if (!query) {
+      setSearchResults([]);
+      setSearchTotal(0);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const res = await fetch(`/api/papers/search?q=${encodeURIComponent(query)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Search failed");
+      setSearchResults(data.results);
+      setSearchTotal(data.total);
+    } catch (e) {
+      console.error("Failed to search papers", e);
+      setSearchResults([]);
+      setSearchTotal(0);
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  const toggleTagFilter = (tag: string) => {
+    setFilter(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag],
+    }));
+  };
+
+  const handleNewCollection = async () => {
+    const name = prompt("Collection name");
+    if (!name?.trim()) return;
+
+    try {
+      const res = await fetch("/api/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) throw new Error("Create failed");
+      fetchLabels();
+    } catch (e) {
+      console.error("Failed to create collection", e);
+      alert("Failed to create collection.");
     }
   };
 
+  const handleDeleteCollection = async (collection: CollectionSummary) => {
+    if (!confirm(`Delete the collection "${collection.name}"? Its papers are kept.`)) return;
+
+    try {
+      const res = await fetch(`/api/collections/${encodeURIComponent(collection.id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setFilter(prev => (prev.collection === collection.id ? { ...prev, collection: null } : prev));
+      fetchLabels();
+    } catch (e) {
+      console.error("Failed to delete collection", e);
+      alert("Failed to delete collection.");
+    }
+  };
+
+  const handleDelete = async (paper: PaperSummary) => {
+    if (!confirm(`Delete "${paper.title}" and every prototype built from it?`)) return;
+
+    setDeletingHash(paper.hash);
+    try {
+      const res = await fetch(`/api/papers/${encodeURIComponent(paper.hash)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setPapers(prev => prev.filter(p => p.hash !== paper.hash));
+      setTotalPapers(prev => prev - 1);
+      fetchLabels();
+    } catch (e) {
+      console.error("Failed to delete paper", e);
+      alert("Failed to delete paper.");
+    } finally {
+      setDeletingHash(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const res = await fetch("/api/library/import", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Import failed");
+
+      alert(
+        `Imported ${data.analyses.added + data.analyses.updated} papers and ` +
+        `${data.prototypes.added + data.prototypes.updated} prototypes` +
+        ` (${data.analyses.skipped + data.prototypes.skipped} skipped).`
+      );
+      fetchPapers(sort, filter);
+      fetchLabels();
+      fetchOrphans();
+    } catch (e) {
+      console.error("Failed to import library", e);
+      alert("Failed to import library.");
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) importInputRef.current.value = "";
+    }
+  };
+
+  const handleDeleteOrphans = async () => {
+    if (!confirm(`Delete ${orphans.length} prototype${orphans.length === 1 ? "" : "s"} whose paper is gone?`)) return;
+
+    setIsDeletingOrphans(true);
+    try {
+      const res = await fetch("/api/prototypes/orphans", { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setOrphans([]);
+    } catch (e) {
+      console.error("Failed to delete orphaned prototypes", e);
+      alert("Failed to delete orphaned prototypes.");
+    } finally {
+      setIsDeletingOrphans(false);
+    }
+  };
+
+  const handleLoadMore = () => {
+    setIsLoadingMore(true);
+    fetchPapers(sort, filter, papers.length);
+  };
+
   const handleUpload = async (file: File) => {
     setIsAnalyzing(true);
+    setProgress(startProgress("uploading", "Uploading and extracting text"));
+    // Remaining problems if the model output never validated
+    let issues: string[] = [];
 
     try {
       // Step 1: Upload PDF and extract text
@@ -81,13 +335,32 @@ export default function PapersPage() {
         throw new Error("Analysis failed");
       }
 
+      // Follow the progress stream until the result arrives
+      let failure: string | null = null;
+      let analyzed = false;
+      await readNdjson<AnalysisStreamEvent>(analyzeRes, event => {
+        if (event.type === "error") {
+          failure = event.message;
+          issues = event.issues ?? [];
+        }
+        else if (event.type === "done") return;
+        else {
+          if (event.type === "result") analyzed = true;
+          setProgress(prev => applyAnalysisEvent(prev, event));
+        }
+      });
+      if (failure || !analyzed) throw new Error(failure || "Analysis failed");
+
       // Redirect to the paper page
       router.push(`/papers/${hash}`);
 
     } catch (error) {
       console.error("Pipeline failed:", error);
-      alert("Something went wrong processing the paper.");
+      alert(issues.length > 0
+        ? `The analysis didn't match the expected format:\n${issues.map(issue => `• ${issue}`).join("\n")}`
+        : "Something went wrong processing the paper.");
       setIsAnalyzing(false);
+      setProgress(null);
     }
   };
 
@@ -121,9 +394,43 @@ export default function PapersPage() {
               </Link>
             </div>
 
-            <div className="flex items-center gap-2">
-              <FileText className="w-5 h-5 text-emerald-400" />
-              <h1 className="text-lg font-semibold text-white">Your Papers</h1>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-1">
+                <a
+                  href="/api/library/export?pdfs=true"
+                  className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                  title="Export library"
+                >
+                  <Download className="w-4 h-4" />
+                </a>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+                  title="Import library"
+                >
+                  {isImporting
+                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : <Upload className="w-4 h-4" />}
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".zip,application/zip"
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImport(file);
+                  }}
+                />
+              </div>
+
+              <div className="h-6 w-px bg-white/10" />
+
+              <div className="flex items-center gap-2">
+                <FileText className="w-5 h-5 text-emerald-400" />
+                <h1 className="text-lg font-semibold text-white">Your Papers</h1>
+              </div>
             </div>
           </div>
         </div>
@@ -135,59 +442,276 @@ export default function PapersPage() {
           {/* Upload Zone */}
           <div className="relative max-w-2xl mx-auto">
             <UploadZone onUpload={handleUpload} isAnalyzing={isAnalyzing} />
-            <AnalyzingOverlay isAnalyzing={isAnalyzing} />
+            <AnalyzingOverlay isAnalyzing={isAnalyzing} progress={progress} />
           </div>
           
+          {/* Orphaned Prototypes */}
+          {orphans.length > 0 && (
+            <div className="p-4 rounded-xl border border-amber-500/20 bg-amber-500/5 space-y-3">
+              <div className="flex items-center gap-3">
+                <Unlink className="w-4 h-4 text-amber-400 shrink-0" />
+                <p className="flex-1 text-sm text-amber-200">
+                  {orphans.length} prototype{orphans.length === 1 ? " belongs" : "s belong"} to papers no longer in your library.
+                </p>
+                <button
+                  onClick={handleDeleteOrphans}
+                  disabled={isDeletingOrphans}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-red-300 border border-red-500/30 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                >
+                  {isDeletingOrphans
+                    ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    : <Trash2 className="w-3.5 h-3.5" />}
+                  Delete all
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {orphans.map(orphan => (
+                  <Link
+                    key={orphan.id}
+                    href={`/prototype/${orphan.id}?title=${encodeURIComponent(orphan.title)}`}
+                    className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-xs text-gray-300 hover:bg-white/10 transition-colors"
+                  >
+                    {orphan.title}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Library Search */}
+          {(papers.length > 0 || isFiltered || searchQuery) && (
+            <div className="flex justify-center">
+              <SearchBar
+                onSearch={handleSearch}
+                isLoading={isSearching}
+                placeholder="Search your papers: titles, claims, equations, full text..."
+              />
+            </div>
+          )}
+
           {/* Paper Library */}
-          {isLoading ? (
+          {searchQuery ? (
+            <div className="space-y-6 animate-in fade-in duration-300">
+              <div className="flex items-center gap-4 border-b border-white/10 pb-4">
+                <Search className="w-5 h-5 text-blue-400" />
+                <h2 className="text-2xl font-semibold text-white truncate">Results for &ldquo;{searchQuery}&rdquo;</h2>
+                <span className="px-2 py-0.5 rounded-full bg-blue-500/10 text-blue-400 text-xs font-mono shrink-0">
+                  {searchTotal} Papers
+                </span>
+              </div>
+
+              {!isSearching && searchResults.length === 0 && (
+                <p className="text-center py-8 text-gray-400">No papers match this search.</p>
+              )}
+
+              <div className="space-y-3">
+                {searchResults.map(result => (
+                  <Link
+                    key={result.hash}
+                    href={`/papers/${result.hash}`}
+                    className="group flex flex-col gap-2 p-5 rounded-xl border border-white/5 bg-white/5 hover:bg-white/10 hover:border-blue-500/30 transition-all"
+                  >
+                    <h3 className="font-semibold text-lg text-gray-200 group-hover:text-white">
+                      {result.snippets[0]?.field === "title"
+                        ? <HighlightedText snippet={result.snippets[0]} />
+                        : result.title}
+                    </h3>
+                    {result.snippets.filter(s => s.field !== "title").map(snippet => (
+                      <p key={snippet.field} className="text-sm text-gray-400">
+                        <span className="mr-2 text-xs uppercase tracking-wide text-gray-500">
+                          {SNIPPET_LABELS[snippet.field]}
+                        </span>
+                        <HighlightedText snippet={snippet} />
+                      </p>
+                    ))}
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                      <Calendar className="w-3.5 h-3.5" />
+                      <span>{new Date(result.created_at).toLocaleDateString()}</span>
+                      <span>•</span>
+                      <span className="font-mono">{result.filename}</span>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ) : isLoading ? (
             <div className="flex flex-col items-center justify-center py-12">
               <Loader2 className="w-8 h-8 text-blue-400 animate-spin mb-4" />
               <p className="text-gray-400">Loading papers...</p>
             </div>
-          ) : papers.length > 0 ? (
+          ) : papers.length > 0 || isFiltered ? (
             <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
               <div className="flex items-center gap-4 border-b border-white/10 pb-4">
                 <h2 className="text-2xl font-semibold text-white">Research Library</h2>
                 <span className="px-2 py-0.5 rounded-full bg-blue-500/10 text-blue-400 text-xs font-mono">
-                  {papers.length} Papers
+                  {totalPapers} Papers
                 </span>
+                <div className="ml-auto flex items-center gap-2 text-sm text-gray-400">
+                  <ArrowUpDown className="w-4 h-4" />
+                  <select
+                    value={sort}
+                    onChange={e => setSort(e.target.value as SortOption)}
+                    className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-gray-300 focus:outline-none focus:border-blue-500/50"
+                  >
+                    {SORT_OPTIONS.map(option => (
+                      <option key={option.id} value={option.id} className="bg-gray-900">
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Collection & Tag Filters */}
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Folder className="w-4 h-4 text-gray-500" />
+                  <button
+                    onClick={() => setFilter({ collection: null, tags: [] })}
+                    className={clsx(
+                      "px-3 py-1 rounded-full border text-xs transition-colors",
+                      !isFiltered
+                        ? "bg-blue-500/20 border-blue-500/40 text-blue-300"
+                        : "bg-white/5 border-white/10 text-gray-400 hover:bg-white/10"
+                    )}
+                  >
+                    All
+                  </button>
+                  {collections.map(collection => {
+                    const isActive = filter.collection === collection.id;
+                    return (
+                      <span
+                        key={collection.id}
+                        className={clsx(
+                          "flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs transition-colors",
+                          isActive
+                            ? "bg-blue-500/20 border-blue-500/40 text-blue-300"
+                            : "bg-white/5 border-white/10 text-gray-400 hover:bg-white/10"
+                        )}
+                      >
+                        <button onClick={() => setFilter(prev => ({ ...prev, collection: isActive ? null : collection.id }))}>
+                          {collection.name}
+                          <span className="ml-1.5 opacity-60">{collection.paper_count}</span>
+                        </button>
+                        {isActive && (
+                          <button
+                            onClick={() => handleDeleteCollection(collection)}
+                            className="hover:text-red-400"
+                            title="Delete collection"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </span>
+                    );
+                  })}
+                  <button
+                    onClick={handleNewCollection}
+                    className="flex items-center gap-1 px-3 py-1 rounded-full border border-dashed border-white/20 text-xs text-gray-400 hover:text-white hover:border-white/40 transition-colors"
+                  >
+                    <Plus className="w-3 h-3" />
+                    New collection
+                  </button>
+                </div>
+
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Tag className="w-4 h-4 text-gray-500" />
+                    {tags.map(({ tag, count }) => (
+                      <button
+                        key={tag}
+                        onClick={() => toggleTagFilter(tag)}
+                        className={clsx(
+                          "px-3 py-1 rounded-full border text-xs transition-colors",
+                          filter.tags.includes(tag)
+                            ? "bg-emerald-500/20 border-emerald-500/40 text-emerald-300"
+                            : "bg-white/5 border-white/10 text-gray-400 hover:bg-white/10"
+                        )}
+                      >
+                        {tag}
+                        <span className="ml-1.5 opacity-60">{count}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
+
+              {papers.length === 0 && (
+                <p className="text-center py-8 text-gray-400">No papers match these filters.</p>
+              )}
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {papers.map((paper) => {
-                  let paperAnalysis: PaperAnalysis | null = null;
-                  try {
-                    paperAnalysis = JSON.parse(paper.analysis_json);
-                  } catch {
-                    return null;
-                  }
-                  
-                  return (
-                    <Link
-                      key={paper.hash}
-                      href={`/papers/${paper.hash}`}
-                      className="group relative flex flex-col items-start gap-2 p-6 rounded-xl border border-white/5 bg-white/5 hover:bg-white/10 hover:border-blue-500/30 transition-all"
+                {papers.map((paper) => (
+                  <Link
+                    key={paper.hash}
+                    href={`/papers/${paper.hash}`}
+                    className="group relative flex flex-col items-start gap-2 p-6 rounded-xl border border-white/5 bg-white/5 hover:bg-white/10 hover:border-blue-500/30 transition-all"
+                  >
+                    <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <ArrowRight className="w-5 h-5 text-blue-400 -rotate-45 group-hover:rotate-0 transition-transform" />
+                    </div>
+
+                    <button
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleDelete(paper);
+                      }}
+                      disabled={deletingHash === paper.hash}
+                      className="absolute bottom-4 right-4 p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-all disabled:opacity-100"
+                      title="Delete paper"
                     >
-                      <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <ArrowRight className="w-5 h-5 text-blue-400 -rotate-45 group-hover:rotate-0 transition-transform" />
-                      </div>
-                      
-                      <h3 className="font-semibold text-lg text-gray-200 group-hover:text-white line-clamp-1 pr-8">
-                        {paperAnalysis?.title || "Untitled"}
-                      </h3>
-                      <p className="text-sm text-gray-400 line-clamp-2">
-                        {paperAnalysis?.summary || "No summary available"}
-                      </p>
-                      <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
-                        <Calendar className="w-3.5 h-3.5" />
-                        <span>{new Date(paper.created_at).toLocaleDateString()}</span>
-                        <span>•</span>
-                        <span className="font-mono">{paper.filename}</span>
+                      {deletingHash === paper.hash
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <Trash2 className="w-4 h-4" />}
+                    </button>
+                    
+                    <h3 className="font-semibold text-lg text-gray-200 group-hover:text-white line-clamp-1 pr-8">
+                      {paper.title}
+                    </h3>
+                    <p className="text-sm text-gray-400 line-clamp-2">
+                      {paper.summary || "No summary available"}
+                    </p>
+                    <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+                      <Calendar className="w-3.5 h-3.5" />
+                      <span>{new Date(paper.created_at).toLocaleDateString()}</span>
+                      <span>•</span>
+                      <span className="font-mono">{paper.filename}</span>
+                      {paper.breakthrough_score !== null && (
+                        <>
+                          <span>•</span>
+                          <span className="flex items-center gap-1 text-amber-400">
+                            <TrendingUp className="w-3.5 h-3.5" />
+                            {paper.breakthrough_score}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                    {paper.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {paper.tags.map(tag => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full bg-emerald-500/10 text-emerald-400/80 text-xs">
+                            {tag}
+                          </span>
+                        ))}
                       </div>
-                    </Link>
-                  );
-                })}
+                    )}
+                  </Link>
+                ))}
               </div>
+
+              {papers.length < totalPapers && (
+                <div className="flex justify-center">
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    className="flex items-center gap-2 px-6 py-3 rounded-xl bg-white/5 text-gray-300 border border-white/10 hover:bg-white/10 transition-colors disabled:opacity-50"
+                  >
+                    {isLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Load More Papers
+                  </button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-12">
@@ -200,3 +724,20 @@ export default function PapersPage() {
     </main>
   );
 }
+
+// Render a search snippet with its matched ranges marked
+function HighlightedText({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-amber-400/20 text-amber-200 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+}
@@ -3,9 +3,11 @@
 import { useEffect, useState, useRef, use, useCallback, memo } from "react";
 import { useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, Send, Bot, User, Loader2, PanelLeftClose, PanelLeft, Save } from "lucide-react";
+import { ArrowLeft, Send, Square, Bot, User, Loader2, PanelLeftClose, PanelLeft, History, RotateCcw, GitCompare, Search } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import PrototypeRenderer from "@/components/PrototypeRenderer";
+import UsagePanel from "@/components/UsagePanel";
+import { readNdjson } from "@/lib/ndjson";
 
 // ============================================================================
 // TYPES
@@ -17,6 +19,8 @@ interface Message {
   role: "user" | "assistant";
   content: string;
   isStreaming?: boolean;
+  // Paper lookups the agent made while answering (display only)
+  lookups?: string[];
   // Function call made by assistant
   functionCall?: {
     name: string;
@@ -29,8 +33,40 @@ interface Message {
   };
 }
 
+// One line of an /api/agent turn stream
+interface AgentStreamEvent {
+  type: string;
+  content?: string;
+  name?: string;
+  args?: Record<string, unknown>;
+  // edit_prototype: the patched code
+  code?: string;
+  message?: string;
+  query?: string;
+  id?: string;
+}
+
 type ChatWidth = "narrow" | "normal" | "wide";
 
+type RevisionOrigin = "agent" | "auto_fix" | "manual" | "restore" | "initial";
+
+interface RevisionSummary {
+  seq: number;
+  origin: RevisionOrigin;
+  message?: string;
+  restored_from?: number;
+  lines: number;
+  created_at: number;
+}
+
+// Prefix of the message sent when the renderer reports an error
+const AUTO_FIX_PREFIX = "The prototype has an error:";
+
+// Added to an answer that was stopped
+const STOPPED_NOTE = "⏹️ Stopped";
+// Sent while another tab's turn was running; that turn is followed instead
+const BUSY_NOTE = "⚠️ The agent was still answering another message, so yours wasn't sent. Its answer:";
+
 // ============================================================================
 // CHAT PANEL - Isolated component with markdown support
 // ============================================================================
@@ -39,11 +75,12 @@ interface ChatPanelProps {
   messages: Message[];
   isLoading: boolean;
   onSendMessage: (content: string) => void;
+  onStop: () => void;
   width: ChatWidth;
   onWidthChange: (width: ChatWidth) => void;
 }
 
-const ChatPanel = memo(function ChatPanel({ messages, isLoading, onSendMessage, width, onWidthChange }: ChatPanelProps) {
+const ChatPanel = memo(function ChatPanel({ messages, isLoading, onSendMessage, onStop, width, onWidthChange }: ChatPanelProps) {
   const [input, setInput] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -126,6 +163,16 @@ const ChatPanel = memo(function ChatPanel({ messages, isLoading, onSendMessage,
                 ? "bg-white/10 rounded-tr-sm" 
                 : "bg-blue-500/10 rounded-tl-sm border border-blue-500/10"
             }`}>
+              {msg.lookups && msg.lookups.length > 0 && (
+                <div className="mb-1.5 space-y-0.5 text-xs text-gray-500">
+                  {msg.lookups.map((lookup, i) => (
+                    <p key={i} className="flex items-center gap-1.5 truncate">
+                      <Search className="w-3 h-3 shrink-0" />
+                      {lookup}
+                    </p>
+                  ))}
+                </div>
+              )}
               {msg.role === "assistant" ? (
                 <div className="prose prose-invert prose-sm max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1 prose-ol:my-1 prose-li:my-0 prose-code:bg-white/10 prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-white/5 prose-pre:border prose-pre:border-white/10">
                   <ReactMarkdown>{msg.content || (msg.isStreaming ? "..." : "")}</ReactMarkdown>
@@ -163,13 +210,24 @@ const ChatPanel = memo(function ChatPanel({ messages, isLoading, onSendMessage,
             disabled={isLoading}
             className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm placeholder:text-gray-500 focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="p-2 bg-blue-500 hover:bg-blue-600 disabled:bg-white/10 disabled:text-gray-500 rounded-lg transition-colors"
-          >
-            <Send className="w-4 h-4" />
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="p-2 bg-white/10 hover:bg-red-500/20 text-gray-300 hover:text-red-300 rounded-lg transition-colors"
+              title="Stop"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="p-2 bg-blue-500 hover:bg-blue-600 disabled:bg-white/10 disabled:text-gray-500 rounded-lg transition-colors"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </form>
     </div>
@@ -210,6 +268,155 @@ const PrototypePanel = memo(function PrototypePanel({ code, onError }: Prototype
   return prevProps.code === nextProps.code;
 });
 
+// ============================================================================
+// REVISION TIMELINE - Jump back to earlier versions of the prototype
+// ============================================================================
+
+const ORIGIN_LABELS: Record<RevisionOrigin, string> = {
+  agent: "Agent",
+  auto_fix: "Auto-fix",
+  manual: "Manual",
+  restore: "Restore",
+  initial: "Initial",
+};
+
+interface RevisionTimelineProps {
+  prototypeId: string;
+  refreshKey: number;
+  disabled: boolean;
+  onRestore: (code: string) => void;
+}
+
+const RevisionTimeline = memo(function RevisionTimeline({ prototypeId, refreshKey, disabled, onRestore }: RevisionTimelineProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [diff, setDiff] = useState<{ seq: number; text: string } | null>(null);
+  const [restoringSeq, setRestoringSeq] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch(`/api/prototypes/revisions?id=${encodeURIComponent(prototypeId)}`)
+      .then(r => r.json())
+      .then(data => setRevisions(data.revisions || []))
+      .catch(console.error);
+  }, [isOpen, prototypeId, refreshKey]);
+
+  const toggleDiff = async (seq: number) => {
+    if (diff?.seq === seq) {
+      setDiff(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/prototypes/revisions?id=${encodeURIComponent(prototypeId)}&from=${seq}`);
+      const data = await res.json();
+      setDiff({ seq, text: data.diff || "No changes since this revision." });
+    } catch (e) {
+      console.error("[Prototype] Failed to load diff:", e);
+    }
+  };
+
+  const restore = async (seq: number) => {
+    setRestoringSeq(seq);
+    try {
+      const res = await fetch("/api/prototypes/revisions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: prototypeId, seq }),
+      });
+      const data = await res.json();
+      if (data.revision?.code) {
+        onRestore(data.revision.code);
+        setDiff(null);
+        setIsOpen(false);
+      }
+    } catch (e) {
+      console.error("[Prototype] Failed to restore revision:", e);
+    } finally {
+      setRestoringSeq(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors ${
+          isOpen ? "bg-white/10 text-white" : "text-gray-400 hover:bg-white/10 hover:text-white"
+        }`}
+        title="Version history"
+      >
+        <History className="w-3.5 h-3.5" />
+        History
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-[420px] max-h-[70vh] overflow-y-auto rounded-xl bg-gray-900/95 backdrop-blur border border-white/10 shadow-2xl z-50">
+          {revisions.length === 0 ? (
+            <p className="p-4 text-xs text-gray-500">No saved versions yet.</p>
+          ) : (
+            <ol className="divide-y divide-white/5">
+              {revisions.map((rev, i) => (
+                <li key={rev.seq} className="p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="font-mono text-gray-500">#{rev.seq}</span>
+                    <span className="px-1.5 py-0.5 rounded bg-white/5 text-gray-300">{ORIGIN_LABELS[rev.origin]}</span>
+                    {rev.restored_from !== undefined && (
+                      <span className="text-gray-500">from #{rev.restored_from}</span>
+                    )}
+                    <span className="text-gray-500">{new Date(rev.created_at).toLocaleString()}</span>
+                    {i === 0 ? (
+                      <span className="ml-auto text-emerald-400">Current</span>
+                    ) : (
+                      <div className="ml-auto flex items-center gap-1">
+                        <button
+                          onClick={() => toggleDiff(rev.seq)}
+                          className="p-1 rounded hover:bg-white/10 text-gray-400 hover:text-white"
+                          title="Compare with current"
+                        >
+                          <GitCompare className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => restore(rev.seq)}
+                          disabled={disabled || restoringSeq !== null}
+                          className="p-1 rounded hover:bg-white/10 text-gray-400 hover:text-white disabled:opacity-50"
+                          title="Restore this version"
+                        >
+                          {restoringSeq === rev.seq
+                            ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            : <RotateCcw className="w-3.5 h-3.5" />}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {rev.message && (
+                    <p className="text-xs text-gray-400 line-clamp-2">{rev.message}</p>
+                  )}
+                  {diff?.seq === rev.seq && (
+                    <pre className="text-[11px] leading-4 font-mono bg-black/40 rounded-lg p-2 overflow-x-auto max-h-64">
+                      {diff.text.split("\n").map((line, idx) => (
+                        <div
+                          key={idx}
+                          className={
+                            line.startsWith("+") ? "text-emerald-400" :
+                            line.startsWith("-") ? "text-red-400" :
+                            line.startsWith("@@") ? "text-blue-400" : "text-gray-500"
+                          }
+                        >
+                          {line || " "}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
 // ============================================================================
 // MAIN PAGE
 // ============================================================================
@@ -221,27 +428,161 @@ export default function PrototypePage({ params }: { params: Promise<{ id: string
   const title = searchParams.get("title") || "Untitled";
   const description = searchParams.get("description") || "";
   const hash = searchParams.get("hash");
+  // Agent prompt version to use instead of the default (A/B runs)
+  const promptVersion = searchParams.get("prompt");
 
   // State
   const [messages, setMessages] = useState<Message[]>([]);
   const [prototypeCode, setPrototypeCode] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [paperContext, setPaperContext] = useState("");
   const [chatWidth, setChatWidth] = useState<ChatWidth>("normal");
-  const [isSaved, setIsSaved] = useState(true);
   const [cacheCheckComplete, setCacheCheckComplete] = useState(false);
   const [isLoadedFromCache, setIsLoadedFromCache] = useState(false);
+  const [revisionsVersion, setRevisionsVersion] = useState(0);
 
   // Refs
-  const messagesRef = useRef<Message[]>([]);
   const isLoadingRef = useRef(false);
   const hasStarted = useRef(false);
-  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Running agent turn, and the request following it (for Stop)
+  const turnIdRef = useRef<string | null>(null);
+  const turnAbortRef = useRef<AbortController | null>(null);
 
   // Keep refs in sync
-  messagesRef.current = messages;
   isLoadingRef.current = isLoading;
 
+  // ========== AGENT TURNS ==========
+
+  // Read a turn's events into the assistant message until the turn ends.
+  // `open` makes the request: a new turn, or reattaching to a running one.
+  const followTurn = useCallback(async (
+    turnId: string,
+    assistantMsgId: string,
+    open: (signal: AbortSignal) => Promise<Response>
+  ) => {
+    const abort = new AbortController();
+    turnIdRef.current = turnId;
+    turnAbortRef.current = abort;
+    setIsLoading(true);
+
+    let accumulatedText = "";
+    let receivedFunctionCall: { name: string; args: Record<string, unknown> } | undefined;
+
+    try {
+      let res = await open(abort.signal);
+
+      if (res.status === 409) {
+        const { turnId: runningId } = await res.clone().json().catch(() => ({}));
+        if (typeof runningId === "string") {
+          turnIdRef.current = runningId;
+          accumulatedText = `${BUSY_NOTE}\n\n`;
+          setMessages(prev => prev.map(m =>
+            m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
+          ));
+          res = await fetch(`/api/agent?turnId=${encodeURIComponent(runningId)}`, { signal: abort.signal });
+        }
+      }
+
+      // Errors come back as plain JSON, not as a stream
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        const error = res.status === 404
+          ? "This answer can no longer be followed (it finished a while ago, or the server restarted). Reload the page to see the saved chat."
+          : data.error || `Request failed (${res.status})`;
+        setMessages(prev => prev.map(m =>
+          m.id === assistantMsgId ? { ...m, content: `${accumulatedText}⚠️ Error: ${error}`, isStreaming: false } : m
+        ));
+        return;
+      }
+
+      await readNdjson<AgentStreamEvent>(res, event => {
+        const json = event as AgentStreamEvent;
+
+        if (json.type === "text" && json.content) {
+          accumulatedText += json.content;
+          setMessages(prev => prev.map(m =>
+            m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
+          ));
+        }
+
+        // edit_prototype is applied server-side and arrives as the patched code.
+        // The server has already saved it as a new revision.
+        if (json.type === "tool_call" && (json.name === "render_prototype" || json.name === "edit_prototype")) {
+          const raw = json.name === "edit_prototype" ? json.code : json.args?.code;
+          const code = typeof raw === "string" ? raw.replace(/^```[\w]*\n?/, "").replace(/\n?```$/, "") : "";
+          if (code) {
+            setPrototypeCode(code);
+            setRevisionsVersion(v => v + 1);
+            // Shown with the message; the server records the call itself
+            receivedFunctionCall = { name: json.name, args: json.args ?? {} };
+          }
+        }
+
+        // The agent retries in the same turn (or regenerates the whole file)
+        if (json.type === "edit_failed" || json.type === "check_failed") {
+          const problem = json.type === "edit_failed" ? "Edit didn't apply" : "Code didn't pass checks";
+          accumulatedText += `\n⚠️ ${problem}:\n${json.message}\n`;
+          setMessages(prev => prev.map(m =>
+            m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
+          ));
+        }
+
+        if (json.type === "paper_lookup") {
+          const lookup = json.name === "read_section" ? `Reading "${json.query}"` : `Searching paper for "${json.query}"`;
+          setMessages(prev => prev.map(m =>
+            m.id === assistantMsgId ? { ...m, lookups: [...(m.lookups ?? []), lookup] } : m
+          ));
+        }
+
+        if (json.type === "turn") {
+          turnIdRef.current = json.id ?? null;
+        }
+
+        // Stopped from elsewhere (another tab); what was said is kept
+        if (json.type === "stopped") {
+          accumulatedText += `\n${STOPPED_NOTE}`;
+          setMessages(prev => prev.map(m =>
+            m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
+          ));
+        }
+
+        if (json.type === "error") {
+          accumulatedText += `\n⚠️ Error: ${json.message}`;
+          setMessages(prev => prev.map(m =>
+            m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
+          ));
+        }
+      });
+
+      // Finalize the assistant message with function call if present
+      setMessages(prev => prev.map(m =>
+        m.id === assistantMsgId 
+          ? { ...m, isStreaming: false, functionCall: receivedFunctionCall } 
+          : m
+      ));
+
+    } catch (error) {
+      // Stop aborts the request; the server saves what was said so far
+      if (abort.signal.aborted) {
+        setMessages(prev => prev.map(m =>
+          m.id === assistantMsgId
+            ? { ...m, content: accumulatedText ? `${accumulatedText}\n${STOPPED_NOTE}` : STOPPED_NOTE, isStreaming: false }
+            : m
+        ));
+      } else {
+        console.error("Agent error:", error);
+        setMessages(prev => prev.map(m =>
+          m.id === assistantMsgId 
+            ? { ...m, content: "Failed to connect to agent. Please try again.", isStreaming: false } 
+            : m
+        ));
+      }
+    } finally {
+      turnIdRef.current = null;
+      turnAbortRef.current = null;
+      setIsLoading(false);
+    }
+  }, []);
+
   // ========== CACHING ==========
   
   // Load from cache on mount
@@ -254,36 +595,55 @@ export default function PrototypePage({ params }: { params: Promise<{ id: string
           if (cached && cached.code) {
             console.log("[Prototype] Loaded from cache:", cached.title);
             setPrototypeCode(cached.code);
-            // Convert cached history to messages format
-            // Properly restore function calls and function responses
-            if (cached.history && cached.history.length > 0) {
-              const msgs: Message[] = cached.history.map((h: { 
-                role: string; 
-                parts: Array<{ 
-                  text?: string; 
-                  functionCall?: { name: string; args: Record<string, unknown> };
-                  functionResponse?: { name: string; response: Record<string, unknown> };
-                }>;
-              }, i: number) => {
-                const textPart = h.parts?.find(p => p.text !== undefined);
-                const functionCallPart = h.parts?.find(p => p.functionCall);
-                const functionResponsePart = h.parts?.find(p => p.functionResponse);
-                
-                return {
-                  id: `cached-${i}`,
-                  role: h.role === "model" ? "assistant" : "user",
-                  content: textPart?.text || "",
-                  isStreaming: false,
-                  functionCall: functionCallPart?.functionCall,
-                  functionResponse: functionResponsePart?.functionResponse,
-                } as Message;
-              });
-              setMessages(msgs);
-            }
             setIsLoadedFromCache(true);
             hasStarted.current = true;
           }
         }
+
+        // The chat is stored with the agent session
+        // Properly restore function calls and function responses
+        const sessionRes = await fetch(`/api/agent?prototypeId=${encodeURIComponent(prototypeId)}`);
+        if (sessionRes.ok) {
+          const session = await sessionRes.json();
+          const msgs: Message[] = (session.messages ?? []).map((h: { 
+            role: string; 
+            parts: Array<{ 
+              text?: string; 
+              functionCall?: { name: string; args: Record<string, unknown> };
+              functionResponse?: { name: string; response: Record<string, unknown> };
+            }>;
+          }, i: number) => {
+            const textPart = h.parts?.find(p => p.text !== undefined);
+            const functionCallPart = h.parts?.find(p => p.functionCall);
+            const functionResponsePart = h.parts?.find(p => p.functionResponse);
+            
+            return {
+              id: `cached-${i}`,
+              role: h.role === "model" ? "assistant" : "user",
+              content: textPart?.text || "",
+              isStreaming: false,
+              functionCall: functionCallPart?.functionCall,
+              functionResponse: functionResponsePart?.functionResponse,
+            } as Message;
+          });
+          if (msgs.length > 0) {
+            setMessages(msgs);
+            hasStarted.current = true;
+          }
+
+          // Reloaded while the agent was answering: follow the rest of the turn
+          if (session.runningTurnId) {
+            const turnId: string = session.runningTurnId;
+            const assistantMsgId = crypto.randomUUID();
+            setMessages(prev => [...prev, { id: assistantMsgId, role: "assistant", content: "", isStreaming: true }]);
+            hasStarted.current = true;
+            followTurn(
+              turnId,
+              assistantMsgId,
+              signal => fetch(`/api/agent?turnId=${encodeURIComponent(turnId)}`, { signal })
+            );
+          }
+        }
       } catch {
         console.log("[Prototype] Not in cache, will generate new");
       } finally {
@@ -292,119 +652,7 @@ export default function PrototypePage({ params }: { params: Promise<{ id: string
       }
     }
     loadFromCache();
-  }, [prototypeId]);
-
-  // Auto-save with debounce
-  // Save whenever prototypeCode changes (whether new or from cache)
-  useEffect(() => {
-    if (!prototypeCode) return;
-    
-    setIsSaved(false);
-    
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
-    
-    saveTimeoutRef.current = setTimeout(async () => {
-      try {
-        // Convert messages to history format for storage
-        // Properly include function calls and function responses
-        const historyForStorage = messages.map(m => {
-          const role = m.role === "assistant" ? "model" : "user";
-          const parts: Array<{ text?: string; functionCall?: unknown; functionResponse?: unknown }> = [];
-          
-          if (m.content) {
-            parts.push({ text: m.content });
-          }
-          if (m.functionCall) {
-            parts.push({ functionCall: m.functionCall });
-          }
-          if (m.functionResponse) {
-            parts.push({ functionResponse: m.functionResponse });
-          }
-          if (parts.length === 0) {
-            parts.push({ text: "" });
-          }
-          
-          return { role, parts };
-        });
-        
-        await fetch("/api/prototypes", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            id: prototypeId,
-            paper_hash: hash,
-            title,
-            description,
-            code: prototypeCode,
-            history: historyForStorage,
-          }),
-        });
-        setIsSaved(true);
-        console.log("[Prototype] Saved to cache");
-      } catch (e) {
-        console.error("[Prototype] Failed to save:", e);
-      }
-    }, 2000);
-    
-    return () => {
-      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
-    };
-  }, [prototypeCode, messages, prototypeId, hash, title, description]);
-
-  // Load paper context
-  useEffect(() => {
-    if (!hash) return;
-    fetch("/api/papers")
-      .then(r => r.json())
-      .then(data => {
-        const paper = data.papers?.find((p: { hash: string }) => p.hash === hash);
-        if (paper) setPaperContext(paper.raw_text);
-      })
-      .catch(console.error);
-  }, [hash]);
-
-  // Convert our Message format to Gemini's expected history format
-  // This properly includes function calls and function responses
-  const buildHistoryForApi = useCallback((msgs: Message[]) => {
-    return msgs.map(m => {
-      const role = m.role === "assistant" ? "model" : "user";
-      const parts: Array<{ text?: string; functionCall?: unknown; functionResponse?: unknown }> = [];
-
-      // Add text part if present
-      if (m.content) {
-        parts.push({ text: m.content });
-      }
-
-      // Add function call part if present (for assistant/model messages)
-      if (m.functionCall) {
-        parts.push({
-          functionCall: {
-            name: m.functionCall.name,
-            args: m.functionCall.args
-          }
-        });
-      }
-
-      // Add function response part if present (for user messages providing function result)
-      if (m.functionResponse) {
-        parts.push({
-          functionResponse: {
-            name: m.functionResponse.name,
-            response: m.functionResponse.response
-          }
-        });
-      }
-
-      // Ensure at least empty text if no parts
-      if (parts.length === 0) {
-        parts.push({ text: "" });
-      }
-
-      return { role, parts };
-    });
-  }, []);
+  }, [prototypeId, followTurn]);
 
   // The main send function
   const sendMessage = useCallback(async (content: string) => {
@@ -412,116 +660,56 @@ export default function PrototypePage({ params }: { params: Promise<{ id: string
 
     const userMsgId = crypto.randomUUID();
     const assistantMsgId = crypto.randomUUID();
+    // Chosen here so Stop works before the server answers
+    const turnId = crypto.randomUUID();
 
     const userMsg: Message = { id: userMsgId, role: "user", content };
     const assistantMsg: Message = { id: assistantMsgId, role: "assistant", content: "", isStreaming: true };
 
     setMessages(prev => [...prev, userMsg, assistantMsg]);
-    setIsLoading(true);
-
-    try {
-      // Build history in Gemini's expected format
-      // This properly includes function calls and function responses
-      const historyForApi = buildHistoryForApi([...messagesRef.current, userMsg]);
-
-      const res = await fetch("/api/agent", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ history: historyForApi }),
-      });
-
-      if (!res.body) throw new Error("No response body");
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let accumulatedText = "";
-      let receivedFunctionCall: { name: string; args: Record<string, unknown> } | undefined;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split("\n").filter(l => l.trim());
-
-        for (const line of lines) {
-          try {
-            const json = JSON.parse(line);
-
-            if (json.type === "text" && json.content) {
-              accumulatedText += json.content;
-              setMessages(prev => prev.map(m =>
-                m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
-              ));
-            }
-
-            if (json.type === "tool_call" && json.name === "render_prototype") {
-              let code = json.args?.code || "";
-              code = code.replace(/^```[\w]*\n?/, "").replace(/\n?```$/, "");
-              if (code) {
-                setPrototypeCode(code);
-                // Store the function call so it goes into history
-                receivedFunctionCall = { name: json.name, args: json.args };
-              }
-            }
-
-            if (json.type === "error") {
-              accumulatedText += `\n⚠️ Error: ${json.message}`;
-              setMessages(prev => prev.map(m =>
-                m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
-              ));
-            }
-          } catch {
-            // Ignore parse errors
-          }
-        }
-      }
-
-      // Finalize the assistant message with function call if present
-      setMessages(prev => {
-        const updated = prev.map(m =>
-          m.id === assistantMsgId 
-            ? { ...m, isStreaming: false, functionCall: receivedFunctionCall } 
-            : m
-        );
-        
-        // If there was a function call, add a function response message
-        // This tells the model what happened when we executed the function
-        if (receivedFunctionCall) {
-          const functionResponseMsg: Message = {
-            id: crypto.randomUUID(),
-            role: "user", // Function responses are sent as "user" role in Gemini
-            content: "",
-            functionResponse: {
-              name: receivedFunctionCall.name,
-              response: { success: true, rendered: true }
-            }
-          };
-          return [...updated, functionResponseMsg];
-        }
-        
-        return updated;
-      });
 
-    } catch (error) {
-      console.error("Agent error:", error);
-      setMessages(prev => prev.map(m =>
-        m.id === assistantMsgId 
-          ? { ...m, content: "Failed to connect to agent. Please try again.", isStreaming: false } 
-          : m
-      ));
-    } finally {
-      setIsLoading(false);
+    // The server keeps the conversation; only the new message is sent
+    await followTurn(turnId, assistantMsgId, signal => fetch("/api/agent", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        message: content,
+        turnId,
+        prototypeId,
+        paperHash: hash,
+        // Saved with the code the agent writes
+        title,
+        description,
+        origin: content.startsWith(AUTO_FIX_PREFIX) ? "auto_fix" : "agent",
+        ...(promptVersion && { promptVersions: { agent: promptVersion } }),
+      }),
+      signal,
+    }));
+  }, [followTurn, prototypeId, hash, title, description, promptVersion]);
+
+  // Stop the running turn: the server aborts the model call, and the
+  // request is dropped so the chat is usable right away
+  const stopTurn = useCallback(() => {
+    const turnId = turnIdRef.current;
+    if (turnId) {
+      fetch(`/api/agent?turnId=${encodeURIComponent(turnId)}`, { method: "DELETE" }).catch(() => {});
     }
-  }, [buildHistoryForApi]);
+    turnAbortRef.current?.abort();
+  }, []);
 
   // Handle prototype errors
   const handlePrototypeError = useCallback((error: string) => {
     if (!isLoadingRef.current) {
-      sendMessage(`The prototype has an error: ${error}\n\nPlease fix it.`);
+      sendMessage(`${AUTO_FIX_PREFIX} ${error}\n\nPlease fix it.`);
     }
   }, [sendMessage]);
 
+  // Restored code is already recorded server-side as a new revision
+  const handleRestoreRevision = useCallback((code: string) => {
+    setPrototypeCode(code);
+    setRevisionsVersion(v => v + 1);
+  }, []);
+
   // Auto-start agent when ready (only if not loaded from cache)
   useEffect(() => {
     // Wait for cache check to complete before deciding to auto-start
@@ -530,15 +718,11 @@ export default function PrototypePage({ params }: { params: Promise<{ id: string
     // Don't start if already started or loaded from cache
     if (hasStarted.current || isLoadedFromCache) return;
     if (!title) return;
-    if (hash && !paperContext) return;
     
     hasStarted.current = true;
-    const initialPrompt = paperContext
-      ? `Create an interactive prototype for "${title}". Description: ${description}\n\nPAPER CONTENT:\n${paperContext}`
-      : `Create an interactive prototype for "${title}". Description: ${description}`;
-    
-    sendMessage(initialPrompt);
-  }, [cacheCheckComplete, title, description, hash, paperContext, sendMessage, isLoadedFromCache]);
+    // The agent reads the paper itself (search_paper / read_section) when a hash is given
+    sendMessage(`Create an interactive prototype for "${title}". Description: ${description}`);
+  }, [cacheCheckComplete, title, description, sendMessage, isLoadedFromCache]);
 
   return (
     <main className="h-screen bg-black text-white flex flex-col overflow-hidden">
@@ -554,16 +738,19 @@ export default function PrototypePage({ params }: { params: Promise<{ id: string
           <h1 className="font-medium text-sm truncate">{title}</h1>
         </div>
         
-        {/* Save Status */}
+        {/* Version History */}
         {prototypeCode && (
-          <div className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs ${
-            isSaved ? "bg-emerald-500/10 text-emerald-400" : "bg-amber-500/10 text-amber-400"
-          }`}>
-            <Save className="w-3 h-3" />
-            {isSaved ? "Saved" : "Saving..."}
-          </div>
+          <RevisionTimeline
+            prototypeId={prototypeId}
+            refreshKey={revisionsVersion}
+            disabled={isLoading}
+            onRestore={handleRestoreRevision}
+          />
         )}
-        
+
+        {/* Model Usage (refreshes after each turn) */}
+        <UsagePanel prototypeId={prototypeId} refreshKey={messages.length} />
+
         {/* Status */}
         <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs ${
           isLoading ? "bg-blue-500/10 text-blue-400" : "bg-emerald-500/10 text-emerald-400"
@@ -579,6 +766,7 @@ export default function PrototypePage({ params }: { params: Promise<{ id: string
           messages={messages} 
           isLoading={isLoading} 
           onSendMessage={sendMessage}
+          onStop={stopTurn}
           width={chatWidth}
           onWidthChange={setChatWidth}
         />
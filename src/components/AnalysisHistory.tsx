@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ChevronDown, GitCompare, History } from "lucide-react";
+import clsx from "clsx";
+import type { AnalysisDiff, AnalysisListField, AnalysisTextField, DiffRow } from "@/lib/analysis-diff";
+
+interface RevisionSummary {
+  seq: number;
+  model?: string;
+  prompt_versions?: Record<string, string>;
+  created_at: number;
+  title: string;
+  breakthrough_score: number;
+  claims: number;
+  simulations: number;
+}
+
+interface AnalysisHistoryProps {
+  hash: string;
+  // Bump after a re-analysis to reload the list
+  refreshKey?: number;
+}
+
+const LIST_LABELS: Record<AnalysisListField, string> = {
+  key_claims: "Key claims",
+  testable_hypotheses: "Testable hypotheses",
+  key_equations: "Key equations",
+  simulation_possibilities: "Simulation suggestions",
+  limitations: "Limitations",
+};
+
+const FIELD_LABELS: Record<AnalysisTextField, string> = {
+  title: "Title",
+  summary: "Summary",
+  breakthrough_reasoning: "Score reasoning",
+  field: "Field",
+  difficulty_to_understand: "Difficulty",
+};
+
+function revisionLabel(rev: RevisionSummary) {
+  const prompt = rev.prompt_versions?.analysis ? ` · prompt ${rev.prompt_versions.analysis}` : "";
+  return `#${rev.seq} · ${rev.model ?? "unknown model"}${prompt} · ${new Date(rev.created_at).toLocaleDateString()}`;
+}
+
+function DiffRows({ rows }: { rows: DiffRow[] }) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+      {rows.map((row, i) => (
+        <div key={i} className="contents">
+          <div className={clsx(
+            "px-3 py-1.5 rounded-lg",
+            row.type === "removed" && "bg-red-500/10 text-red-300 line-through decoration-red-400/50",
+            row.type === "changed" && "bg-amber-500/5 text-gray-400",
+            row.type === "same" && "text-gray-500",
+          )}>
+            {row.from}
+          </div>
+          <div className={clsx(
+            "px-3 py-1.5 rounded-lg",
+            row.type === "added" && "bg-emerald-500/10 text-emerald-300",
+            row.type === "changed" && "bg-amber-500/10 text-amber-200",
+            row.type === "same" && "text-gray-500",
+          )}>
+            {row.to}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Earlier analyses of a paper, with a side-by-side comparison of any two
+export default function AnalysisHistory({ hash, refreshKey = 0 }: AnalysisHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+  const [diff, setDiff] = useState<AnalysisDiff | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/papers/${encodeURIComponent(hash)}/revisions`)
+      .then(res => res.json())
+      .then(data => {
+        const list: RevisionSummary[] = data.revisions ?? [];
+        setRevisions(list);
+        // Default: what the latest analysis changed
+        setSelection(list.length > 1 ? { from: list[1].seq, to: list[0].seq } : null);
+      })
+      .catch(e => console.error("Failed to load analysis history", e));
+  }, [hash, refreshKey]);
+
+  useEffect(() => {
+    if (!isOpen || !selection) return;
+    fetch(`/api/papers/${encodeURIComponent(hash)}/revisions?from=${selection.from}&to=${selection.to}`)
+      .then(res => res.json())
+      .then(data => setDiff(data.diff ?? null))
+      .catch(e => console.error("Failed to load analysis diff", e));
+  }, [hash, isOpen, selection]);
+
+  if (revisions.length < 2 || !selection) return null;
+
+  const revisionSelect = (side: "from" | "to") => (
+    <select
+      value={selection[side]}
+      onChange={e => setSelection({ ...selection, [side]: Number(e.target.value) })}
+      className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-gray-300 focus:outline-none focus:border-blue-500/50"
+    >
+      {revisions.map(rev => (
+        <option key={rev.seq} value={rev.seq}>{revisionLabel(rev)}</option>
+      ))}
+    </select>
+  );
+
+  const changedLists = diff
+    ? (Object.keys(LIST_LABELS) as AnalysisListField[]).filter(field => diff.lists[field].some(row => row.type !== "same"))
+    : [];
+
+  return (
+    <div className="glass-panel rounded-2xl mb-6">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center gap-3 p-4 text-left"
+      >
+        <History className="w-5 h-5 text-blue-400" />
+        <span className="text-sm font-semibold text-white">Analysis history</span>
+        <span className="text-xs text-gray-500">{revisions.length} revisions</span>
+        <ChevronDown className={clsx("w-4 h-4 text-gray-500 ml-auto transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            {revisionSelect("from")}
+            {revisionSelect("to")}
+          </div>
+
+          {diff && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="p-3 rounded-xl bg-white/5">
+                  <p className="text-xs text-gray-500">Breakthrough score</p>
+                  <p className="text-2xl font-bold text-white">{diff.score.from}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-white/5">
+                  <p className="text-xs text-gray-500">Breakthrough score</p>
+                  <p className="text-2xl font-bold text-white">
+                    {diff.score.to}
+                    {diff.score.delta !== 0 && (
+                      <span className={clsx("ml-2 text-sm font-mono", diff.score.delta > 0 ? "text-emerald-400" : "text-red-400")}>
+                        {diff.score.delta > 0 ? "+" : ""}{diff.score.delta}
+                      </span>
+                    )}
+                  </p>
+                </div>
+              </div>
+
+              {diff.fields.map(change => (
+                <div key={change.field} className="space-y-2">
+                  <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{FIELD_LABELS[change.field]}</h4>
+                  <DiffRows rows={[{ type: "changed", from: change.from, to: change.to }]} />
+                </div>
+              ))}
+
+              {changedLists.map(field => (
+                <div key={field} className="space-y-2">
+                  <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{LIST_LABELS[field]}</h4>
+                  <DiffRows rows={diff.lists[field]} />
+                </div>
+              ))}
+
+              {diff.fields.length === 0 && diff.changes === 0 && diff.score.delta === 0 && (
+                <p className="flex items-center gap-2 text-sm text-gray-500">
+                  <GitCompare className="w-4 h-4" />
+                  These revisions have the same content.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { PaperAnalysis } from "@/lib/gemini";
+import type { ReactNode } from "react";
+import { EvidenceSpan, PaperAnalysis } from "@/lib/analysis";
 import { 
   Beaker, ChevronRight, BrainCircuit, Activity, Sparkles, FileText, 
   Layers, RefreshCw, TrendingUp, Lightbulb, FlaskConical, BookOpen,
-  Target, AlertTriangle, Zap, GraduationCap
+  Target, AlertTriangle, Zap, GraduationCap, Quote, CheckCircle2
 } from "lucide-react";
 import clsx from "clsx";
 
@@ -167,6 +168,19 @@ export default function AnalysisPanel({ analysis, onSimulate, onReanalyze, onBac
                 <div className="text-xs text-gray-400 uppercase tracking-widest">Prototypes</div>
               </div>
             </div>
+
+            {/* Coverage (long papers are analyzed in chunks) */}
+            {analysis.coverage?.strategy === "map_reduce" && (
+              <div className="flex items-start gap-2 mt-4 text-xs text-gray-500">
+                <Layers className="w-4 h-4 flex-shrink-0" />
+                <span title={analysis.coverage.sections_covered.join("\n")}>
+                  Long paper: analyzed in {analysis.coverage.chunks} parts covering {analysis.coverage.sections_covered.length} sections
+                  {analysis.coverage.sections_skipped.length > 0 && (
+                    <> (skipped {analysis.coverage.sections_skipped.join(", ")})</>
+                  )}
+                </span>
+              </div>
+            )}
           </div>
       </motion.div>
 
@@ -187,14 +201,17 @@ export default function AnalysisPanel({ analysis, onSimulate, onReanalyze, onBac
                 <motion.li 
                   key={idx} 
                   whileHover={{ x: 4 }}
-                  className="flex gap-4 text-sm text-gray-300 group cursor-default"
+                  className="text-sm text-gray-300 group cursor-default"
                 >
+                  <EvidenceHover evidence={claim.evidence} className="flex gap-4">
                    <span className="flex-shrink-0 w-6 h-6 rounded-full bg-emerald-500/10 text-emerald-500 flex items-center justify-center font-mono text-xs border border-emerald-500/20 group-hover:bg-emerald-500 group-hover:text-black transition-colors">
                      {idx + 1}
                    </span>
                    <span className="leading-relaxed opacity-80 group-hover:opacity-100 transition-opacity">
-                     {claim}
+                     {claim.claim}
+                     <UnverifiedMark evidence={claim.evidence} />
                    </span>
+                  </EvidenceHover>
                 </motion.li>
               ))}
             </ul>
@@ -209,15 +226,18 @@ export default function AnalysisPanel({ analysis, onSimulate, onReanalyze, onBac
               </h2>
               <div className="space-y-4">
                 {analysis.testable_hypotheses.slice(0, 3).map((hyp, idx) => (
-                  <div key={idx} className="p-4 rounded-xl bg-white/5 border border-white/5 space-y-2">
-                    <p className="text-sm text-white font-medium">{hyp.hypothesis}</p>
+                  <EvidenceHover key={idx} evidence={hyp.evidence} className="p-4 rounded-xl bg-white/5 border border-white/5 space-y-2">
+                    <p className="text-sm text-white font-medium">
+                      {hyp.hypothesis}
+                      <UnverifiedMark evidence={hyp.evidence} />
+                    </p>
                     <p className="text-xs text-gray-400">
                       <span className="text-blue-400">Test:</span> {hyp.how_to_test}
                     </p>
                     <p className="text-xs text-gray-400">
                       <span className="text-emerald-400">Expected:</span> {hyp.expected_outcome}
                     </p>
-                  </div>
+                  </EvidenceHover>
                 ))}
               </div>
             </motion.div>
@@ -271,9 +291,10 @@ export default function AnalysisPanel({ analysis, onSimulate, onReanalyze, onBac
               </h2>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {analysis.key_equations.map((eq, idx) => (
-                  <div key={idx} className="p-4 rounded-xl bg-white/5 border border-white/5 space-y-3">
+                  <EvidenceHover key={idx} evidence={eq.evidence} className="p-4 rounded-xl bg-white/5 border border-white/5 space-y-3">
                     <div className="flex items-center justify-between">
                       <h3 className="text-sm font-semibold text-white">{eq.name}</h3>
+                      <UnverifiedMark evidence={eq.evidence} />
                     </div>
                     <div className="font-mono text-lg text-amber-300 bg-black/30 p-3 rounded-lg overflow-x-auto">
                       {eq.latex}
@@ -288,7 +309,7 @@ export default function AnalysisPanel({ analysis, onSimulate, onReanalyze, onBac
                         ))}
                       </div>
                     )}
-                  </div>
+                  </EvidenceHover>
                 ))}
               </div>
             </motion.div>
@@ -379,3 +400,49 @@ export default function AnalysisPanel({ analysis, onSimulate, onReanalyze, onBac
     </motion.div>
   );
 }
+
+// ============================================================================
+// EVIDENCE
+// ============================================================================
+
+// Flags items whose quotes were all missing from the paper text
+function UnverifiedMark({ evidence }: { evidence?: EvidenceSpan[] }) {
+  const spans = evidence ?? [];
+  if (spans.length === 0 || spans.some(span => span.verified)) return null;
+  return (
+    <span title="None of the quotes for this item were found in the paper text">
+      <AlertTriangle className="inline w-3.5 h-3.5 ml-1.5 text-amber-500 align-[-2px]" />
+    </span>
+  );
+}
+
+// Shows the supporting quotes on hover
+function EvidenceHover({ evidence, className, children }: { evidence?: EvidenceSpan[]; className?: string; children: ReactNode }) {
+  const spans = evidence ?? [];
+  return (
+    <div className={clsx("relative group/evidence", className)}>
+      {children}
+      <div className="pointer-events-none absolute left-0 right-0 top-full z-20 mt-2 p-3 rounded-xl bg-gray-950/95 border border-white/10 shadow-xl space-y-2 opacity-0 group-hover/evidence:opacity-100 transition-opacity">
+        {spans.length === 0 ? (
+          <p className="text-xs text-gray-500">No supporting quote from the paper.</p>
+        ) : spans.map((span, i) => (
+          <div key={i} className="space-y-1">
+            <p className="text-xs text-gray-300 italic leading-relaxed flex gap-2">
+              <Quote className="w-3 h-3 flex-shrink-0 mt-0.5 text-gray-500" />
+              <span>{span.quote}</span>
+            </p>
+            {span.verified ? (
+              <p className="text-[10px] text-emerald-400 flex items-center gap-1 pl-5">
+                <CheckCircle2 className="w-3 h-3" /> Found in paper (chars {span.start}–{span.end})
+              </p>
+            ) : (
+              <p className="text-[10px] text-amber-400 flex items-center gap-1 pl-5">
+                <AlertTriangle className="w-3 h-3" /> Not found in paper text
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
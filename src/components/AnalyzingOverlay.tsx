@@ -1,94 +1,181 @@
 import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Loader2, Sparkles } from "lucide-react";
-
-// Steps for the loading effect
-const LOADING_STEPS = [
-  "Deep Scanning Research Paper...",
-  "Extracting Core Equations...",
-  "Identifying Simulation Variables...",
-  "Synthesizing Prototype Architecture...",
-  "Optimizing Render Logic...",
-  "Finalizing Agent Instruction Set..."
-];
-
-export default function AnalyzingOverlay({ isAnalyzing }: { isAnalyzing: boolean }) {
-  const [stepIndex, setStepIndex] = useState(0);
-  const [dots, setDots] = useState("");
+import { Loader2, Sparkles, TrendingUp } from "lucide-react";
+import type { AnalysisStage, AnalysisStreamEvent } from "@/lib/analysis";
 
-  useEffect(() => {
-    if (!isAnalyzing) {
-      setStepIndex(0);
-      return;
+// ============================================================================
+// PROGRESS STATE
+// ============================================================================
+
+// "uploading" is client-side: the PDF is being sent and its text extracted
+export type AnalysisProgressStage = AnalysisStage | "uploading";
+
+export interface AnalysisProgress {
+  stage: AnalysisProgressStage;
+  message: string;
+  chunks?: { completed: number; total: number };
+  // Top-level analysis fields received so far
+  partial: Record<string, unknown>;
+}
+
+export function startProgress(stage: AnalysisProgressStage, message: string): AnalysisProgress {
+  return { stage, message, partial: {} };
+}
+
+/**
+ * Fold one event from an analysis NDJSON stream into the progress state
+ */
+export function applyAnalysisEvent(progress: AnalysisProgress | null, event: AnalysisStreamEvent): AnalysisProgress {
+  const current = progress ?? startProgress("analyzing", "Reading the paper");
+  switch (event.type) {
+    case "stage":
+      return { ...current, stage: event.stage, message: event.message };
+    case "chunk":
+      return { ...current, chunks: { completed: event.completed, total: event.total } };
+    case "partial":
+      return { ...current, partial: { ...current.partial, [event.field]: event.value } };
+    default:
+      return current;
+  }
+}
+
+// Number of top-level fields in a full analysis, for progress while streaming
+const ANALYSIS_FIELD_COUNT = 15;
+
+function progressPercent(progress: AnalysisProgress): number {
+  const fields = Math.min(Object.keys(progress.partial).length / ANALYSIS_FIELD_COUNT, 1);
+  switch (progress.stage) {
+    case "uploading": return 5;
+    case "extracting": return 10;
+    case "analyzing": return 15 + fields * 65;
+    case "reading_chunks": {
+      const { completed = 0, total = 1 } = progress.chunks ?? {};
+      return 15 + (completed / total) * 40;
     }
+    case "merging": return 55 + fields * 25;
+    case "validating": return 85;
+    case "repairing": return 88;
+    case "verifying": return 92;
+    case "saved": return 100;
+  }
+}
 
-    // Cycle through steps
-    const stepInterval = setInterval(() => {
-      setStepIndex(prev => (prev + 1) % LOADING_STEPS.length);
-    }, 2500);
+// ============================================================================
+// OVERLAY
+// ============================================================================
+
+interface AnalyzingOverlayProps {
+  isAnalyzing: boolean;
+  progress?: AnalysisProgress | null;
+}
+
+export default function AnalyzingOverlay({ isAnalyzing, progress }: AnalyzingOverlayProps) {
+  const [dots, setDots] = useState("");
+
+  useEffect(() => {
+    if (!isAnalyzing) return;
 
     // Animated dots ...
     const dotInterval = setInterval(() => {
         setDots(prev => prev.length >= 3 ? "" : prev + ".");
     }, 500);
 
-    return () => {
-      clearInterval(stepInterval);
-      clearInterval(dotInterval);
-    };
+    return () => clearInterval(dotInterval);
   }, [isAnalyzing]);
 
   if (!isAnalyzing) return null;
 
+  const message = progress?.message ?? "Preparing analysis";
+  const percent = progress ? progressPercent(progress) : 0;
+  const partial = progress?.partial ?? {};
+  const hasPartial = typeof partial.title === "string";
+  const count = (field: string) => Array.isArray(partial[field]) ? (partial[field] as unknown[]).length : null;
+  const counts = [
+    { label: "claims", value: count("key_claims") },
+    { label: "hypotheses", value: count("testable_hypotheses") },
+    { label: "equations", value: count("key_equations") },
+    { label: "prototype ideas", value: count("simulation_possibilities") },
+  ].filter(c => c.value !== null);
+
   return (
     <div className="absolute inset-0 z-50 rounded-2xl overflow-hidden bg-black/90 backdrop-blur-xl flex flex-col items-center justify-center border border-white/10">
-      
+
       {/* Background ambient glow */}
       <div className="absolute inset-0 bg-blue-500/5 animate-pulse-slow"></div>
-      
-      <div className="relative z-10 flex flex-col items-center gap-8 max-w-md w-full px-6">
-        
-        {/* Animated Icon Container */}
-        <div className="relative">
-          <div className="absolute -inset-4 bg-gradient-to-r from-blue-500 to-purple-500 opacity-20 blur-xl animate-pulse rounded-full"></div>
-          <div className="relative bg-black border border-white/10 p-6 rounded-2xl shadow-2xl">
-              <Loader2 className="w-12 h-12 text-blue-400 animate-spin" />
-              <div className="absolute top-0 right-0 -mt-2 -mr-2">
-                  <Sparkles className="w-6 h-6 text-purple-400 animate-bounce" />
-              </div>
+
+      <div className="relative z-10 flex flex-col items-center gap-6 max-w-md w-full px-6">
+
+        {/* Animated Icon Container (makes room for partial results once they arrive) */}
+        {!hasPartial && (
+          <div className="relative">
+            <div className="absolute -inset-4 bg-gradient-to-r from-blue-500 to-purple-500 opacity-20 blur-xl animate-pulse rounded-full"></div>
+            <div className="relative bg-black border border-white/10 p-6 rounded-2xl shadow-2xl">
+                <Loader2 className="w-12 h-12 text-blue-400 animate-spin" />
+                <div className="absolute top-0 right-0 -mt-2 -mr-2">
+                    <Sparkles className="w-6 h-6 text-purple-400 animate-bounce" />
+                </div>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Text Status */}
-        <div className="text-center space-y-2 h-20">
+        <div className="text-center space-y-2 min-h-20">
             <AnimatePresence mode="wait">
-                <motion.h3 
-                    key={stepIndex}
+                <motion.h3
+                    key={message}
                     initial={{ opacity: 0, y: 10, scale: 0.95 }}
                     animate={{ opacity: 1, y: 0, scale: 1 }}
                     exit={{ opacity: 0, y: -10, scale: 0.95 }}
                     className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400"
                 >
-                    {LOADING_STEPS[stepIndex]}
+                    {message}
                 </motion.h3>
             </AnimatePresence>
             <p className="text-gray-500 text-sm font-mono uppercase tracking-widest">
-                Processing {dots}
+                {progress?.chunks && progress.stage === "reading_chunks"
+                  ? `Part ${progress.chunks.completed} of ${progress.chunks.total} done`
+                  : "Processing"} {dots}
             </p>
         </div>
 
         {/* Progress Bar */}
         <div className="w-full h-1 bg-white/10 rounded-full overflow-hidden">
-            <motion.div 
+            <motion.div
                className="h-full bg-gradient-to-r from-blue-500 to-purple-500"
                initial={{ width: "0%" }}
-               animate={{ width: "100%" }}
-               transition={{ duration: 15, repeat: Infinity, ease: "linear" }}
+               animate={{ width: `${percent}%` }}
+               transition={{ duration: 0.6, ease: "easeOut" }}
             />
         </div>
 
+        {/* Partial Results */}
+        {hasPartial && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full p-4 rounded-xl bg-white/5 border border-white/10 space-y-2 text-left"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <p className="text-sm font-semibold text-white line-clamp-2">{String(partial.title)}</p>
+              {typeof partial.breakthrough_score === "number" && (
+                <span className="flex items-center gap-1 text-xs font-mono text-emerald-400 flex-shrink-0">
+                  <TrendingUp className="w-3 h-3" />
+                  {partial.breakthrough_score}
+                </span>
+              )}
+            </div>
+            {typeof partial.summary === "string" && (
+              <p className="text-xs text-gray-400 line-clamp-3">{partial.summary}</p>
+            )}
+            {counts.length > 0 && (
+              <p className="text-xs text-gray-500 font-mono">
+                {counts.map(c => `${c.value} ${c.label}`).join(" · ")}
+              </p>
+            )}
+          </motion.div>
+        )}
+
       </div>
     </div>
   );
 }
-
@@ -4,7 +4,7 @@ import { motion } from "framer-motion";
 import { ArxivPaper, formatArxivDate, getRelativeTime } from "@/lib/arxiv";
 import { 
   Users, Calendar, ExternalLink, Download, 
-  Sparkles, Clock
+  Sparkles, Clock, Zap, Wrench
 } from "lucide-react";
 import clsx from "clsx";
 
@@ -12,6 +12,7 @@ interface PaperCardProps {
   paper: ArxivPaper;
   onAnalyze: (paper: ArxivPaper) => void;
   breakthroughScore?: number; // Optional pre-computed score
+  prototypability?: number; // Optional pre-computed score (1-100)
   isAnalyzing?: boolean;
   disabled?: boolean; // Disable analyze button (e.g., when another paper is being analyzed)
   variant?: "default" | "compact" | "featured";
@@ -37,10 +38,37 @@ function getCategoryColor(category: string): { bg: string; text: string; border:
   return { bg: "bg-gray-500/10", text: "text-gray-400", border: "border-gray-500/30" };
 }
 
+// Predicted breakthrough score / prototypability pills
+function ScoreBadges({ breakthroughScore, prototypability }: { breakthroughScore?: number; prototypability?: number }) {
+  return (
+    <>
+      {breakthroughScore !== undefined && (
+        <div
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400 text-xs font-bold"
+          title="Predicted breakthrough score"
+        >
+          <Zap className="w-3 h-3" />
+          {breakthroughScore}
+        </div>
+      )}
+      {prototypability !== undefined && (
+        <div
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-400 text-xs font-bold"
+          title="Predicted prototypability"
+        >
+          <Wrench className="w-3 h-3" />
+          {prototypability}
+        </div>
+      )}
+    </>
+  );
+}
+
 export default function PaperCard({ 
   paper, 
   onAnalyze, 
   breakthroughScore,
+  prototypability,
   isAnalyzing = false,
   disabled = false,
   variant = "default" 
@@ -89,12 +117,13 @@ export default function PaperCard({
         </div>
 
         <div className="relative z-10 space-y-4">
-          {/* Category & Date */}
+          {/* Category, Date & Scores */}
           <div className="flex items-center gap-3 text-sm">
             <span className={clsx("px-2 py-1 rounded-lg font-mono text-xs", categoryColor.bg, categoryColor.text)}>
               {paper.primaryCategory}
             </span>
             <span className="text-gray-500">{formatArxivDate(paper.published)}</span>
+            <ScoreBadges breakthroughScore={breakthroughScore} prototypability={prototypability} />
           </div>
 
           {/* Title */}
@@ -170,20 +199,16 @@ export default function PaperCard({
       whileHover={{ scale: 1.01, y: -2 }}
       className="group relative flex flex-col p-5 rounded-2xl bg-white/5 border border-white/5 hover:border-white/15 hover:bg-white/8 transition-all overflow-hidden"
     >
-      {/* Recent Badge */}
-      {isRecent && (
-        <div className="absolute top-3 right-3 flex items-center gap-1 px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-400 text-xs font-medium">
-          <Clock className="w-3 h-3" />
-          {relativeTime}
-        </div>
-      )}
-
-      {/* Breakthrough Score (if available) */}
-      {breakthroughScore !== undefined && (
-        <div className="absolute top-3 right-3 flex items-center gap-1 px-2 py-1 rounded-lg bg-amber-500/20 text-amber-400 text-xs font-bold">
-          {breakthroughScore}
-        </div>
-      )}
+      {/* Recent Badge & Scores (if available) */}
+      <div className="absolute top-3 right-3 flex items-center gap-1.5">
+        <ScoreBadges breakthroughScore={breakthroughScore} prototypability={prototypability} />
+        {isRecent && (
+          <div className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-400 text-xs font-medium">
+            <Clock className="w-3 h-3" />
+            {relativeTime}
+          </div>
+        )}
+      </div>
 
       <div className="space-y-3 flex-1">
         {/* Category & ID */}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Folder, Plus, Tag, X } from "lucide-react";
+import clsx from "clsx";
+
+interface CollectionOption {
+  id: string;
+  name: string;
+}
+
+interface PaperLabelsProps {
+  hash: string;
+  initialTags: string[];
+  initialCollectionIds: string[];
+}
+
+// Tag and collection editor shown on a paper's page
+export default function PaperLabels({ hash, initialTags, initialCollectionIds }: PaperLabelsProps) {
+  const [tags, setTags] = useState(initialTags);
+  const [collectionIds, setCollectionIds] = useState(initialCollectionIds);
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/collections")
+      .then(res => res.json())
+      .then(data => setCollections(data.collections || []))
+      .catch(e => console.error("Failed to load collections", e));
+  }, []);
+
+  const save = async (update: { tags?: string[]; collection_ids?: string[] }) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/papers/${encodeURIComponent(hash)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Update failed");
+      setTags(data.tags);
+      setCollectionIds(data.collection_ids);
+    } catch (e) {
+      console.error("Failed to update labels", e);
+      alert("Failed to update tags.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = tagInput.trim();
+    if (!tag) return;
+    setTagInput("");
+    save({ tags: [...tags, tag] });
+  };
+
+  const toggleCollection = (id: string) => {
+    save({
+      collection_ids: collectionIds.includes(id)
+        ? collectionIds.filter(c => c !== id)
+        : [...collectionIds, id],
+    });
+  };
+
+  const handleNewCollection = async () => {
+    const name = prompt("Collection name");
+    if (!name?.trim()) return;
+
+    try {
+      const res = await fetch("/api/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Create failed");
+      setCollections(prev => [...prev, data.collection].sort((a, b) => a.name.localeCompare(b.name)));
+      save({ collection_ids: [...collectionIds, data.collection.id] });
+    } catch (e) {
+      console.error("Failed to create collection", e);
+      alert("Failed to create collection.");
+    }
+  };
+
+  return (
+    <div className={clsx("space-y-3 p-4 rounded-xl bg-white/5 border border-white/10 text-sm", isSaving && "opacity-70")}>
+      {/* Collections */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Folder className="w-4 h-4 text-gray-500" />
+        {collections.map(collection => (
+          <button
+            key={collection.id}
+            onClick={() => toggleCollection(collection.id)}
+            disabled={isSaving}
+            className={clsx(
+              "px-2.5 py-1 rounded-full border text-xs transition-colors",
+              collectionIds.includes(collection.id)
+                ? "bg-blue-500/20 border-blue-500/40 text-blue-300"
+                : "bg-white/5 border-white/10 text-gray-400 hover:bg-white/10"
+            )}
+          >
+            {collection.name}
+          </button>
+        ))}
+        <button
+          onClick={handleNewCollection}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-2.5 py-1 rounded-full border border-dashed border-white/20 text-xs text-gray-400 hover:text-white hover:border-white/40 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          New collection
+        </button>
+      </div>
+
+      {/* Tags */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Tag className="w-4 h-4 text-gray-500" />
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/30 text-xs text-emerald-300"
+          >
+            {tag}
+            <button
+              onClick={() => save({ tags: tags.filter(t => t !== tag) })}
+              disabled={isSaving}
+              className="hover:text-white"
+              title="Remove tag"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <form onSubmit={handleAddTag}>
+          <input
+            value={tagInput}
+            onChange={e => setTagInput(e.target.value)}
+            placeholder="Add tag..."
+            disabled={isSaving}
+            className="w-32 bg-transparent border-b border-white/10 px-1 py-0.5 text-xs text-gray-300 placeholder:text-gray-600 focus:outline-none focus:border-blue-500/50"
+          />
+        </form>
+      </div>
+    </div>
+  );
+}
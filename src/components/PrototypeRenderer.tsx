@@ -2,6 +2,7 @@
 
 import React, { useEffect, useRef, useState, useCallback, memo } from "react";
 import { AlertCircle, RefreshCw, X } from "lucide-react";
+import { PROTOTYPE_IMPORT_MAP } from "@/lib/prototype-imports";
 
 interface PrototypeRendererProps {
   code: string;
@@ -44,28 +45,7 @@ const PrototypeRenderer = memo(function PrototypeRenderer({ code, onRenderStatus
           
           <!-- Import Map: Extended library support -->
           <script type="importmap">
-          {
-            "imports": {
-              "react": "https://esm.sh/react@18.2.0",
-              "react-dom/client": "https://esm.sh/react-dom@18.2.0/client",
-              "recharts": "https://esm.sh/recharts@2.12.7?deps=react@18.2.0,react-dom@18.2.0",
-              "lucide-react": "https://esm.sh/lucide-react@0.368.0?deps=react@18.2.0,react-dom@18.2.0",
-              "framer-motion": "https://esm.sh/framer-motion@11.0.24?deps=react@18.2.0,react-dom@18.2.0",
-              "clsx": "https://esm.sh/clsx@2.1.0",
-              "tailwind-merge": "https://esm.sh/tailwind-merge@2.2.2",
-              "d3": "https://esm.sh/d3@7.8.5",
-              "d3-scale": "https://esm.sh/d3-scale@4.0.2",
-              "d3-shape": "https://esm.sh/d3-shape@3.2.0",
-              "d3-array": "https://esm.sh/d3-array@3.2.4",
-              "d3-interpolate": "https://esm.sh/d3-interpolate@3.0.1",
-              "three": "https://esm.sh/three@0.162.0",
-              "@react-three/fiber": "https://esm.sh/@react-three/fiber@8.15.19?deps=react@18.2.0,react-dom@18.2.0,three@0.162.0",
-              "@react-three/drei": "https://esm.sh/@react-three/drei@9.99.0?deps=react@18.2.0,react-dom@18.2.0,three@0.162.0",
-              "mathjs": "https://esm.sh/mathjs@12.4.0",
-              "lodash": "https://esm.sh/lodash@4.17.21",
-              "zustand": "https://esm.sh/zustand@4.5.2?deps=react@18.2.0"
-            }
-          }
+          ${JSON.stringify({ imports: PROTOTYPE_IMPORT_MAP }, null, 2)}
           </script>
 
           <!-- Babel for client-side JSX compilation -->
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Gauge, Loader2 } from "lucide-react";
+import clsx from "clsx";
+import type { UsageRecord, UsageSummary, UsageTotals } from "@/lib/db";
+
+interface UsagePanelProps {
+  // Show usage for a paper (its analysis and prototypes) or one prototype
+  paperHash?: string;
+  prototypeId?: string;
+  // Bump to refetch while the panel is open
+  refreshKey?: number;
+}
+
+const TASK_LABELS: Record<string, string> = {
+  analysis: "Analysis",
+  analysis_chunk: "Long-paper chunks",
+  quick_analysis: "Quick analysis",
+  agent: "Prototype agent",
+};
+
+function formatCost(totals: UsageTotals) {
+  if (totals.calls > 0 && totals.unpriced === totals.calls) return "—";
+  const cost = totals.cost_usd < 0.01 && totals.cost_usd > 0
+    ? "<$0.01"
+    : `$${totals.cost_usd.toFixed(2)}`;
+  return totals.unpriced > 0 ? `${cost}+` : cost;
+}
+
+function formatTokens(n: number) {
+  return n >= 1000 ? `${(n / 1000).toFixed(n >= 100_000 ? 0 : 1)}k` : String(n);
+}
+
+function formatLatency(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+// Model calls, tokens and estimated cost, shown from a header button
+export default function UsagePanel({ paperHash, prototypeId, refreshKey = 0 }: UsagePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [recent, setRecent] = useState<UsageRecord[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const params = new URLSearchParams({ limit: "10" });
+    if (paperHash) params.set("paper", paperHash);
+    if (prototypeId) params.set("prototype", prototypeId);
+
+    fetch(`/api/usage?${params}`)
+      .then(res => res.json())
+      .then(data => {
+        setSummary(data.summary ?? null);
+        setRecent(data.recent ?? []);
+      })
+      .catch(e => console.error("Failed to load usage", e));
+  }, [isOpen, paperHash, prototypeId, refreshKey]);
+
+  const tasks = summary ? Object.entries(summary.by_task).sort((a, b) => b[1].cost_usd - a[1].cost_usd) : [];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={clsx(
+          "flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors",
+          isOpen ? "bg-white/10 text-white" : "text-gray-400 hover:bg-white/10 hover:text-white"
+        )}
+        title="Model usage and cost"
+      >
+        <Gauge className="w-3.5 h-3.5" />
+        Usage
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-[380px] max-h-[70vh] overflow-y-auto rounded-xl bg-gray-900/95 backdrop-blur border border-white/10 shadow-2xl z-50 text-xs">
+          {!summary ? (
+            <div className="p-4 flex items-center gap-2 text-gray-500">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading usage...
+            </div>
+          ) : summary.calls === 0 ? (
+            <p className="p-4 text-gray-500">No model calls recorded yet.</p>
+          ) : (
+            <>
+              <div className="p-4 grid grid-cols-3 gap-3 border-b border-white/5">
+                <div>
+                  <p className="text-gray-500">Est. cost</p>
+                  <p className="text-lg font-semibold text-white">{formatCost(summary)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Tokens in / out</p>
+                  <p className="text-lg font-semibold text-white">
+                    {formatTokens(summary.input_tokens)} / {formatTokens(summary.output_tokens)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Calls</p>
+                  <p className="text-lg font-semibold text-white">{summary.calls}</p>
+                </div>
+                <p className="col-span-3 text-gray-500">
+                  Avg. {formatLatency(summary.latency_ms / summary.calls)} per call
+                  {summary.retries > 0 && ` · ${summary.retries} retries`}
+                  {summary.failed > 0 && <span className="text-red-400"> · {summary.failed} failed</span>}
+                </p>
+                {(summary.estimated > 0 || summary.unpriced > 0) && (
+                  <p className="col-span-3 text-amber-400/80">
+                    {summary.estimated > 0 && `${summary.estimated} calls with estimated token counts. `}
+                    {summary.unpriced > 0 && `${summary.unpriced} calls to models without a known price.`}
+                  </p>
+                )}
+              </div>
+
+              <table className="w-full">
+                <tbody className="divide-y divide-white/5">
+                  {tasks.map(([task, totals]) => (
+                    <tr key={task}>
+                      <td className="px-4 py-2 text-gray-300">{TASK_LABELS[task] ?? task}</td>
+                      <td className="py-2 text-gray-500 text-right">{totals.calls}×</td>
+                      <td className="py-2 text-gray-500 text-right font-mono">
+                        {formatTokens(totals.input_tokens + totals.output_tokens)}
+                      </td>
+                      <td className="px-4 py-2 text-white text-right font-mono">{formatCost(totals)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="border-t border-white/10">
+                <p className="px-4 pt-3 pb-1 text-gray-500 uppercase tracking-wider text-[10px]">Recent calls</p>
+                <ol className="divide-y divide-white/5">
+                  {recent.map(call => (
+                    <li key={call.id} className="px-4 py-2 flex items-center gap-2">
+                      <span className={clsx("truncate font-mono", call.error ? "text-red-400" : "text-gray-300")} title={call.error}>
+                        {call.model}
+                      </span>
+                      {call.attempt > 0 && <span className="text-amber-400">retry {call.attempt}</span>}
+                      <span className="ml-auto text-gray-500 font-mono whitespace-nowrap">
+                        {formatTokens(call.input_tokens)}/{formatTokens(call.output_tokens)} · {formatLatency(call.latency_ms)}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
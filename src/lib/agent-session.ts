@@ -0,0 +1,130 @@
+import { getLlmProvider, userMessage, type LlmCallContext, type LlmMessage } from "./llm";
+import { estimateTokens } from "./llm/usage";
+import { getPrompt, type PromptVersions } from "./prompts";
+import type { AgentSession } from "./storage";
+
+// ============================================================================
+// AGENT SESSION CONTEXT
+// ============================================================================
+//
+// What the agent model gets to see of a prototype's conversation (see
+// AgentSession): a summary of older turns, added to the system prompt, plus
+// the recent messages. Once the recent messages pass the token budget, the
+// oldest turns are folded into the summary; if summarizing fails they are
+// dropped. The transcript itself is kept for display.
+//
+// The current code and the paper outline are added to the system prompt on
+// every turn by /api/agent, so trimming never loses them.
+// ============================================================================
+
+// Token budget for the recent messages; SCIPROTO_AGENT_CONTEXT_TOKENS overrides
+export const AGENT_CONTEXT_TOKENS = Number(process.env.SCIPROTO_AGENT_CONTEXT_TOKENS) || 48_000;
+
+// After trimming, recent messages take at most this share of the budget, so
+// the next few turns don't trigger another summary right away
+const KEEP_SHARE = 0.5;
+
+const CODE_OMITTED = "[omitted - the current code is in the system prompt]";
+
+function messagesTokens(messages: LlmMessage[]) {
+  return estimateTokens(JSON.stringify(messages).length);
+}
+
+// Full component code in old render_prototype calls is the bulk of a long
+// chat; the model only needs the current code, which it gets separately
+function withoutCode(message: LlmMessage): LlmMessage {
+  if (!message.parts.some(part => typeof part.functionCall?.args?.code === "string")) return message;
+  return {
+    ...message,
+    parts: message.parts.map(part =>
+      typeof part.functionCall?.args?.code === "string"
+        ? { ...part, functionCall: { ...part.functionCall, args: { ...part.functionCall.args, code: CODE_OMITTED } } }
+        : part
+    ),
+  };
+}
+
+/**
+ * Messages to send to the model: everything after the summary, with old
+ * prototype code left out when the current code goes in the system prompt
+ */
+export function sessionMessages(session: AgentSession, options: { omitCode: boolean }): LlmMessage[] {
+  const recent = session.messages.slice(session.summarized);
+  return options.omitCode ? recent.map(withoutCode) : recent;
+}
+
+// A turn starts with a user message that isn't a function response
+function isTurnStart(message: LlmMessage) {
+  return message.role === "user" && !message.parts.some(part => part.functionResponse);
+}
+
+// Plain-text transcript of a slice of the conversation, for the summarizer
+function transcript(messages: LlmMessage[]) {
+  return messages.map(message => {
+    const lines = message.parts.flatMap(part => {
+      if (part.text?.trim()) return [part.text.trim()];
+      if (part.functionCall) {
+        const { name, args } = part.functionCall;
+        const detail = name === "render_prototype" ? (args.title ? `"${args.title}"` : "") : JSON.stringify(args);
+        return [`[${name} ${detail}]`.replace(" ]", "]")];
+      }
+      return [];
+    });
+    return lines.length ? `${message.role === "model" ? "Assistant" : "User"}: ${lines.join("\n")}` : "";
+  }).filter(Boolean).join("\n\n");
+}
+
+async function summarize(
+  previous: string | undefined,
+  messages: LlmMessage[],
+  options: { promptVersions?: PromptVersions; context?: LlmCallContext }
+) {
+  const prompt = getPrompt("agent_summary", options.promptVersions?.agent_summary);
+  const input = previous
+    ? `Summary of even earlier turns:\n${previous}\n\nConversation to summarize:\n${transcript(messages)}`
+    : `Conversation to summarize:\n${transcript(messages)}`;
+
+  const response = await getLlmProvider().generate({
+    task: "agent",
+    system: prompt.text,
+    messages: [userMessage(input)],
+    context: options.context,
+  });
+  return response.text.trim();
+}
+
+/**
+ * Fold the oldest turns into the summary if the recent messages are over
+ * budget. The turn in progress (the last one) is always kept whole.
+ * Mutates the session; returns whether it changed.
+ */
+export async function compactSession(
+  session: AgentSession,
+  options: { omitCode: boolean; budget?: number; promptVersions?: PromptVersions; context?: LlmCallContext }
+): Promise<boolean> {
+  const budget = options.budget ?? AGENT_CONTEXT_TOKENS;
+  const recent = sessionMessages(session, options);
+  if (messagesTokens(recent) <= budget) return false;
+
+  // Cut at the first turn start after which the rest fits the kept share
+  const starts = recent.map((message, i) => (i > 0 && isTurnStart(message) ? i : -1)).filter(i => i > 0);
+  const lastStart = starts.length ? starts[starts.length - 1] : 0;
+  const cut = starts.find(i => messagesTokens(recent.slice(i)) <= budget * KEEP_SHARE) ?? lastStart;
+  if (cut <= 0) return false;
+
+  const folded = session.messages.slice(session.summarized, session.summarized + cut);
+  try {
+    session.summary = (await summarize(session.summary, folded, options)) || session.summary;
+    console.log(`[Agent] Summarized ${folded.length} older messages of session ${session.id}`);
+  } catch (error) {
+    // Keep the old summary and drop the turns; a shorter context beats a failed turn
+    console.warn(`[Agent] Failed to summarize session ${session.id}, pruning instead:`, error);
+  }
+
+  // Folded messages stay in the transcript for display, without their code
+  session.messages = session.messages.map((message, i) =>
+    i >= session.summarized && i < session.summarized + cut ? withoutCode(message) : message
+  );
+  session.summarized += cut;
+  return true;
+}
@@ -0,0 +1,137 @@
+/**
+ * Agent Turns
+ *
+ * A chat turn runs independently of the request that started it. Its events
+ * are buffered here and any number of responses can follow them, so a page
+ * that reloads mid-answer reattaches by turn id (GET /api/agent?turnId=).
+ * A client that disconnects only stops listening: the turn still finishes
+ * and is saved with the session. Stopping a turn aborts its model call.
+ *
+ * Turns are kept in memory, so they last as long as the server process.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// One NDJSON line of the /api/agent stream
+export type AgentTurnEvent = Record<string, unknown>;
+
+export interface AgentTurn {
+  id: string;
+  prototypeId: string;
+  events: AgentTurnEvent[];
+  done: boolean;
+  // Passed to the model calls; aborted by stopTurn
+  controller: AbortController;
+  startedAt: number;
+  finishedAt?: number;
+  // Called after each new event, and when the turn finishes
+  listeners: Set<() => void>;
+}
+
+// Finished turns stay readable this long, for pages reattaching late
+const FINISHED_TURN_TTL_MS = 5 * 60 * 1000;
+
+const turns = new Map<string, AgentTurn>();
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+function pruneFinishedTurns() {
+  const cutoff = Date.now() - FINISHED_TURN_TTL_MS;
+  for (const [id, turn] of turns) {
+    if (turn.finishedAt && turn.finishedAt < cutoff) turns.delete(id);
+  }
+}
+
+/**
+ * Register a new turn. `id` is the client's, so it can stop the turn before
+ * the first event arrives; a missing or taken id gets a fresh one.
+ */
+export function startTurn(prototypeId: string, id?: string): AgentTurn {
+  pruneFinishedTurns();
+  const turnId = id && !turns.has(id) ? id : crypto.randomUUID();
+  const turn: AgentTurn = {
+    id: turnId,
+    prototypeId,
+    events: [],
+    done: false,
+    controller: new AbortController(),
+    startedAt: Date.now(),
+    listeners: new Set(),
+  };
+  turns.set(turnId, turn);
+  return turn;
+}
+
+export function getTurn(id: string): AgentTurn | null {
+  return turns.get(id) ?? null;
+}
+
+// The prototype's unfinished turn; there is at most one
+export function runningTurn(prototypeId: string): AgentTurn | null {
+  for (const turn of turns.values()) {
+    if (turn.prototypeId === prototypeId && !turn.done) return turn;
+  }
+  return null;
+}
+
+export function pushTurnEvent(turn: AgentTurn, event: AgentTurnEvent) {
+  if (turn.done) return;
+  turn.events.push(event);
+  for (const listener of turn.listeners) listener();
+}
+
+export function finishTurn(turn: AgentTurn) {
+  if (turn.done) return;
+  turn.done = true;
+  turn.finishedAt = Date.now();
+  for (const listener of turn.listeners) listener();
+}
+
+/**
+ * Abort a running turn's model call; the turn then saves what it has and
+ * finishes. Returns false if there is no such running turn.
+ */
+export function stopTurn(id: string): boolean {
+  const turn = turns.get(id);
+  if (!turn || turn.done) return false;
+  turn.controller.abort();
+  return true;
+}
+
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+/**
+ * NDJSON stream of a turn's events from `from` on, following new ones until
+ * the turn finishes. Cancelling it (the client went away) leaves the turn
+ * running.
+ */
+export function turnStream(turn: AgentTurn, from = 0): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let next = Math.max(0, from);
+  let listener = () => {};
+
+  return new ReadableStream({
+    start(controller) {
+      listener = () => {
+        while (next < turn.events.length) {
+          controller.enqueue(encoder.encode(JSON.stringify(turn.events[next++]) + "\n"));
+        }
+        if (turn.done) {
+          turn.listeners.delete(listener);
+          controller.close();
+        }
+      };
+      turn.listeners.add(listener);
+      listener();
+    },
+    cancel() {
+      turn.listeners.delete(listener);
+    },
+  });
+}
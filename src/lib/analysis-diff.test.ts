@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffAnalyses, diffList, similarity, words } from "./analysis-diff";
+import type { PaperAnalysis } from "./analysis-schema";
+
+describe("similarity", () => {
+  it("is the share of words two texts have in common", () => {
+    assert.equal(similarity(words("Mirror control removes blur"), words("mirror control removes blur")), 1);
+    assert.equal(similarity(words("mirror control"), words("laser power")), 0);
+    assert.equal(similarity(words("mirror control blur"), words("mirror control noise")), 0.5);
+    assert.equal(similarity(words(""), words("anything")), 0);
+  });
+});
+
+describe("diffList", () => {
+  it("marks equal items (ignoring case and spacing) as the same", () => {
+    assert.deepEqual(diffList(["Sparse  attention"], ["sparse attention"]), [
+      { type: "same", from: "Sparse  attention", to: "sparse attention" },
+    ]);
+  });
+
+  it("pairs reworded items and lists the rest as added or removed", () => {
+    const rows = diffList(
+      ["The model converges in linear time", "Results hold for small graphs"],
+      ["The model provably converges in linear time", "A new benchmark is introduced"]
+    );
+    assert.deepEqual(rows, [
+      { type: "changed", from: "The model converges in linear time", to: "The model provably converges in linear time" },
+      { type: "added", to: "A new benchmark is introduced" },
+      { type: "removed", from: "Results hold for small graphs" },
+    ]);
+  });
+
+  it("prefers exact matches over similar ones", () => {
+    const rows = diffList(
+      ["mirror control removes blur", "mirror control removes all blur"],
+      ["mirror control removes all blur"]
+    );
+    assert.deepEqual(rows, [
+      { type: "same", from: "mirror control removes all blur", to: "mirror control removes all blur" },
+      { type: "removed", from: "mirror control removes blur" },
+    ]);
+  });
+});
+
+function analysis(overrides: Partial<PaperAnalysis>): PaperAnalysis {
+  return {
+    title: "Adaptive Optics",
+    summary: "Mirrors fix blur.",
+    breakthrough_score: 60,
+    breakthrough_reasoning: "Incremental.",
+    field: "Optics",
+    difficulty_to_understand: "medium",
+    key_claims: [],
+    key_equations: [],
+    testable_hypotheses: [],
+    simulation_possibilities: [],
+    limitations: [],
+    ...overrides,
+  } as PaperAnalysis;
+}
+
+describe("diffAnalyses", () => {
+  it("reports the score change, changed text fields and list changes", () => {
+    const diff = diffAnalyses(
+      analysis({ limitations: ["Only tested in simulation"] }),
+      analysis({
+        breakthrough_score: 72,
+        summary: "Deformable mirrors remove atmospheric blur.",
+        limitations: ["Only tested in simulation", "Needs a bright guide star"],
+      })
+    );
+
+    assert.deepEqual(diff.score, { from: 60, to: 72, delta: 12 });
+    assert.deepEqual(diff.fields, [
+      { field: "summary", from: "Mirrors fix blur.", to: "Deformable mirrors remove atmospheric blur." },
+    ]);
+    assert.deepEqual(diff.lists.limitations.map(row => row.type), ["same", "added"]);
+    assert.equal(diff.changes, 1);
+  });
+
+  it("compares equations by name and notation", () => {
+    const equation = { name: "Strehl ratio", latex: "S = e^{-\\sigma^2}", description: "Image quality", variables: [], evidence: [] };
+    const diff = diffAnalyses(
+      analysis({ key_equations: [equation] }),
+      analysis({ key_equations: [{ ...equation, description: "Reworded description" }] })
+    );
+    assert.deepEqual(diff.lists.key_equations.map(row => row.type), ["same"]);
+    assert.equal(diff.changes, 0);
+  });
+});
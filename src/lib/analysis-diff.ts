@@ -0,0 +1,146 @@
+/**
+ * Analysis Diff
+ *
+ * Compares two analyses of the same paper (e.g. before and after a
+ * re-analysis with another model). List items are matched by text: exact
+ * matches are unchanged, similar ones (shared words) count as reworded, and
+ * the rest were added or dropped. Rows come out ready for a side-by-side view.
+ */
+
+import type { PaperAnalysis } from "./analysis-schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiffRowType = "same" | "changed" | "added" | "removed";
+
+// One line of a side-by-side comparison; `from` is missing for added rows,
+// `to` for removed ones
+export interface DiffRow {
+  type: DiffRowType;
+  from?: string;
+  to?: string;
+}
+
+export type AnalysisListField = "key_claims" | "testable_hypotheses" | "key_equations" | "simulation_possibilities" | "limitations";
+
+export type AnalysisTextField = "title" | "summary" | "breakthrough_reasoning" | "field" | "difficulty_to_understand";
+
+export interface AnalysisDiff {
+  score: { from: number; to: number; delta: number };
+  // Only fields whose text differs
+  fields: { field: AnalysisTextField; from: string; to: string }[];
+  lists: Record<AnalysisListField, DiffRow[]>;
+  // Rows that are not "same", over all lists
+  changes: number;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+// Items sharing at least this fraction of their words are the same item, reworded
+const SIMILARITY_THRESHOLD = 0.5;
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function words(text: string) {
+  return new Set(normalize(text).split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 2));
+}
+
+// Jaccard similarity of the two word sets
+export function similarity(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Match the items of two lists. Rows follow the order of `to`; dropped
+ * items come last.
+ */
+export function diffList(from: string[], to: string[]): DiffRow[] {
+  const matchOf = new Map<number, { index: number; type: "same" | "changed" }>();
+  const used = new Set<number>();
+
+  // Exact (normalized) matches first
+  to.forEach((item, j) => {
+    const i = from.findIndex((candidate, i) => !used.has(i) && normalize(candidate) === normalize(item));
+    if (i >= 0) {
+      used.add(i);
+      matchOf.set(j, { index: i, type: "same" });
+    }
+  });
+
+  // Then the most similar remaining pairs
+  const fromWords = from.map(words);
+  const toWords = to.map(words);
+  const pairs: { i: number; j: number; score: number }[] = [];
+  to.forEach((_, j) => {
+    if (matchOf.has(j)) return;
+    from.forEach((_, i) => {
+      if (used.has(i)) return;
+      const score = similarity(fromWords[i], toWords[j]);
+      if (score >= SIMILARITY_THRESHOLD) pairs.push({ i, j, score });
+    });
+  });
+  for (const { i, j } of pairs.sort((a, b) => b.score - a.score)) {
+    if (used.has(i) || matchOf.has(j)) continue;
+    used.add(i);
+    matchOf.set(j, { index: i, type: "changed" });
+  }
+
+  const rows: DiffRow[] = to.map((item, j) => {
+    const match = matchOf.get(j);
+    return match ? { type: match.type, from: from[match.index], to: item } : { type: "added", to: item };
+  });
+  from.forEach((item, i) => {
+    if (!used.has(i)) rows.push({ type: "removed", from: item });
+  });
+  return rows;
+}
+
+// ============================================================================
+// ANALYSIS DIFF
+// ============================================================================
+
+const TEXT_FIELDS: AnalysisTextField[] = ["title", "summary", "breakthrough_reasoning", "field", "difficulty_to_understand"];
+
+// How each list's items are shown and compared
+const LIST_ITEMS: { [F in AnalysisListField]: (analysis: PaperAnalysis) => string[] } = {
+  key_claims: a => (a.key_claims ?? []).map(c => c.claim),
+  testable_hypotheses: a => (a.testable_hypotheses ?? []).map(h => h.hypothesis),
+  key_equations: a => (a.key_equations ?? []).map(eq => `${eq.name}: ${eq.latex}`),
+  simulation_possibilities: a => (a.simulation_possibilities ?? []).map(sim => sim.title),
+  limitations: a => a.limitations ?? [],
+};
+
+export function diffAnalyses(from: PaperAnalysis, to: PaperAnalysis): AnalysisDiff {
+  const fields = TEXT_FIELDS
+    .map(field => ({ field, from: String(from[field] ?? ""), to: String(to[field] ?? "") }))
+    .filter(f => normalize(f.from) !== normalize(f.to));
+
+  const lists = Object.fromEntries(
+    (Object.keys(LIST_ITEMS) as AnalysisListField[]).map(field => [
+      field,
+      diffList(LIST_ITEMS[field](from), LIST_ITEMS[field](to)),
+    ])
+  ) as Record<AnalysisListField, DiffRow[]>;
+
+  const changes = Object.values(lists).flat().filter(row => row.type !== "same").length;
+
+  return {
+    score: {
+      from: from.breakthrough_score,
+      to: to.breakthrough_score,
+      delta: to.breakthrough_score - from.breakthrough_score,
+    },
+    fields,
+    lists,
+    changes,
+  };
+}
@@ -0,0 +1,174 @@
+import { z } from "zod";
+
+// ============================================================================
+// ENHANCED PAPER ANALYSIS SCHEMA
+// ============================================================================
+
+// Zod schema for type validation and TypeScript types.
+// Kept separate from analysis.ts so storage code can validate stored analyses
+// without pulling in the model client.
+
+// Bump this whenever PaperAnalysisSchema changes shape. Stored analyses carry
+// the version they were produced with; older ones are re-validated on load.
+export const ANALYSIS_SCHEMA_VERSION = 3;
+
+// A verbatim quote from the paper backing an extracted item. The model only
+// supplies the quote; offsets into the stored raw_text and `verified` are set
+// afterwards by verifyEvidence (see evidence.ts).
+const EvidenceSpanSchema = z.object({
+  quote: z.string().describe("A short passage (one sentence or less) copied exactly, word for word, from the paper text"),
+  start: z.number().int().optional().describe("Leave out; filled in after verification"),
+  end: z.number().int().optional().describe("Leave out; filled in after verification"),
+  verified: z.boolean().optional().describe("Leave out; filled in after verification"),
+});
+
+const evidence = (what: string) =>
+  z.array(EvidenceSpanSchema).default([]).describe(`1-2 verbatim quotes from the paper that support this ${what}`);
+
+const KeyClaimSchema = z.object({
+  claim: z.string().describe("A key scientific claim made in the paper"),
+  evidence: evidence("claim"),
+});
+
+const TestableHypothesisSchema = z.object({
+  hypothesis: z.string().describe("A specific, testable claim from the paper"),
+  how_to_test: z.string().describe("How this could be validated in a prototype"),
+  expected_outcome: z.string().describe("What result would confirm the hypothesis"),
+  evidence: evidence("hypothesis"),
+});
+
+const KeyEquationSchema = z.object({
+  name: z.string().describe("Name or identifier for the equation"),
+  latex: z.string().describe("The equation in plain text (no LaTeX delimiters)"),
+  description: z.string().describe("What this equation represents"),
+  variables: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    typical_range: z.string().optional(),
+  })).describe("Variables in the equation that could be adjusted"),
+  evidence: evidence("equation (the equation as printed, or the sentence defining it)"),
+});
+
+const SimulationPossibilitySchema = z.object({
+  title: z.string().describe("Title of the potential simulation"),
+  description: z.string().describe("Description of what the user would interact with"),
+  complexity: z.enum(["Low", "Medium", "High"]).describe("Estimated development complexity"),
+  variables: z.array(z.string()).describe("List of adjustable parameters"),
+  expected_insights: z.string().describe("What users will learn from this simulation"),
+  visualization_type: z.enum(["chart", "animation", "interactive", "3d", "diagram"]).describe("Best visualization approach"),
+});
+
+// Which parts of the paper text the analysis was based on. Filled in by
+// analyzePaper, not by the model.
+export const AnalysisCoverageSchema = z.object({
+  strategy: z.enum(["single_pass", "map_reduce"]),
+  total_chars: z.number(),
+  chunks: z.number(),
+  sections_covered: z.array(z.string()),
+  sections_skipped: z.array(z.string()),
+});
+
+export const PaperAnalysisSchema = z.object({
+  // Basic Info
+  title: z.string().describe("The title of the research paper"),
+  authors: z.array(z.string()).describe("List of author names if available"),
+  publication_year: z.string().optional().describe("Year of publication if mentioned"),
+  
+  // Summary & Impact
+  summary: z.string().describe("A clear, accessible summary of the paper (2-3 sentences)"),
+  breakthrough_score: z.number().min(1).max(100).describe("Score 1-100 indicating how novel/impactful this paper could be"),
+  breakthrough_reasoning: z.string().describe("Brief explanation of why this score was given"),
+  
+  // Core Content
+  key_claims: z.array(KeyClaimSchema).describe("List of 3-5 key scientific claims made in the paper"),
+  testable_hypotheses: z.array(TestableHypothesisSchema).describe("Specific hypotheses that can be validated"),
+  key_equations: z.array(KeyEquationSchema).describe("Important equations or algorithms from the paper"),
+  
+  // Prototype Suggestions
+  simulation_possibilities: z.array(SimulationPossibilitySchema).describe("Interactive simulations that could be built"),
+  
+  // Context
+  field: z.string().describe("Primary research field (e.g., Machine Learning, Physics, Biology)"),
+  related_fields: z.array(z.string()).describe("Other fields this research connects to"),
+  limitations: z.array(z.string()).describe("Limitations or caveats mentioned in the paper"),
+  
+  // Practical
+  difficulty_to_understand: z.enum(["Beginner", "Intermediate", "Advanced", "Expert"]).describe("How accessible is this paper"),
+  prerequisites: z.array(z.string()).describe("Knowledge needed to understand this paper"),
+
+  // Added in version 2; missing on older analyses
+  coverage: AnalysisCoverageSchema.optional(),
+});
+
+// Notes mined from one chunk of a long paper (map step of analyzePaper)
+export const ChunkNotesSchema = z.object({
+  summary: z.string().describe("What this part of the paper covers and finds (2-4 sentences)"),
+  key_claims: z.array(KeyClaimSchema).describe("Scientific claims made in this part"),
+  testable_hypotheses: z.array(TestableHypothesisSchema).describe("Hypotheses from this part that can be validated"),
+  key_equations: z.array(KeyEquationSchema).describe("Every important equation or algorithm in this part"),
+  limitations: z.array(z.string()).describe("Limitations, caveats or failure cases mentioned in this part"),
+  results: z.array(z.string()).describe("Concrete experimental or theoretical results, with numbers where given"),
+});
+
+// Faster, less detailed analysis for browsing
+export const QuickAnalysisSchema = z.object({
+  title: z.string().describe("The title of the research paper"),
+  summary: z.string().describe("One-sentence summary"),
+  breakthrough_score: z.number().min(1).max(100).describe("Score 1-100 indicating how novel/impactful this paper could be"),
+  prototypability: z.number().min(1).max(100).describe("Score 1-100 for how well the paper's ideas could be shown as an interactive simulation (tunable equations, algorithms that can run step by step)"),
+  field: z.string().describe("Primary research field"),
+  key_insight: z.string().describe("The single most important insight"),
+});
+
+// Quick analyses of several papers in one call (Discover triage)
+export const QuickAnalysisBatchSchema = z.object({
+  papers: z.array(QuickAnalysisSchema.extend({
+    id: z.string().describe("The id the paper was given under, unchanged"),
+  })).describe("One entry per paper, in the order given"),
+});
+
+export type PaperAnalysis = z.infer<typeof PaperAnalysisSchema>;
+export type QuickAnalysis = z.infer<typeof QuickAnalysisSchema>;
+export type QuickAnalysisBatch = z.infer<typeof QuickAnalysisBatchSchema>;
+export type AnalysisCoverage = z.infer<typeof AnalysisCoverageSchema>;
+export type ChunkNotes = z.infer<typeof ChunkNotesSchema>;
+export type EvidenceSpan = z.infer<typeof EvidenceSpanSchema>;
+export type KeyClaim = z.infer<typeof KeyClaimSchema>;
+export type TestableHypothesis = z.infer<typeof TestableHypothesisSchema>;
+export type KeyEquation = z.infer<typeof KeyEquationSchema>;
+export type SimulationPossibility = z.infer<typeof SimulationPossibilitySchema>;
+
+/**
+ * Flatten Zod issues into "path: message" strings for storage and display
+ */
+export function formatAnalysisIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Bring a stored analysis produced with an older ANALYSIS_SCHEMA_VERSION to
+ * the current shape, so it can be validated. Returns the input unchanged
+ * when nothing needs converting.
+ */
+export function upgradeAnalysis(analysis: unknown, fromVersion: number): unknown {
+  if (fromVersion >= 3 || !isRecord(analysis)) return analysis;
+
+  // v3: claims became objects; claims, hypotheses and equations gained evidence
+  const withEvidence = (items: unknown) =>
+    Array.isArray(items) ? items.map(item => isRecord(item) ? { evidence: [], ...item } : item) : items;
+
+  return {
+    ...analysis,
+    key_claims: Array.isArray(analysis.key_claims)
+      ? analysis.key_claims.map(claim => typeof claim === "string" ? { claim, evidence: [] } : claim)
+      : analysis.key_claims,
+    testable_hypotheses: withEvidence(analysis.testable_hypotheses),
+    key_equations: withEvidence(analysis.key_equations),
+  };
+}
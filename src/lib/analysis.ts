@@ -0,0 +1,550 @@
+import { z } from "zod";
+import {
+  ChunkNotesSchema,
+  PaperAnalysisSchema,
+  QuickAnalysisBatchSchema,
+  formatAnalysisIssues,
+  type AnalysisCoverage,
+  type ChunkNotes,
+  type PaperAnalysis,
+  type QuickAnalysis,
+  type QuickAnalysisBatch,
+} from "./analysis-schema";
+import { getLlmProvider, userMessage, type LlmRequest } from "./llm";
+import { completedFields } from "./llm/partial-json";
+import { toJsonSchema } from "./llm/schema";
+import { evidenceStats, verifyEvidence } from "./evidence";
+import { chunkSections, isBackMatter, splitSections, type PaperChunk } from "./sections";
+import { UnknownPromptError, getPrompt, resolvePromptVersions, type PromptId, type PromptVersions } from "./prompts";
+
+export { PaperAnalysisSchema, QuickAnalysisSchema } from "./analysis-schema";
+export type {
+  PaperAnalysis,
+  AnalysisCoverage,
+  EvidenceSpan,
+  KeyClaim,
+  QuickAnalysis,
+  TestableHypothesis,
+  KeyEquation,
+  SimulationPossibility,
+} from "./analysis-schema";
+
+// ============================================================================
+// PROGRESS EVENTS
+// ============================================================================
+//
+// analyzePaper reports what it is doing through onProgress; the analyze
+// routes forward these as NDJSON (see lib/ndjson.ts), adding their own
+// "extracting" / "saved" stages and the final result.
+// ============================================================================
+
+export type AnalysisStage =
+  | "extracting"      // fetching / extracting the paper text (routes)
+  | "analyzing"       // single-pass model call
+  | "reading_chunks"  // map step over a long paper
+  | "merging"         // reduce step
+  | "validating"
+  | "repairing"       // model output failed validation, asking for a fix
+  | "verifying"       // evidence quotes
+  | "saved";
+
+export type AnalysisProgressEvent =
+  | { type: "stage"; stage: AnalysisStage; message: string }
+  | { type: "chunk"; completed: number; total: number; sections: string[] }
+  // A top-level PaperAnalysis field, as soon as the model has produced it
+  | { type: "partial"; field: string; value: unknown };
+
+export type AnalysisStreamEvent =
+  | AnalysisProgressEvent
+  | { type: "result"; analysis: PaperAnalysis; hash?: string; cached?: boolean; [extra: string]: unknown };
+
+export interface AnalyzeOptions {
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  // Paper the model calls are recorded against in usage accounting
+  paperHash?: string;
+  // Use this model for every call instead of the configured ones (re-analysis)
+  model?: string;
+  // Prompt versions to use instead of the defaults (see lib/prompts.ts)
+  promptVersions?: PromptVersions;
+}
+
+// ============================================================================
+// RESPONSE SCHEMAS (derived from the Zod schemas in analysis-schema.ts)
+// ============================================================================
+
+// Coverage is filled in by analyzePaper, never by the model
+const responseSchema = toJsonSchema(PaperAnalysisSchema.omit({ coverage: true }));
+const chunkNotesSchema = toJsonSchema(ChunkNotesSchema);
+const quickAnalysisBatchSchema = toJsonSchema(QuickAnalysisBatchSchema);
+
+// ============================================================================
+// LONG PAPERS (map-reduce)
+// ============================================================================
+//
+// Papers up to SINGLE_PASS_CHARS go to the model in one call. Longer ones are
+// split into section-aware chunks; each chunk is mined for claims, equations
+// and limitations (map), then the notes are merged into one analysis (reduce).
+// Reference lists and acknowledgements are skipped.
+// ============================================================================
+
+const SINGLE_PASS_CHARS = 50000;
+const CHUNK_CHARS = 20000;
+const MAX_CHUNKS = 12;       // very long papers get bigger chunks instead
+const MAP_CONCURRENCY = 3;
+const FRONT_MATTER_CHARS = 4000;
+
+async function analyzeChunk(chunk: PaperChunk, total: number, options: AnalyzeOptions): Promise<ChunkNotes> {
+  const prompt = `This is part ${chunk.index + 1} of ${total} of a research paper, covering: ${chunk.sections.join("; ")}.
+
+---
+PAPER TEXT (PART ${chunk.index + 1}):
+${chunk.text}
+---
+
+Extract the notes following the schema.`;
+
+  return generateValidated({
+    task: "analysis_chunk",
+    system: getPrompt("analysis_chunk", options.promptVersions?.analysis_chunk).text,
+    messages: [userMessage(prompt)],
+    responseSchema: chunkNotesSchema,
+  }, ChunkNotesSchema, { paperHash: options.paperHash, model: options.model });
+}
+
+// Run the map step a few chunks at a time
+async function analyzeChunks(chunks: PaperChunk[], options: AnalyzeOptions): Promise<ChunkNotes[]> {
+  const notes: ChunkNotes[] = [];
+  let completed = 0;
+  for (let i = 0; i < chunks.length; i += MAP_CONCURRENCY) {
+    const batch = chunks.slice(i, i + MAP_CONCURRENCY);
+    notes.push(...await Promise.all(batch.map(async chunk => {
+      const chunkNotes = await analyzeChunk(chunk, chunks.length, options);
+      options.onProgress?.({ type: "chunk", completed: ++completed, total: chunks.length, sections: chunk.sections });
+      return chunkNotes;
+    })));
+  }
+  return notes;
+}
+
+function reducePrompt(frontMatter: string, chunks: PaperChunk[], notes: ChunkNotes[]): string {
+  const parts = chunks.map((chunk, i) =>
+    `### Part ${i + 1}: ${chunk.sections.join("; ")}\n${JSON.stringify(notes[i], null, 2)}`
+  );
+
+  return `Analyze this research paper and provide a comprehensive breakdown.
+The paper is too long to read at once, so you are given its opening and structured notes taken from every part of it.
+
+---
+PAPER OPENING:
+${frontMatter}
+---
+
+---
+NOTES BY PART:
+${parts.join("\n\n")}
+---
+
+Provide your analysis following the schema, combining the notes from all parts.
+Keep every distinct key equation and limitation from the notes; merge duplicates.
+Carry the evidence quotes over from the notes unchanged; do not write new ones.
+For breakthrough_score, carefully consider how novel and impactful this work is compared to existing research.
+For simulation_possibilities, focus on the most impressive and educational demonstrations possible.`;
+}
+
+// The merge occasionally drops list fields the notes did find; put them back
+function backfillFromNotes(analysis: PaperAnalysis, notes: ChunkNotes[]): PaperAnalysis {
+  const unique = <T>(items: T[], key: (item: T) => string) =>
+    [...new Map(items.map(item => [key(item).toLowerCase(), item])).values()];
+
+  if (analysis.key_equations.length === 0) {
+    analysis.key_equations = unique(notes.flatMap(n => n.key_equations), eq => eq.latex);
+  }
+  if (analysis.limitations.length === 0) {
+    analysis.limitations = unique(notes.flatMap(n => n.limitations), lim => lim);
+  }
+  return analysis;
+}
+
+// ============================================================================
+// VALIDATION AND REPAIR
+// ============================================================================
+//
+// Model output is coerced where the intent is obvious (numbers as strings,
+// enum casing, a string where a list was asked for), then validated. If it
+// still fails, the Zod issues are sent back to the model, up to
+// MAX_REPAIR_ATTEMPTS times, before giving up with AnalysisValidationError.
+// ============================================================================
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Model output that still failed validation after every repair attempt
+ */
+export class AnalysisValidationError extends Error {
+  constructor(readonly issues: string[], readonly attempts: number, readonly output: string) {
+    super(`Model output failed validation after ${attempts} attempts: ${issues.slice(0, 3).join("; ")}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ""}`);
+    this.name = "AnalysisValidationError";
+  }
+}
+
+type Json = Record<string, unknown>;
+
+// Match an enum value ignoring case and surrounding whitespace
+function matchEnum(value: unknown, options: readonly string[]): unknown {
+  if (typeof value !== "string") return value;
+  return options.find(option => option.toLowerCase() === value.trim().toLowerCase()) ?? value;
+}
+
+const DIFFICULTIES = PaperAnalysisSchema.shape.difficulty_to_understand.options;
+const SCORE_FIELDS = ["breakthrough_score", "prototypability"];
+const SIMULATION_SHAPE = PaperAnalysisSchema.shape.simulation_possibilities.element.shape;
+
+// 1-100 scores sent as strings or slightly out of range, fixed in place.
+// Anything wilder (a 1-1000 scale, a negative) goes back to the model.
+function coerceScores(json: Json) {
+  for (const field of SCORE_FIELDS) {
+    if (typeof json[field] === "string") {
+      const score = parseFloat(json[field]);
+      if (!Number.isNaN(score)) json[field] = score;
+    }
+    const score = json[field];
+    if (typeof score === "number" && score >= 0 && score <= 110) {
+      json[field] = Math.min(100, Math.max(1, Math.round(score)));
+    }
+  }
+}
+
+/**
+ * Fix recoverable problems in model output before validation. Missing lists
+ * only default to [] when the response was complete; in a truncated one they
+ * are real omissions and go back to the model.
+ */
+function coerceOutput(json: Json, schema: z.ZodObject, complete: boolean): Json {
+  const out: Json = { ...json };
+
+  for (const [field, fieldSchema] of Object.entries(schema.shape)) {
+    const isList = fieldSchema instanceof z.ZodArray;
+    if (!isList) continue;
+    if (out[field] === undefined || out[field] === null) {
+      if (complete) out[field] = [];
+    } else if (typeof out[field] === "string") {
+      out[field] = [out[field]];
+    }
+  }
+
+  if (Array.isArray(out.key_claims)) {
+    out.key_claims = out.key_claims.map(claim => typeof claim === "string" ? { claim, evidence: [] } : claim);
+  }
+
+  coerceScores(out);
+  if (Array.isArray(out.papers)) {
+    for (const paper of out.papers) if (paper && typeof paper === "object") coerceScores(paper);
+  }
+
+  if (typeof out.publication_year === "number") out.publication_year = String(out.publication_year);
+  if (out.difficulty_to_understand !== undefined) {
+    out.difficulty_to_understand = matchEnum(out.difficulty_to_understand, DIFFICULTIES);
+  }
+  if (Array.isArray(out.simulation_possibilities)) {
+    out.simulation_possibilities = out.simulation_possibilities.map(sim => sim && typeof sim === "object"
+      ? {
+          ...sim,
+          complexity: matchEnum(sim.complexity, SIMULATION_SHAPE.complexity.options),
+          visualization_type: matchEnum(sim.visualization_type, SIMULATION_SHAPE.visualization_type.options),
+        }
+      : sim);
+  }
+
+  return out;
+}
+
+type ValidationResult<T> = { ok: true; data: T } | { ok: false; issues: string[] };
+
+function validateOutput<T>(text: string, schema: z.ZodObject): ValidationResult<T> {
+  const body = text.trim().replace(/^```(?:json)?\s*/, "").replace(/\s*```$/, "");
+
+  let json: unknown;
+  let complete = true;
+  try {
+    json = JSON.parse(body || "{}");
+    if (Array.isArray(json)) {
+      // A bare list where the schema wraps one ({ papers: [...] }), else a
+      // single object wrapped in a list
+      const fields = Object.keys(schema.shape);
+      json = fields.length === 1 && schema.shape[fields[0]] instanceof z.ZodArray ? { [fields[0]]: json } : json[0];
+    }
+  } catch {
+    // Cut off mid-response: keep the fields that did arrive
+    json = completedFields(body);
+    complete = false;
+  }
+  if (!json || typeof json !== "object") {
+    return { ok: false, issues: ["Response is not a JSON object"] };
+  }
+
+  const result = schema.safeParse(coerceOutput(json as Json, schema, complete));
+  if (result.success) return { ok: true, data: result.data as T };
+
+  const issues = formatAnalysisIssues(result.error);
+  if (!complete) issues.unshift("Response was cut off before the JSON object was complete");
+  return { ok: false, issues };
+}
+
+function repairPrompt(issues: string[]): string {
+  return `Your JSON response did not match the required schema:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+Return the complete corrected JSON object. Keep everything that was already valid, fix only these problems, and follow the schema exactly.`;
+}
+
+// Model response text. With a progress listener the call is streamed and
+// each top-level field is reported as soon as it is complete.
+async function generateText(request: LlmRequest, options: AnalyzeOptions): Promise<string> {
+  const { onProgress } = options;
+  if (!onProgress) return (await getLlmProvider().generate(request)).text;
+
+  const stream = await getLlmProvider().stream(request);
+  const reported = new Set<string>();
+  let text = "";
+  for await (const event of stream) {
+    if (event.type !== "text") continue;
+    text += event.text;
+    for (const [field, value] of Object.entries(completedFields(text))) {
+      if (reported.has(field)) continue;
+      reported.add(field);
+      onProgress({ type: "partial", field, value });
+    }
+  }
+  return text;
+}
+
+/**
+ * Generate, coerce and validate structured output, feeding validation issues
+ * back to the model until it conforms or MAX_REPAIR_ATTEMPTS run out.
+ */
+async function generateValidated<T>(request: LlmRequest, schema: z.ZodObject, options: AnalyzeOptions): Promise<T> {
+  let messages = request.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const context = { ...(options.paperHash && { paper_hash: options.paperHash }), attempt };
+    const text = await generateText({ ...request, messages, context, ...(options.model && { model: options.model }) }, options);
+    if (request.task === "analysis") {
+      options.onProgress?.({ type: "stage", stage: "validating", message: "Validating the analysis" });
+    }
+
+    const result = validateOutput<T>(text, schema);
+    if (result.ok) return result.data;
+
+    console.warn(`[Analysis] ${request.task} output failed validation (attempt ${attempt + 1}):`, result.issues);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new AnalysisValidationError(result.issues, attempt + 1, text);
+    }
+
+    options.onProgress?.({
+      type: "stage",
+      stage: "repairing",
+      message: `Fixing ${result.issues.length} problem${result.issues.length === 1 ? "" : "s"} in the model output (attempt ${attempt + 1} of ${MAX_REPAIR_ATTEMPTS})`,
+    });
+    messages = [
+      ...messages,
+      { role: "model", parts: [{ text }] },
+      userMessage(repairPrompt(result.issues)),
+    ];
+  }
+}
+
+// ============================================================================
+// MAIN ANALYSIS FUNCTION
+// ============================================================================
+
+async function analyzeSinglePass(paperText: string, options: AnalyzeOptions): Promise<PaperAnalysis> {
+  const userPrompt = `Analyze this research paper and provide a comprehensive breakdown:
+
+---
+PAPER TEXT:
+${paperText}
+---
+
+Provide your analysis following the schema. Be thorough but concise.
+For breakthrough_score, carefully consider how novel and impactful this work is compared to existing research.
+For simulation_possibilities, focus on the most impressive and educational demonstrations possible.`;
+
+  options.onProgress?.({ type: "stage", stage: "analyzing", message: "Reading the paper" });
+  return generateValidated({
+    task: "analysis",
+    system: getPrompt("analysis", options.promptVersions?.analysis).text,
+    messages: [userMessage(userPrompt)],
+    responseSchema,
+  }, PaperAnalysisSchema, options);
+}
+
+async function analyzeMapReduce(paperText: string, chunks: PaperChunk[], options: AnalyzeOptions): Promise<PaperAnalysis> {
+  console.log(`[Analysis] Long paper (${paperText.length} chars), analyzing ${chunks.length} chunks`);
+  options.onProgress?.({
+    type: "stage",
+    stage: "reading_chunks",
+    message: `Long paper: reading it in ${chunks.length} parts`,
+  });
+  const notes = await analyzeChunks(chunks, options);
+
+  options.onProgress?.({ type: "stage", stage: "merging", message: "Merging notes from all parts" });
+  const analysis = await generateValidated<PaperAnalysis>({
+    task: "analysis",
+    system: getPrompt("analysis", options.promptVersions?.analysis).text,
+    messages: [userMessage(reducePrompt(paperText.slice(0, FRONT_MATTER_CHARS), chunks, notes))],
+    responseSchema,
+  }, PaperAnalysisSchema, options);
+  return backfillFromNotes(analysis, notes);
+}
+
+// Check evidence quotes against the paper and log how many held up
+function withVerifiedEvidence(analysis: PaperAnalysis, paperText: string, options: AnalyzeOptions): PaperAnalysis {
+  options.onProgress?.({ type: "stage", stage: "verifying", message: "Checking evidence quotes against the paper" });
+  const verified = verifyEvidence(analysis, paperText);
+  const stats = evidenceStats(verified);
+  console.log(`[Analysis] Evidence: ${stats.verified}/${stats.quotes} quotes found, ${stats.supported}/${stats.items} items supported`);
+  return verified;
+}
+
+// Model the main analysis call uses with these options
+export function analysisModel(options: AnalyzeOptions = {}): string {
+  return options.model ?? getLlmProvider().model("analysis");
+}
+
+// Prompt versions analyzePaper uses for this paper with these options
+export function analysisPromptVersions(paperText: string, options: AnalyzeOptions = {}): PromptVersions {
+  const ids: PromptId[] = paperText.length <= SINGLE_PASS_CHARS ? ["analysis"] : ["analysis", "analysis_chunk"];
+  return resolvePromptVersions(ids, options.promptVersions);
+}
+
+/**
+ * Analyze a paper. The result's `coverage` records whether the paper was
+ * read in one pass or in chunks, and which sections were (not) analyzed.
+ * Evidence quotes are verified against paperText, which is what gets stored
+ * as raw_text, so their offsets index into it.
+ *
+ * Pass onProgress to follow along (stages, chunks, fields as they arrive).
+ */
+export async function analyzePaper(paperText: string, options: AnalyzeOptions = {}): Promise<PaperAnalysis> {
+  const sections = splitSections(paperText);
+
+  try {
+    if (paperText.length <= SINGLE_PASS_CHARS) {
+      const analysis = withVerifiedEvidence(await analyzeSinglePass(paperText, options), paperText, options);
+      const coverage: AnalysisCoverage = {
+        strategy: "single_pass",
+        total_chars: paperText.length,
+        chunks: 1,
+        sections_covered: sections.map(s => s.title),
+        sections_skipped: [],
+      };
+      return { ...analysis, coverage };
+    }
+
+    const included = sections.filter(s => !isBackMatter(s));
+    const includedChars = included.reduce((sum, s) => sum + s.end - s.start, 0);
+    const chunkChars = Math.max(CHUNK_CHARS, Math.ceil(includedChars / MAX_CHUNKS));
+    const chunks = chunkSections(paperText, included, chunkChars);
+
+    const analysis = withVerifiedEvidence(await analyzeMapReduce(paperText, chunks, options), paperText, options);
+    const coverage: AnalysisCoverage = {
+      strategy: "map_reduce",
+      total_chars: paperText.length,
+      chunks: chunks.length,
+      sections_covered: included.map(s => s.title),
+      sections_skipped: sections.filter(isBackMatter).map(s => s.title),
+    };
+    return { ...analysis, coverage };
+  } catch (error) {
+    console.error("Failed to analyze paper:", error);
+    // Keep the remaining issues so callers can show what went wrong
+    if (error instanceof AnalysisValidationError || error instanceof UnknownPromptError) throw error;
+    throw new Error("Failed to analyze paper. Please try again.");
+  }
+}
+
+// ============================================================================
+// QUICK ANALYSIS (Faster, less detailed - for browsing)
+// ============================================================================
+
+// Papers per model call; a page of Discover results fits in one
+const QUICK_BATCH_SIZE = 25;
+const QUICK_TEXT_CHARS = 5000;
+// Abstracts are short; this only guards against pasted full texts
+const QUICK_BATCH_TEXT_CHARS = 2000;
+
+export interface QuickAnalysisInput {
+  id: string;
+  title?: string;
+  // Abstract, or the start of the paper text
+  text: string;
+}
+
+function quickBatchPrompt(papers: QuickAnalysisInput[]): string {
+  const entries = papers.map(paper =>
+    `[id: ${paper.id}]${paper.title ? `\nTitle: ${paper.title}` : ""}\n${paper.text.slice(0, QUICK_BATCH_TEXT_CHARS)}`
+  );
+
+  return `Quickly triage these ${papers.length} research papers from what is given below. For each paper provide:
+1. Title
+2. One-sentence summary
+3. Breakthrough score (1-100)
+4. Prototypability (1-100): how well its core idea could become an interactive simulation
+5. Primary field
+6. The single most important insight
+
+Return one entry per paper with its id unchanged. Judge every paper on its own; don't let the others shift its scores.
+
+${entries.join("\n\n---\n\n")}`;
+}
+
+// "2401.12345v2" and "2401.12345" are the same paper
+const normalizeId = (id: string) => id.trim().toLowerCase().replace(/v\d+$/, "");
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+// Match entries back to the papers asked about: by id, else by title
+// (models sometimes mangle ids), else by position for a single paper
+function matchQuickResults(papers: QuickAnalysisInput[], results: QuickAnalysisBatch["papers"]) {
+  const matched: Record<string, QuickAnalysis> = {};
+  for (const { id, ...analysis } of results) {
+    const paper =
+      papers.find(p => normalizeId(p.id) === normalizeId(id)) ??
+      papers.find(p => p.title && normalizeTitle(p.title) === normalizeTitle(analysis.title)) ??
+      (papers.length === 1 && results.length === 1 ? papers[0] : undefined);
+    if (paper && !matched[paper.id]) matched[paper.id] = analysis;
+  }
+  return matched;
+}
+
+/**
+ * Quick-score several papers from their abstracts, QUICK_BATCH_SIZE per
+ * model call. Papers the model skipped are missing from the result.
+ */
+export async function quickAnalyzePapers(papers: QuickAnalysisInput[]): Promise<Record<string, QuickAnalysis>> {
+  const results: Record<string, QuickAnalysis> = {};
+  for (let i = 0; i < papers.length; i += QUICK_BATCH_SIZE) {
+    const batch = papers.slice(i, i + QUICK_BATCH_SIZE);
+    const output = await generateValidated<QuickAnalysisBatch>({
+      task: "quick_analysis",
+      messages: [userMessage(quickBatchPrompt(batch))],
+      responseSchema: quickAnalysisBatchSchema,
+    }, QuickAnalysisBatchSchema, {});
+
+    const matched = matchQuickResults(batch, output.papers);
+    const skipped = batch.length - Object.keys(matched).length;
+    if (skipped > 0) console.warn(`[Analysis] Quick analysis returned no entry for ${skipped} of ${batch.length} papers`);
+    Object.assign(results, matched);
+  }
+  return results;
+}
+
+export async function quickAnalyzePaper(paperText: string): Promise<QuickAnalysis> {
+  try {
+    const results = await quickAnalyzePapers([{ id: "paper", text: paperText.slice(0, QUICK_TEXT_CHARS) }]);
+    if (!results.paper) throw new Error("No quick analysis returned");
+    return results.paper;
+  } catch (error) {
+    console.error("Quick analysis failed:", error);
+    throw new Error("Quick analysis failed");
+  }
+}
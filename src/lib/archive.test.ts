@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { strToU8, zipSync, type Zippable } from "fflate";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, readLibraryArchive } from "./archive";
+
+const MANIFEST = {
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exported_at: 1,
+  db_schema_version: 4,
+  counts: { analyses: 1, prototypes: 1, revisions: 1, collections: 0, pdfs: 0 },
+};
+
+function json(value: unknown) {
+  return strToU8(JSON.stringify(value));
+}
+
+function archive(files: Zippable = {}) {
+  return zipSync({
+    "manifest.json": json(MANIFEST),
+    "collections.json": json([]),
+    ...files,
+  });
+}
+
+const ANALYSIS = { hash: "abc", filename: "a.pdf", raw_text: "text", analysis_json: "{}", created_at: 1 };
+const PROTOTYPE = { id: "p/1", title: "Demo", code: "x", history: [], created_at: 1, updated_at: 1 };
+const REVISION = { id: "p/1#000001", prototype_id: "p/1", seq: 1, code: "x", origin: "initial", created_at: 1 };
+
+describe("readLibraryArchive", () => {
+  it("reads the manifest, entries, revisions and PDFs", () => {
+    const { manifest, snapshot, pdfs } = readLibraryArchive(archive({
+      "analyses/abc.json": json(ANALYSIS),
+      "prototypes/p%2F1.json": json(PROTOTYPE),
+      "revisions/p%2F1.json": json([REVISION]),
+      "pdfs/abc.pdf": strToU8("%PDF-1.4"),
+    }));
+
+    assert.equal(manifest.counts.analysis_revisions, 0);
+    assert.deepEqual(snapshot.analyses, [ANALYSIS]);
+    assert.deepEqual(snapshot.prototypes, [PROTOTYPE]);
+    assert.deepEqual(snapshot.revisions, [REVISION]);
+    assert.deepEqual(snapshot.analysisRevisions, []);
+    assert.deepEqual(Object.keys(pdfs), ["abc"]);
+  });
+
+  it("rejects archives without a manifest or from another format", () => {
+    assert.throws(() => readLibraryArchive(zipSync({ "collections.json": json([]) })), /no manifest\.json/);
+    assert.throws(() => readLibraryArchive(zipSync({ "manifest.json": json({ ...MANIFEST, format: "other" }) })));
+  });
+
+  it("names the entry that failed validation", () => {
+    assert.throws(
+      () => readLibraryArchive(archive({ "analyses/abc.json": json({ hash: "abc" }) })),
+      /Invalid archive entry analyses\/abc\.json/
+    );
+  });
+
+  it("stops unzipping once the entries inflate past the limit", () => {
+    const zip = archive({ "pdfs/big.pdf": new Uint8Array(64 * 1024) });
+    assert.equal(readLibraryArchive(zip, 128 * 1024).pdfs.big.length, 64 * 1024);
+    assert.throws(() => readLibraryArchive(zip, 32 * 1024), /expands to more than 32768 bytes/);
+  });
+
+  it("counts inflated bytes rather than trusting the sizes in entry headers", () => {
+    const zip = zipSync({ "manifest.json": json(MANIFEST), "pdfs/big.pdf": new Uint8Array(64 * 1024) });
+
+    // Rewrite every local header's uncompressed size (offset 22) to 1 byte
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    for (let i = 0; i + 30 < zip.length; i++) {
+      if (view.getUint32(i, true) === 0x04034b50) view.setUint32(i + 22, 1, true);
+    }
+    assert.throws(() => readLibraryArchive(zip, 32 * 1024), /expands to more than 32768 bytes/);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Library Archive
+ *
+ * Packs the paper library into a single portable .zip and reads it back:
+ *
+ *   manifest.json                   format, versions, counts
+ *   collections.json                PaperCollections (papers reference them by id)
+ *   analyses/<hash>.json            one AnalysisEntry per paper
+ *   analysis_revisions/<hash>.json  analysis revisions of that paper
+ *   prototypes/<id>.json            one PrototypeEntry (with chat history)
+ *   revisions/<id>.json             code revisions of that prototype
+ *   pdfs/<hash>.pdf                 original PDFs (optional)
+ */
+
+import { strFromU8, strToU8, Unzip, UnzipInflate, zipSync, type Zippable } from "fflate";
+import { z } from "zod";
+import { exportLibrary, type LibrarySnapshot } from "./db";
+import { readPdf } from "./pdfs";
+import { getStorage } from "./storage";
+import { getSchemaVersion } from "./storage/migrations";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const ARCHIVE_FORMAT = "sciproto-library";
+export const ARCHIVE_VERSION = 1;
+
+// Largest archive accepted for import, and the most its entries may inflate to
+export const MAX_ARCHIVE_BYTES = 256 * 1024 * 1024;
+export const MAX_ARCHIVE_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024;
+
+// Compressed bytes fed to the inflater at a time. Deflate expands at most
+// ~1032x, so one slice can't inflate past the limit by more than ~16 MB.
+const UNZIP_SLICE_BYTES = 16 * 1024;
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: number;
+  db_schema_version: number;
+  counts: {
+    analyses: number;
+    prototypes: number;
+    revisions: number;
+    analysis_revisions: number;
+    collections: number;
+    pdfs: number;
+  };
+}
+
+export interface LibraryArchive {
+  manifest: ArchiveManifest;
+  snapshot: LibrarySnapshot;
+  pdfs: Record<string, Uint8Array>;
+}
+
+// Shallow shape checks for archive contents (extra fields are kept)
+const ManifestSchema = z.looseObject({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().max(ARCHIVE_VERSION),
+  exported_at: z.number(),
+  db_schema_version: z.number(),
+  counts: z.object({
+    analyses: z.number(),
+    prototypes: z.number(),
+    revisions: z.number(),
+    // Missing in archives written before these were exported
+    analysis_revisions: z.number().default(0),
+    collections: z.number().default(0),
+    pdfs: z.number(),
+  }),
+});
+
+const AnalysisEntrySchema = z.looseObject({
+  hash: z.string().min(1),
+  filename: z.string(),
+  raw_text: z.string(),
+  analysis_json: z.string(),
+  created_at: z.number(),
+});
+
+const PrototypeEntrySchema = z.looseObject({
+  id: z.string().min(1),
+  title: z.string(),
+  code: z.string(),
+  history: z.array(z.unknown()),
+  created_at: z.number(),
+  updated_at: z.number(),
+});
+
+const RevisionSchema = z.looseObject({
+  id: z.string(),
+  prototype_id: z.string().min(1),
+  seq: z.number().int().positive(),
+  code: z.string(),
+  origin: z.enum(["agent", "auto_fix", "manual", "restore", "initial"]),
+  created_at: z.number(),
+});
+
+const AnalysisRevisionSchema = z.looseObject({
+  id: z.string(),
+  hash: z.string().min(1),
+  seq: z.number().int().positive(),
+  analysis_json: z.string(),
+  created_at: z.number(),
+});
+
+const CollectionSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string(),
+  created_at: z.number(),
+  updated_at: z.number(),
+});
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function fileName(id: string) {
+  return encodeURIComponent(id);
+}
+
+function jsonFile(value: unknown) {
+  return strToU8(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Build a zip of the whole library
+ */
+export function buildLibraryArchive(options: { includePdfs?: boolean } = {}): Uint8Array {
+  const snapshot = exportLibrary();
+  const files: Zippable = {};
+
+  for (const entry of snapshot.analyses) {
+    files[`analyses/${fileName(entry.hash)}.json`] = jsonFile(entry);
+    const revisions = snapshot.analysisRevisions
+      .filter(r => r.hash === entry.hash)
+      .sort((a, b) => a.seq - b.seq);
+    if (revisions.length > 0) {
+      files[`analysis_revisions/${fileName(entry.hash)}.json`] = jsonFile(revisions);
+    }
+  }
+
+  for (const entry of snapshot.prototypes) {
+    files[`prototypes/${fileName(entry.id)}.json`] = jsonFile(entry);
+    const revisions = snapshot.revisions
+      .filter(r => r.prototype_id === entry.id)
+      .sort((a, b) => a.seq - b.seq);
+    if (revisions.length > 0) {
+      files[`revisions/${fileName(entry.id)}.json`] = jsonFile(revisions);
+    }
+  }
+
+  files["collections.json"] = jsonFile(snapshot.collections);
+
+  let pdfCount = 0;
+  if (options.includePdfs) {
+    for (const entry of snapshot.analyses) {
+      const pdf = readPdf(entry.hash);
+      if (!pdf) continue;
+      // PDFs are already compressed
+      files[`pdfs/${fileName(entry.hash)}.pdf`] = [pdf, { level: 0 }];
+      pdfCount++;
+    }
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: Date.now(),
+    db_schema_version: getSchemaVersion(getStorage()),
+    counts: {
+      analyses: snapshot.analyses.length,
+      prototypes: snapshot.prototypes.length,
+      revisions: snapshot.revisions.filter(r => snapshot.prototypes.some(p => p.id === r.prototype_id)).length,
+      analysis_revisions: snapshot.analysisRevisions.filter(r => snapshot.analyses.some(a => a.hash === r.hash)).length,
+      collections: snapshot.collections.length,
+      pdfs: pdfCount,
+    },
+  };
+  files["manifest.json"] = jsonFile(manifest);
+
+  return zipSync(files, { level: 6 });
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Unzip an archive, counting the bytes actually inflated (entry headers can
+ * lie about their size) and throwing once they pass the limit.
+ */
+function unzipWithLimit(data: Uint8Array, maxBytes: number): Record<string, Uint8Array> {
+  if (data.length > MAX_ARCHIVE_BYTES) {
+    throw new Error(`Archive is larger than ${MAX_ARCHIVE_BYTES} bytes`);
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  let total = 0;
+
+  const unzip = new Unzip(file => {
+    if (file.originalSize !== undefined && total + file.originalSize > maxBytes) {
+      throw new Error(`Archive expands to more than ${maxBytes} bytes`);
+    }
+    const chunks: Uint8Array[] = [];
+    file.ondata = (err, chunk, final) => {
+      if (err) throw err;
+      total += chunk.length;
+      if (total > maxBytes) {
+        throw new Error(`Archive expands to more than ${maxBytes} bytes`);
+      }
+      chunks.push(chunk);
+      if (final) {
+        const content = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+        let offset = 0;
+        for (const c of chunks) {
+          content.set(c, offset);
+          offset += c.length;
+        }
+        files[file.name] = content;
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  for (let i = 0; i < data.length; i += UNZIP_SLICE_BYTES) {
+    unzip.push(data.subarray(i, i + UNZIP_SLICE_BYTES), i + UNZIP_SLICE_BYTES >= data.length);
+  }
+  return files;
+}
+
+/**
+ * Read and validate a library zip. Throws if the archive is not a SciProto
+ * library export, any entry is malformed, or it is over the size limits.
+ */
+export function readLibraryArchive(data: Uint8Array, maxUncompressedBytes = MAX_ARCHIVE_UNCOMPRESSED_BYTES): LibraryArchive {
+  const files = unzipWithLimit(data, maxUncompressedBytes);
+
+  const manifestFile = files["manifest.json"];
+  if (!manifestFile) {
+    throw new Error("Archive has no manifest.json");
+  }
+  const manifest = ManifestSchema.parse(JSON.parse(strFromU8(manifestFile))) as ArchiveManifest;
+
+  const snapshot: LibrarySnapshot = { analyses: [], prototypes: [], revisions: [], analysisRevisions: [], collections: [] };
+  const pdfs: Record<string, Uint8Array> = {};
+
+  const collectionsFile = files["collections.json"];
+  if (collectionsFile) {
+    try {
+      const collections = z.array(CollectionSchema).parse(JSON.parse(strFromU8(collectionsFile)));
+      snapshot.collections = collections as LibrarySnapshot["collections"];
+    } catch (e) {
+      throw new Error(`Invalid archive entry collections.json: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  for (const [name, content] of Object.entries(files)) {
+    const [folder, file] = name.split("/");
+    if (!file) continue;
+
+    try {
+      if (folder === "analyses" && file.endsWith(".json")) {
+        snapshot.analyses.push(AnalysisEntrySchema.parse(JSON.parse(strFromU8(content))) as LibrarySnapshot["analyses"][number]);
+      } else if (folder === "prototypes" && file.endsWith(".json")) {
+        snapshot.prototypes.push(PrototypeEntrySchema.parse(JSON.parse(strFromU8(content))) as LibrarySnapshot["prototypes"][number]);
+      } else if (folder === "revisions" && file.endsWith(".json")) {
+        const revisions = z.array(RevisionSchema).parse(JSON.parse(strFromU8(content)));
+        snapshot.revisions.push(...(revisions as LibrarySnapshot["revisions"]));
+      } else if (folder === "analysis_revisions" && file.endsWith(".json")) {
+        const revisions = z.array(AnalysisRevisionSchema).parse(JSON.parse(strFromU8(content)));
+        snapshot.analysisRevisions.push(...(revisions as LibrarySnapshot["analysisRevisions"]));
+      } else if (folder === "pdfs" && file.endsWith(".pdf")) {
+        pdfs[decodeURIComponent(file.slice(0, -".pdf".length))] = content;
+      }
+    } catch (e) {
+      throw new Error(`Invalid archive entry ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  return { manifest, snapshot, pdfs };
+}
@@ -0,0 +1,69 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { LibrarySnapshot } from "./db";
+
+// getStorage() opens SCIPROTO_JSON_PATH on first use, so point it at a
+// throwaway file before loading db.ts
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sciproto-db-"));
+process.env.SCIPROTO_STORAGE = "json";
+process.env.SCIPROTO_JSON_PATH = path.join(dir, "db.json");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let db: typeof import("./db");
+before(async () => {
+  db = await import("./db");
+});
+
+function snapshot(overrides: Partial<LibrarySnapshot> = {}): LibrarySnapshot {
+  return { analyses: [], prototypes: [], revisions: [], analysisRevisions: [], collections: [], ...overrides };
+}
+
+function prototype(id: string, code: string, updatedAt = 1) {
+  return { id, title: "Demo", code, history: [], created_at: 1, updated_at: updatedAt };
+}
+
+describe("importLibrary", () => {
+  it("seeds an initial revision for analyses and prototypes imported without any", () => {
+    const report = db.importLibrary(snapshot({
+      analyses: [{ hash: "paper-a", filename: "a.pdf", raw_text: "", analysis_json: "{}", created_at: 1 }],
+      prototypes: [prototype("proto-a", "export default () => null;")],
+    }));
+
+    assert.equal(report.revisions, 0);
+    assert.deepEqual(db.getAnalysisRevisions("paper-a").map(r => r.seq), [1]);
+    const [revision] = db.getPrototypeRevisions("proto-a");
+    assert.equal(revision.seq, 1);
+    assert.equal(revision.origin, "initial");
+    assert.equal(revision.code, "export default () => null;");
+  });
+
+  it("replaces a prototype's revisions with the imported ones on overwrite", () => {
+    db.savePrototype("proto-b", { title: "Demo", code: "v1" });
+    db.savePrototype("proto-b", { title: "Demo", code: "v2" });
+
+    const report = db.importLibrary(snapshot({
+      prototypes: [prototype("proto-b", "imported")],
+      revisions: [{ id: "x", prototype_id: "proto-b", seq: 1, code: "imported", origin: "agent", created_at: 1 }],
+    }), "overwrite");
+
+    assert.deepEqual(report.prototypes, { added: 0, updated: 1, skipped: 0 });
+    assert.deepEqual(db.getPrototypeRevisions("proto-b").map(r => [r.id, r.code]), [["proto-b#000001", "imported"]]);
+  });
+
+  it("keeps existing entries unless the strategy says to replace them", () => {
+    db.savePrototype("proto-c", { title: "Local", code: "local" });
+    const updatedAt = db.getPrototype("proto-c")!.updated_at;
+
+    const older = snapshot({ prototypes: [{ ...prototype("proto-c", "older", updatedAt - 1), title: "Older" }] });
+    assert.deepEqual(db.importLibrary(older).prototypes, { added: 0, updated: 0, skipped: 1 });
+    assert.deepEqual(db.importLibrary(older, "newer").prototypes, { added: 0, updated: 0, skipped: 1 });
+    assert.equal(db.getPrototype("proto-c")?.title, "Local");
+
+    const newer = snapshot({ prototypes: [{ ...prototype("proto-c", "newer", updatedAt + 1), title: "Newer" }] });
+    assert.deepEqual(db.importLibrary(newer, "newer").prototypes, { added: 0, updated: 1, skipped: 0 });
+    assert.equal(db.getPrototype("proto-c")?.title, "Newer");
+  });
+});
@@ -1,106 +1,266 @@
-import fs from "fs";
-import path from "path";
+import { getStorage } from "./storage";
+import type {
+  AgentSession,
+  AgentSessionMessage,
+  AnalysisEntry,
+  AnalysisRevision,
+  PaperCollection,
+  PrototypeEntry,
+  PrototypeRevision,
+  QuickScoreEntry,
+  RevisionOrigin,
+  StorageAdapter,
+  UsageRecord,
+} from "./storage";
+import { revalidateAnalyses as revalidateStoredAnalyses } from "./storage/migrations";
+import { putAnalysis, removeAnalysis } from "./storage/summaries";
+import { ANALYSIS_SCHEMA_VERSION, upgradeAnalysis, type PaperAnalysis } from "./analysis-schema";
+import { deletePdf } from "./pdfs";
+import { buildSnippets, getSearchIndex, rankSearchIndex, type SearchField, type SearchSnippet } from "./search";
+
+export type { AgentSession, AgentSessionMessage, AnalysisEntry, AnalysisRevision, AnalysisSummary, PaperCollection, PrototypeEntry, PrototypeRevision, QuickScoreEntry, RevisionOrigin, UsageRecord } from "./storage";
 
 // ============================================================================
 // STORAGE CONFIGURATION
 // ============================================================================
-// 
-// LOCAL DEV: Uses JSON file storage (sciproto-db.json)
-// VERCEL PROD: Uses /tmp (ephemeral but writable per invocation)
-// 
-// For persistent Vercel storage, add Vercel KV:
-//   1. Add KV from Vercel dashboard
-//   2. pnpm add @vercel/kv
-//   3. Replace functions below with kv.get/kv.set
+//
+// The backend is chosen by SCIPROTO_STORAGE (see ./storage/index.ts):
+//   json   (default) - sciproto-db.json in the project root (/tmp on Vercel)
+//   sqlite           - embedded SQLite database, recommended for large libraries
+//
+// For persistent Vercel storage, add another adapter implementing
+// StorageAdapter (e.g. Vercel KV) and select it in ./storage/index.ts.
 // ============================================================================
 
-// On Vercel, use /tmp which is writable (but ephemeral per invocation)
-// Locally, use project root
-const isVercel = process.env.VERCEL === "1";
-const DB_PATH = isVercel 
-  ? "/tmp/sciproto-db.json"
-  : path.join(process.cwd(), "sciproto-db.json");
+// ============================================================================
+// ANALYSIS FUNCTIONS (existing)
+// ============================================================================
 
-interface DbSchema {
-  analyses: Record<string, AnalysisEntry>;
-  prototypes: Record<string, PrototypeEntry>;
+export function getAnalysis(hash: string) {
+  return getStorage().get("analyses", hash);
 }
 
-interface AnalysisEntry {
-  hash: string;
-  filename: string;
-  raw_text: string;
-  analysis_json: string;
-  created_at: number;
+/**
+ * Save a paper's analysis. Re-analyzing keeps the paper's tags and
+ * collections, and the previous result stays available as an earlier
+ * analysis revision.
+ */
+export function saveAnalysis(hash: string, filename: string, raw_text: string, analysis: PaperAnalysis, options: { model?: string; promptVersions?: Record<string, string> } = {}) {
+  const store = getStorage();
+  return store.transaction(() => {
+    const existing = store.get("analyses", hash);
+    const entry: AnalysisEntry = {
+      hash,
+      filename,
+      raw_text,
+      analysis_json: JSON.stringify(analysis),
+      schema_version: ANALYSIS_SCHEMA_VERSION,
+      ...(options.model && { model: options.model }),
+      ...(options.promptVersions && { prompt_versions: options.promptVersions }),
+      ...(existing?.tags && { tags: existing.tags }),
+      ...(existing?.collection_ids && { collection_ids: existing.collection_ids }),
+      created_at: Date.now()
+    };
+    // Papers saved before revisions existed (or imported without them)
+    if (existing && listAnalysisRevisions(store, hash).length === 0) {
+      appendAnalysisRevision(store, existing);
+    }
+    putAnalysis(store, entry);
+    return appendAnalysisRevision(store, entry);
+  });
 }
 
-interface PrototypeEntry {
-  id: string;
-  paper_hash?: string;
-  title: string;
-  description?: string;
-  code: string;
-  algorithm_info?: string;
-  history: any[];
-  created_at: number;
-  updated_at: number;
+export function getAllAnalyses() {
+  // Return array sorted by newest first
+  return getStorage().list("analyses").sort((a, b) => b.created_at - a.created_at);
 }
 
-// Helper to read DB (safe for serverless)
-function readDb(): DbSchema {
-  try {
-    if (!fs.existsSync(DB_PATH)) {
-      return { analyses: {}, prototypes: {} };
+export type AnalysisSortField = "created_at" | "breakthrough_score" | "title";
+
+export interface ListAnalysesOptions {
+  sort?: AnalysisSortField;
+  order?: "asc" | "desc";
+  start?: number;
+  max?: number;
+  // Only papers in this PaperCollection
+  collection?: string;
+  // Only papers carrying every one of these tags
+  tags?: string[];
+}
+
+export function listAnalysisSummaries(options: ListAnalysesOptions = {}) {
+  const { sort = "created_at", order = sort === "title" ? "asc" : "desc", start = 0, max = 50 } = options;
+  const direction = order === "asc" ? 1 : -1;
+
+  const tags = (options.tags ?? []).map(normalizeTag).filter(Boolean);
+
+  const summaries = getStorage()
+    .list("analysis_summaries")
+    .filter(paper => !options.collection || paper.collection_ids.includes(options.collection))
+    .filter(paper => tags.every(tag => paper.tags.includes(tag)));
+  summaries.sort((a, b) => {
+    if (sort === "title") return direction * a.title.localeCompare(b.title);
+    if (sort === "breakthrough_score") return direction * ((a.breakthrough_score ?? -1) - (b.breakthrough_score ?? -1));
+    return direction * (a.created_at - b.created_at);
+  });
+
+  return {
+    papers: summaries.slice(start, start + max),
+    total: summaries.length,
+  };
+}
+
+export interface DeleteAnalysisResult {
+  deleted: boolean;
+  deletedPrototypes: string[];
+  orphanedPrototypes: string[];
+}
+
+/**
+ * Delete a paper's analysis. Its prototypes are deleted too unless
+ * `keepPrototypes` is set, in which case they are left orphaned (and
+ * reported so the caller can warn about them).
+ */
+export function deleteAnalysis(hash: string, options: { keepPrototypes?: boolean } = {}): DeleteAnalysisResult {
+  const store = getStorage();
+  const result = store.transaction(() => {
+    const result: DeleteAnalysisResult = { deleted: false, deletedPrototypes: [], orphanedPrototypes: [] };
+    if (!removeAnalysis(store, hash)) return result;
+    for (const revision of listAnalysisRevisions(store, hash)) {
+      store.remove("analysis_revisions", revision.id);
     }
-    const data = fs.readFileSync(DB_PATH, "utf-8");
-    const parsed = JSON.parse(data);
-    // Migration: handle old format where analyses were at root level
-    if (!parsed.analyses && !parsed.prototypes) {
-      return { analyses: parsed, prototypes: {} };
+    result.deleted = true;
+
+    for (const prototype of store.list("prototypes")) {
+      if (prototype.paper_hash !== hash) continue;
+      if (options.keepPrototypes) {
+        result.orphanedPrototypes.push(prototype.id);
+      } else {
+        removePrototype(store, prototype.id);
+        result.deletedPrototypes.push(prototype.id);
+      }
     }
-    return { analyses: parsed.analyses || {}, prototypes: parsed.prototypes || {} };
-  } catch (e) {
-    // If read fails (e.g., corruption), return empty
-    console.warn("[DB] Read failed, returning empty:", e);
-    return { analyses: {}, prototypes: {} };
-  }
+
+    if (result.orphanedPrototypes.length > 0) {
+      console.warn(`[DB] Deleted paper ${hash}; ${result.orphanedPrototypes.length} prototypes are now orphaned`);
+    }
+    return result;
+  });
+
+  if (result.deleted) deletePdf(hash);
+  return result;
 }
 
-// Helper to write DB (safe for serverless)
-function writeDb(data: DbSchema) {
-  try {
-    fs.writeFileSync(DB_PATH, JSON.stringify(data, null, 2));
-  } catch (e) {
-    // On Vercel, /tmp writes might fail in edge cases - log but don't crash
-    console.warn("[DB] Write failed (serverless?):", e);
-  }
+// Re-check every stored analysis against the current PaperAnalysisSchema and
+// flag the ones that no longer conform (see storage/migrations.ts)
+export function revalidateAnalyses() {
+  return revalidateStoredAnalyses(getStorage(), { force: true });
 }
 
 // ============================================================================
-// ANALYSIS FUNCTIONS (existing)
+// ANALYSIS REVISIONS
+// ============================================================================
+//
+// Every saved analysis of a paper is kept as a revision, so re-analysis
+// (with another model, say) can be compared with earlier results. The
+// AnalysisEntry always holds the newest one.
 // ============================================================================
 
-export function getAnalysis(hash: string) {
-  const db = readDb();
-  return db.analyses[hash] || null;
-}
-
-export function saveAnalysis(hash: string, filename: string, raw_text: string, analysis: any) {
-  const db = readDb();
-  db.analyses[hash] = {
-    hash,
-    filename,
-    raw_text,
-    analysis_json: JSON.stringify(analysis),
-    created_at: Date.now()
+function analysisRevisionPrefix(hash: string) {
+  return `${hash}#`;
+}
+
+function analysisRevisionId(hash: string, seq: number) {
+  return `${analysisRevisionPrefix(hash)}${String(seq).padStart(6, "0")}`;
+}
+
+function listAnalysisRevisions(store: StorageAdapter, hash: string) {
+  return store
+    .list("analysis_revisions", { idPrefix: analysisRevisionPrefix(hash) })
+    .sort((a, b) => b.seq - a.seq);
+}
+
+function appendAnalysisRevision(store: StorageAdapter, entry: AnalysisEntry) {
+  const seq = (listAnalysisRevisions(store, entry.hash)[0]?.seq ?? 0) + 1;
+  const revision: AnalysisRevision = {
+    id: analysisRevisionId(entry.hash, seq),
+    hash: entry.hash,
+    seq,
+    analysis_json: entry.analysis_json,
+    schema_version: entry.schema_version,
+    ...(entry.model && { model: entry.model }),
+    ...(entry.prompt_versions && { prompt_versions: entry.prompt_versions }),
+    created_at: entry.created_at,
   };
-  writeDb(db);
+  store.put("analysis_revisions", revision.id, revision);
+  return revision;
 }
 
-export function getAllAnalyses() {
-  const db = readDb();
-  // Return array sorted by newest first
-  return Object.values(db.analyses).sort((a: any, b: any) => b.created_at - a.created_at);
+// Newest first
+export function getAnalysisRevisions(hash: string): AnalysisRevision[] {
+  return listAnalysisRevisions(getStorage(), hash);
+}
+
+export function getAnalysisRevision(hash: string, seq: number): AnalysisRevision | null {
+  return getStorage().get("analysis_revisions", analysisRevisionId(hash, seq));
+}
+
+// A revision's analysis in the current shape. Old revisions are upgraded
+// but not re-validated, so optional parts may be missing.
+export function readRevisionAnalysis(revision: AnalysisRevision): PaperAnalysis {
+  return upgradeAnalysis(JSON.parse(revision.analysis_json), revision.schema_version ?? 0) as PaperAnalysis;
+}
+
+// ============================================================================
+// FULL-TEXT SEARCH
+// ============================================================================
+//
+// Ranking and snippets live in ./search.ts. The inverted index is kept in
+// memory per store and brought up to date with analysis_summaries on each
+// search (getSearchIndex), so nothing search-specific is stored.
+// ============================================================================
+
+export interface SearchHit {
+  hash: string;
+  title: string;
+  filename: string;
+  field: string;
+  created_at: number;
+  score: number;
+  matched_fields: SearchField[];
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Search the library. Returns ranked hits (with highlighted snippets) for
+ * the requested page and the total number of matching papers.
+ */
+export function searchPapers(query: string, options: { start?: number; max?: number } = {}) {
+  const { start = 0, max = 20 } = options;
+  const store = getStorage();
+
+  return store.transaction(() => {
+    const ranked = rankSearchIndex(getSearchIndex(store), query);
+    const hits: SearchHit[] = [];
+
+    for (const hit of ranked.slice(start, start + max)) {
+      const entry = store.get("analyses", hit.hash);
+      const summary = store.get("analysis_summaries", hit.hash);
+      if (!entry || !summary) continue;
+      hits.push({
+        hash: entry.hash,
+        title: summary.title,
+        filename: entry.filename,
+        field: summary.field,
+        created_at: entry.created_at,
+        score: Math.round(hit.score * 1000) / 1000,
+        matched_fields: hit.matchedFields,
+        snippets: buildSnippets(entry, query),
+      });
+    }
+
+    return { hits, total: ranked.length };
+  });
 }
 
 // ============================================================================
@@ -108,8 +268,7 @@ export function getAllAnalyses() {
 // ============================================================================
 
 export function getPrototype(id: string): PrototypeEntry | null {
-  const db = readDb();
-  return db.prototypes[id] || null;
+  return getStorage().get("prototypes", id);
 }
 
 export function savePrototype(
@@ -120,52 +279,612 @@ export function savePrototype(
     description?: string;
     code: string;
     algorithm_info?: string;
-    history: any[];
+    prompt_versions?: Record<string, string>;
+    // Legacy chat transcript; kept when omitted (the agent session owns the chat)
+    history?: AgentSessionMessage[];
+  },
+  revision?: RevisionInfo
+): PrototypeRevision | null {
+  const store = getStorage();
+  return store.transaction(() => {
+    const existing = store.get("prototypes", id);
+
+    store.put("prototypes", id, {
+      id,
+      paper_hash: data.paper_hash,
+      title: data.title,
+      description: data.description || "",
+      code: data.code,
+      algorithm_info: data.algorithm_info || "",
+      ...((data.prompt_versions ?? existing?.prompt_versions) && {
+        prompt_versions: data.prompt_versions ?? existing?.prompt_versions,
+      }),
+      history: data.history ?? existing?.history ?? [],
+      created_at: existing?.created_at || Date.now(),
+      updated_at: Date.now()
+    });
+    return appendRevision(store, id, data.code, revision ?? { origin: existing ? "manual" : "initial" });
+  });
+}
+
+export function updatePrototypeCode(id: string, code: string, algorithm_info?: string, revision?: RevisionInfo) {
+  const store = getStorage();
+  store.transaction(() => {
+    const existing = store.get("prototypes", id);
+    if (existing) {
+      existing.code = code;
+      if (algorithm_info) existing.algorithm_info = algorithm_info;
+      existing.updated_at = Date.now();
+      store.put("prototypes", id, existing);
+      appendRevision(store, id, code, revision ?? { origin: "manual" });
+    }
+  });
+}
+
+export function updatePrototypeHistory(id: string, history: AgentSessionMessage[]) {
+  const store = getStorage();
+  store.transaction(() => {
+    const existing = store.get("prototypes", id);
+    if (existing) {
+      existing.history = history;
+      existing.updated_at = Date.now();
+      store.put("prototypes", id, existing);
+    }
+  });
+}
+
+export function getAllPrototypes(): PrototypeEntry[] {
+  return getStorage().list("prototypes").sort((a, b) => b.updated_at - a.updated_at);
+}
+
+// Remove a prototype together with its revisions and agent session
+function removePrototype(store: StorageAdapter, id: string) {
+  store.remove("prototypes", id);
+  store.remove("agent_sessions", id);
+  for (const revision of store.list("revisions", { idPrefix: revisionPrefix(id) })) {
+    store.remove("revisions", revision.id);
   }
-) {
-  const db = readDb();
-  const existing = db.prototypes[id];
-  
-  db.prototypes[id] = {
-    id,
-    paper_hash: data.paper_hash,
-    title: data.title,
-    description: data.description || "",
-    code: data.code,
-    algorithm_info: data.algorithm_info || "",
-    history: data.history,
-    created_at: existing?.created_at || Date.now(),
-    updated_at: Date.now()
+}
+
+export function deletePrototype(id: string) {
+  const store = getStorage();
+  store.transaction(() => removePrototype(store, id));
+}
+
+// Prototypes whose paper_hash points at a paper that no longer exists
+export function getOrphanedPrototypes(): PrototypeEntry[] {
+  const store = getStorage();
+  return store.transaction(() =>
+    store.list("prototypes").filter(p => p.paper_hash && !store.get("analysis_summaries", p.paper_hash))
+  );
+}
+
+export function deleteOrphanedPrototypes(): string[] {
+  const store = getStorage();
+  return store.transaction(() => {
+    const orphans = store.list("prototypes").filter(p => p.paper_hash && !store.get("analysis_summaries", p.paper_hash));
+    for (const prototype of orphans) removePrototype(store, prototype.id);
+    return orphans.map(p => p.id);
+  });
+}
+
+// ============================================================================
+// PROTOTYPE REVISIONS
+// ============================================================================
+//
+// Every change to a prototype's code is kept as an immutable revision, so a
+// broken "fix" can always be rolled back. Restoring appends a new revision
+// rather than rewriting history.
+// ============================================================================
+
+const REVISION_MESSAGE_MAX_LENGTH = 500;
+
+export interface RevisionInfo {
+  origin: RevisionOrigin;
+  message?: string;
+  restored_from?: number;
+}
+
+function revisionPrefix(prototypeId: string) {
+  return `${prototypeId}#`;
+}
+
+function revisionId(prototypeId: string, seq: number) {
+  return `${revisionPrefix(prototypeId)}${String(seq).padStart(6, "0")}`;
+}
+
+function listRevisions(store: StorageAdapter, prototypeId: string) {
+  return store
+    .list("revisions", { idPrefix: revisionPrefix(prototypeId) })
+    .sort((a, b) => b.seq - a.seq);
+}
+
+// Record a new revision unless the code is unchanged since the latest one
+function appendRevision(store: StorageAdapter, prototypeId: string, code: string, info: RevisionInfo) {
+  if (!code) return null;
+
+  const latest = listRevisions(store, prototypeId)[0];
+  if (latest && latest.code === code) return null;
+
+  const seq = (latest?.seq ?? 0) + 1;
+  const revision: PrototypeRevision = {
+    id: revisionId(prototypeId, seq),
+    prototype_id: prototypeId,
+    seq,
+    code,
+    origin: info.origin,
+    ...(info.message && { message: info.message.slice(0, REVISION_MESSAGE_MAX_LENGTH) }),
+    ...(info.restored_from !== undefined && { restored_from: info.restored_from }),
+    created_at: Date.now(),
   };
-  writeDb(db);
+  store.put("revisions", revision.id, revision);
+  return revision;
 }
 
-export function updatePrototypeCode(id: string, code: string, algorithm_info?: string) {
-  const db = readDb();
-  if (db.prototypes[id]) {
-    db.prototypes[id].code = code;
-    if (algorithm_info) db.prototypes[id].algorithm_info = algorithm_info;
-    db.prototypes[id].updated_at = Date.now();
-    writeDb(db);
+// Newest first
+export function getPrototypeRevisions(prototypeId: string): PrototypeRevision[] {
+  return listRevisions(getStorage(), prototypeId);
+}
+
+export function getPrototypeRevision(prototypeId: string, seq: number): PrototypeRevision | null {
+  return getStorage().get("revisions", revisionId(prototypeId, seq));
+}
+
+/**
+ * Make an older revision current again. Returns the new revision, or the
+ * target itself if it is already the latest.
+ */
+export function restorePrototypeRevision(prototypeId: string, seq: number): PrototypeRevision | null {
+  const store = getStorage();
+  return store.transaction(() => {
+    const prototype = store.get("prototypes", prototypeId);
+    const target = store.get("revisions", revisionId(prototypeId, seq));
+    if (!prototype || !target) return null;
+
+    store.put("prototypes", prototypeId, { ...prototype, code: target.code, updated_at: Date.now() });
+    return appendRevision(store, prototypeId, target.code, { origin: "restore", restored_from: seq }) ?? target;
+  });
+}
+
+// ============================================================================
+// COLLECTIONS AND TAGS
+// ============================================================================
+//
+// Papers can be grouped into named collections and labelled with free-form
+// tags. Both live on the AnalysisEntry (collection_ids / tags); collections
+// themselves are stored in "paper_collections" so they can exist while empty.
+// ============================================================================
+
+const TAG_MAX_LENGTH = 40;
+
+export interface CollectionWithCount extends PaperCollection {
+  paper_count: number;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// "  Diffusion   Models " -> "diffusion models"
+export function normalizeTag(tag: string) {
+  return tag.trim().toLowerCase().replace(/\s+/g, " ").slice(0, TAG_MAX_LENGTH);
+}
+
+function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))].sort();
+}
+
+// Readable id from the name, suffixed when taken ("diffusion-models-2")
+function collectionId(store: StorageAdapter, name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "collection";
+  let id = slug;
+  for (let n = 2; store.get("paper_collections", id); n++) {
+    id = `${slug}-${n}`;
   }
+  return id;
+}
+
+export function listCollections(): CollectionWithCount[] {
+  const store = getStorage();
+  return store.transaction(() => {
+    const counts = new Map<string, number>();
+    for (const paper of store.list("analysis_summaries")) {
+      for (const id of paper.collection_ids) counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return store
+      .list("paper_collections")
+      .map(collection => ({ ...collection, paper_count: counts.get(collection.id) ?? 0 }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  });
 }
 
-export function updatePrototypeHistory(id: string, history: any[]) {
-  const db = readDb();
-  if (db.prototypes[id]) {
-    db.prototypes[id].history = history;
-    db.prototypes[id].updated_at = Date.now();
-    writeDb(db);
+export function getCollection(id: string): PaperCollection | null {
+  return getStorage().get("paper_collections", id);
+}
+
+export function createCollection(name: string, description?: string): PaperCollection {
+  const store = getStorage();
+  return store.transaction(() => {
+    const now = Date.now();
+    const collection: PaperCollection = {
+      id: collectionId(store, name),
+      name: name.trim(),
+      ...(description && { description }),
+      created_at: now,
+      updated_at: now,
+    };
+    store.put("paper_collections", collection.id, collection);
+    return collection;
+  });
+}
+
+export function updateCollection(id: string, data: { name?: string; description?: string }): PaperCollection | null {
+  const store = getStorage();
+  return store.transaction(() => {
+    const existing = store.get("paper_collections", id);
+    if (!existing) return null;
+
+    const updated: PaperCollection = {
+      ...existing,
+      ...(data.name?.trim() && { name: data.name.trim() }),
+      ...(data.description !== undefined && { description: data.description }),
+      updated_at: Date.now(),
+    };
+    store.put("paper_collections", id, updated);
+    return updated;
+  });
+}
+
+// Delete a collection; its papers stay in the library
+export function deleteCollection(id: string): boolean {
+  const store = getStorage();
+  return store.transaction(() => {
+    if (!store.remove("paper_collections", id)) return false;
+    for (const paper of store.list("analysis_summaries")) {
+      if (!paper.collection_ids.includes(id)) continue;
+      const entry = store.get("analyses", paper.hash);
+      if (!entry) continue;
+      putAnalysis(store, {
+        ...entry,
+        collection_ids: (entry.collection_ids ?? []).filter(c => c !== id),
+      });
+    }
+    return true;
+  });
+}
+
+/**
+ * Add papers to (or remove them from) a collection. Returns the number of
+ * papers that changed, or null if the collection does not exist.
+ */
+export function setCollectionMembership(id: string, hashes: string[], member: boolean): number | null {
+  const store = getStorage();
+  return store.transaction(() => {
+    if (!store.get("paper_collections", id)) return null;
+
+    let changed = 0;
+    for (const hash of hashes) {
+      const entry = store.get("analyses", hash);
+      if (!entry) continue;
+      const current = entry.collection_ids ?? [];
+      if (current.includes(id) === member) continue;
+
+      putAnalysis(store, {
+        ...entry,
+        collection_ids: member ? [...current, id] : current.filter(c => c !== id),
+      });
+      changed++;
+    }
+    return changed;
+  });
+}
+
+/**
+ * Replace a paper's tags and/or collections. Unknown collection ids are
+ * dropped. Returns the updated entry, or null if the paper does not exist.
+ */
+export function updatePaperLabels(
+  hash: string,
+  data: { tags?: string[]; collection_ids?: string[] }
+): AnalysisEntry | null {
+  const store = getStorage();
+  return store.transaction(() => {
+    const entry = store.get("analyses", hash);
+    if (!entry) return null;
+
+    const updated: AnalysisEntry = { ...entry };
+    if (data.tags) updated.tags = normalizeTags(data.tags);
+    if (data.collection_ids) {
+      updated.collection_ids = [...new Set(data.collection_ids)].filter(id => store.get("paper_collections", id));
+    }
+    putAnalysis(store, updated);
+    return updated;
+  });
+}
+
+// Every tag in use, most used first
+export function listTags(): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const paper of getStorage().list("analysis_summaries")) {
+    for (const tag of paper.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
   }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
 }
 
-export function getAllPrototypes(): PrototypeEntry[] {
-  const db = readDb();
-  return Object.values(db.prototypes).sort((a, b) => b.updated_at - a.updated_at);
+// ============================================================================
+// USAGE ACCOUNTING
+// ============================================================================
+//
+// One UsageRecord per model call, written by the metered provider in
+// ./llm/usage.ts. Records outlive the papers and prototypes they belong to,
+// so deleting a paper doesn't rewrite what was spent on it.
+// ============================================================================
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  // Calls that were repair attempts or overload retries
+  retries: number;
+  input_tokens: number;
+  output_tokens: number;
+  // Calls whose token counts were estimated
+  estimated: number;
+  latency_ms: number;
+  cost_usd: number;
+  // Calls to models without a known price (not included in cost_usd)
+  unpriced: number;
 }
 
-export function deletePrototype(id: string) {
-  const db = readDb();
-  delete db.prototypes[id];
-  writeDb(db);
+export interface UsageSummary extends UsageTotals {
+  by_task: Record<string, UsageTotals>;
+  by_model: Record<string, UsageTotals>;
+}
+
+export interface UsageFilter {
+  paperHash?: string;
+  prototypeId?: string;
+  // Only calls made at or after this time (ms)
+  since?: number;
+}
+
+export function recordUsage(record: Omit<UsageRecord, "id">): UsageRecord {
+  const id = `${record.created_at}-${Math.random().toString(36).slice(2, 8)}`;
+  const entry: UsageRecord = { id, ...record };
+  getStorage().put("usage", id, entry);
+  return entry;
+}
+
+// Newest first
+export function listUsage(filter: UsageFilter = {}): UsageRecord[] {
+  return getStorage()
+    .list("usage")
+    .filter(r =>
+      (!filter.paperHash || r.paper_hash === filter.paperHash) &&
+      (!filter.prototypeId || r.prototype_id === filter.prototypeId) &&
+      (!filter.since || r.created_at >= filter.since)
+    )
+    .sort((a, b) => b.created_at - a.created_at);
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0, failed: 0, retries: 0, input_tokens: 0, output_tokens: 0,
+    estimated: 0, latency_ms: 0, cost_usd: 0, unpriced: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord) {
+  totals.calls++;
+  if (record.error) totals.failed++;
+  if (record.attempt > 0) totals.retries++;
+  totals.input_tokens += record.input_tokens;
+  totals.output_tokens += record.output_tokens;
+  if (record.estimated) totals.estimated++;
+  totals.latency_ms += record.latency_ms;
+  if (record.cost_usd === null) totals.unpriced++;
+  else totals.cost_usd += record.cost_usd;
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), by_task: {}, by_model: {} };
+  for (const record of records) {
+    addToTotals(summary, record);
+    addToTotals(summary.by_task[record.task] ??= emptyTotals(), record);
+    addToTotals(summary.by_model[record.model] ??= emptyTotals(), record);
+  }
+  return summary;
+}
+
+// ============================================================================
+// QUICK SCORES
+// ============================================================================
+//
+// Discover triage scores, one per arXiv paper. They depend only on the
+// abstract, so they never expire; versions of a paper share one.
+// ============================================================================
+
+function quickScoreId(arxivId: string) {
+  return arxivId.trim().toLowerCase().replace(/v\d+$/, "");
+}
+
+// Cached scores for these arXiv ids, keyed by the ids as given
+export function getQuickScores(arxivIds: string[]): Record<string, QuickScoreEntry> {
+  const store = getStorage();
+  const scores: Record<string, QuickScoreEntry> = {};
+  for (const id of arxivIds) {
+    const entry = store.get("quick_scores", quickScoreId(id));
+    if (entry) scores[id] = entry;
+  }
+  return scores;
+}
+
+// Store scores keyed by arXiv id, replacing earlier ones
+export function saveQuickScores(scores: Record<string, Omit<QuickScoreEntry, "id" | "created_at">>) {
+  const store = getStorage();
+  const now = Date.now();
+  store.transaction(() => {
+    for (const [arxivId, score] of Object.entries(scores)) {
+      const id = quickScoreId(arxivId);
+      store.put("quick_scores", id, { ...score, id, created_at: now });
+    }
+  });
+}
+
+// ============================================================================
+// AGENT SESSIONS
+// ============================================================================
+//
+// The agent chat of each prototype, read and written by /api/agent (the
+// client only sends the new message). Prototypes saved before sessions
+// existed kept their chat in PrototypeEntry.history, which seeds one.
+// ============================================================================
+
+export function getAgentSession(prototypeId: string): AgentSession | null {
+  const store = getStorage();
+  return store.transaction(() => {
+    const session = store.get("agent_sessions", prototypeId);
+    if (session) return session;
+
+    const prototype = store.get("prototypes", prototypeId);
+    if (!prototype?.history?.length) return null;
+    return {
+      id: prototypeId,
+      paper_hash: prototype.paper_hash,
+      messages: prototype.history,
+      summarized: 0,
+      created_at: prototype.created_at,
+      updated_at: prototype.updated_at,
+    };
+  });
+}
+
+export function saveAgentSession(session: AgentSession) {
+  getStorage().put("agent_sessions", session.id, { ...session, updated_at: Date.now() });
+}
+
+// ============================================================================
+// LIBRARY EXPORT / IMPORT
+// ============================================================================
+
+export interface LibrarySnapshot {
+  analyses: AnalysisEntry[];
+  prototypes: PrototypeEntry[];
+  revisions: PrototypeRevision[];
+  analysisRevisions: AnalysisRevision[];
+  collections: PaperCollection[];
+}
+
+// How to resolve an imported paper/prototype whose hash/id already exists
+export type ImportConflictStrategy = "skip" | "overwrite" | "newer";
+
+export interface ImportCounts {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface ImportReport {
+  analyses: ImportCounts;
+  prototypes: ImportCounts;
+  collections: ImportCounts;
+  revisions: number;
+  analysisRevisions: number;
+  // Hashes of analyses that were added or replaced
+  importedHashes: string[];
+}
+
+export function exportLibrary(): LibrarySnapshot {
+  const store = getStorage();
+  return store.transaction(() => ({
+    analyses: store.list("analyses"),
+    // The chat travels as the prototype's history (summaries are rebuilt)
+    prototypes: store.list("prototypes").map(prototype => {
+      const session = store.get("agent_sessions", prototype.id);
+      return session ? { ...prototype, history: session.messages } : prototype;
+    }),
+    revisions: store.list("revisions"),
+    analysisRevisions: store.list("analysis_revisions"),
+    collections: store.list("paper_collections"),
+  }));
+}
+
+/**
+ * Merge a library snapshot into the current store. Papers are matched by
+ * hash, prototypes and collections by id; a paper's analysis revisions and
+ * a prototype's code revisions travel with it.
+ */
+export function importLibrary(snapshot: LibrarySnapshot, conflict: ImportConflictStrategy = "skip"): ImportReport {
+  const store = getStorage();
+  const report: ImportReport = {
+    analyses: { added: 0, updated: 0, skipped: 0 },
+    prototypes: { added: 0, updated: 0, skipped: 0 },
+    collections: { added: 0, updated: 0, skipped: 0 },
+    revisions: 0,
+    analysisRevisions: 0,
+    importedHashes: [],
+  };
+
+  const shouldReplace = (existingTime: number, incomingTime: number) =>
+    conflict === "overwrite" || (conflict === "newer" && incomingTime > existingTime);
+
+  store.transaction(() => {
+    for (const entry of snapshot.collections) {
+      const existing = store.get("paper_collections", entry.id);
+      if (existing && !shouldReplace(existing.updated_at, entry.updated_at)) {
+        report.collections.skipped++;
+        continue;
+      }
+      store.put("paper_collections", entry.id, entry);
+      report.collections[existing ? "updated" : "added"]++;
+    }
+
+    for (const entry of snapshot.analyses) {
+      const existing = store.get("analyses", entry.hash);
+      if (existing && !shouldReplace(existing.created_at, entry.created_at)) {
+        report.analyses.skipped++;
+        continue;
+      }
+      putAnalysis(store, entry);
+      report.analyses[existing ? "updated" : "added"]++;
+      report.importedHashes.push(entry.hash);
+
+      for (const revision of listAnalysisRevisions(store, entry.hash)) {
+        store.remove("analysis_revisions", revision.id);
+      }
+      const revisions = snapshot.analysisRevisions.filter(r => r.hash === entry.hash);
+      for (const revision of revisions) {
+        const id = analysisRevisionId(entry.hash, revision.seq);
+        store.put("analysis_revisions", id, { ...revision, id });
+        report.analysisRevisions++;
+      }
+      // Archives from before analysis revisions were exported
+      if (revisions.length === 0) appendAnalysisRevision(store, entry);
+    }
+
+    for (const entry of snapshot.prototypes) {
+      const existing = store.get("prototypes", entry.id);
+      if (existing && !shouldReplace(existing.updated_at, entry.updated_at)) {
+        report.prototypes.skipped++;
+        continue;
+      }
+      if (existing) removePrototype(store, entry.id);
+      store.put("prototypes", entry.id, entry);
+      report.prototypes[existing ? "updated" : "added"]++;
+
+      const revisions = snapshot.revisions.filter(r => r.prototype_id === entry.id);
+      for (const revision of revisions) {
+        store.put("revisions", revisionId(entry.id, revision.seq), { ...revision, id: revisionId(entry.id, revision.seq) });
+        report.revisions++;
+      }
+      // Archives without revisions/<id>.json still need a base to diff and restore from
+      if (revisions.length === 0) appendRevision(store, entry.id, entry.code, { origin: "initial" });
+    }
+  });
+
+  // Imported analyses may come from an older schema
+  revalidateStoredAnalyses(store);
+  return report;
 }
@@ -0,0 +1,126 @@
+/**
+ * Line Diff Utilities
+ *
+ * Minimal line-based diff (LCS) used to compare prototype revisions.
+ * Prototype files are a few hundred lines, so the O(n·m) table is fine.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DiffLine {
+  type: "equal" | "add" | "remove";
+  text: string;
+  oldLine?: number; // 1-based line number in the old text
+  newLine?: number; // 1-based line number in the new text
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Compute a line-by-line diff between two texts
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "remove", text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      result.push({ type: "add", text: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  while (i < n) {
+    result.push({ type: "remove", text: a[i], oldLine: i + 1 });
+    i++;
+  }
+  while (j < m) {
+    result.push({ type: "add", text: b[j], newLine: j + 1 });
+    j++;
+  }
+
+  return result;
+}
+
+/**
+ * Count added/removed lines in a diff
+ */
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(l => l.type === "add").length,
+    removed: lines.filter(l => l.type === "remove").length,
+  };
+}
+
+/**
+ * Render a diff in unified format (like `diff -u`)
+ */
+export function formatUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  const { fromLabel = "a", toLabel = "b", context = 3 } = options;
+  const lines = diffLines(oldText, newText);
+
+  // Indices of changed lines, grouped into hunks with surrounding context
+  const changed = lines.map((l, idx) => (l.type === "equal" ? -1 : idx)).filter(idx => idx >= 0);
+  if (changed.length === 0) return "";
+
+  const hunks: { start: number; end: number }[] = [];
+  for (const idx of changed) {
+    const start = Math.max(0, idx - context);
+    const end = Math.min(lines.length - 1, idx + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  const out = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const hunk of hunks) {
+    const slice = lines.slice(hunk.start, hunk.end + 1);
+    const oldStart = slice.find(l => l.oldLine !== undefined)?.oldLine ?? 0;
+    const newStart = slice.find(l => l.newLine !== undefined)?.newLine ?? 0;
+    const oldCount = slice.filter(l => l.type !== "add").length;
+    const newCount = slice.filter(l => l.type !== "remove").length;
+
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of slice) {
+      const prefix = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      out.push(prefix + line.text);
+    }
+  }
+
+  return out.join("\n");
+}
@@ -0,0 +1,324 @@
+import fs from "fs";
+import path from "path";
+import { AnalysisValidationError, analyzePaper, type PaperAnalysis } from "./analysis";
+import { similarity, words } from "./analysis-diff";
+import type { PromptVersions } from "./prompts";
+
+// ============================================================================
+// ANALYSIS EVALUATION
+// ============================================================================
+//
+// Runs analyzePaper over a fixture set of papers with known facts and scores
+// what came back, so prompt or model changes can be checked before deploy
+// (see scripts/eval.ts). Each case is a directory:
+//
+//   <dir>/<case>/paper.txt       extracted paper text
+//   <dir>/<case>/expected.json   EvalExpected
+//
+// Claims and equations are matched loosely (shared words / normalized
+// notation), so a reworded claim still counts. Precision is measured against
+// the expected facts only, so papers with many unlisted claims score lower;
+// compare runs against a baseline rather than reading it as an absolute.
+// ============================================================================
+
+export const EVAL_CASES_DIR = path.join(process.cwd(), "fixtures", "eval");
+
+export interface EvalExpected {
+  title: string;
+  authors?: string[];
+  field?: string;
+  // Claims the analysis should find, in any wording
+  claims?: string[];
+  // Equations in plain text notation ("x_{t+1} = x_t - η ∇f(x_t)")
+  equations?: string[];
+  // Breakthrough scores a reasonable analysis lands in
+  score_range?: [number, number];
+}
+
+export interface EvalCase {
+  id: string;
+  text: string;
+  expected: EvalExpected;
+}
+
+export interface MatchStats {
+  expected: number;
+  extracted: number;
+  // Expected items found / extracted items that match an expected one
+  recall: number;
+  precision: number;
+  missed: string[];
+}
+
+export interface EvalRun {
+  // Final output didn't validate even after repair attempts
+  failed: boolean;
+  error?: string;
+  // Repair rounds needed (0 = the first output matched the schema)
+  repairs: number;
+  score?: number;
+  title_match?: boolean;
+  field_match?: boolean;
+  authors_recall?: number;
+  claims?: MatchStats;
+  equations?: MatchStats;
+}
+
+export interface EvalCaseReport {
+  id: string;
+  runs: EvalRun[];
+  // Share of runs whose first output violated the schema (repaired or failed)
+  schema_violation_rate: number;
+  failure_rate: number;
+  title_accuracy: number;
+  field_accuracy: number;
+  authors_recall: number;
+  claims: { precision: number; recall: number };
+  equations: { precision: number; recall: number };
+  score: { mean: number; stddev: number; min: number; max: number; in_range?: number };
+}
+
+export interface EvalReport {
+  created_at: number;
+  runs_per_case: number;
+  model?: string;
+  prompt_versions?: PromptVersions;
+  cases: EvalCaseReport[];
+  // Averages over cases
+  summary: {
+    schema_violation_rate: number;
+    failure_rate: number;
+    title_accuracy: number;
+    field_accuracy: number;
+    authors_recall: number;
+    claims_precision: number;
+    claims_recall: number;
+    equations_precision: number;
+    equations_recall: number;
+    // Mean per-case standard deviation of breakthrough_score
+    score_stddev: number;
+  };
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+export function loadEvalCases(dir: string = EVAL_CASES_DIR, only?: string[]): EvalCase[] {
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && (!only?.length || only.includes(entry.name)))
+    .map(entry => {
+      const caseDir = path.join(dir, entry.name);
+      return {
+        id: entry.name,
+        text: fs.readFileSync(path.join(caseDir, "paper.txt"), "utf-8"),
+        expected: JSON.parse(fs.readFileSync(path.join(caseDir, "expected.json"), "utf-8")),
+      };
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+// An extracted claim matches an expected one if it contains most of its
+// words (extracted claims tend to be longer) or is similar overall
+const CLAIM_COVERAGE = 0.6;
+const CLAIM_SIMILARITY = 0.5;
+
+function claimsMatch(expected: string, extracted: string) {
+  const want = words(expected);
+  const got = words(extracted);
+  if (want.size === 0) return false;
+  let covered = 0;
+  for (const w of want) if (got.has(w)) covered++;
+  return covered / want.size >= CLAIM_COVERAGE || similarity(want, got) >= CLAIM_SIMILARITY;
+}
+
+// "x_{t+1} = x_t - η · L · x_t" -> "x_t+1=x_t-ηlx_t"
+function normalizeEquation(equation: string) {
+  return equation.toLowerCase().replace(/[\s{}\\·*$]/g, "");
+}
+
+function equationsMatch(expected: string, extracted: string) {
+  const want = normalizeEquation(expected);
+  const got = normalizeEquation(extracted);
+  return want.length > 0 && (got.includes(want) || (want.includes(got) && got.length >= want.length / 2));
+}
+
+function matchStats(expected: string[], extracted: string[], matches: (expected: string, extracted: string) => boolean): MatchStats {
+  const missed = expected.filter(e => !extracted.some(x => matches(e, x)));
+  const relevant = extracted.filter(x => expected.some(e => matches(e, x)));
+  return {
+    expected: expected.length,
+    extracted: extracted.length,
+    recall: expected.length ? (expected.length - missed.length) / expected.length : 1,
+    precision: extracted.length ? relevant.length / extracted.length : expected.length ? 0 : 1,
+    missed,
+  };
+}
+
+// Titles may differ in case, punctuation or a dropped subtitle word
+const TITLE_SIMILARITY = 0.8;
+
+// "Ashish Vaswani" matches "A. Vaswani" and "Vaswani, A."
+function lastName(author: string) {
+  const parts = author.includes(",") ? [author.split(",")[0]] : author.trim().split(/\s+/);
+  return parts[parts.length - 1].toLowerCase().replace(/[^\p{L}-]/gu, "");
+}
+
+/**
+ * Score one analysis against the expected facts of its paper
+ */
+export function scoreAnalysis(analysis: PaperAnalysis, expected: EvalExpected): Omit<EvalRun, "failed" | "repairs"> {
+  const authors = new Set((analysis.authors ?? []).map(lastName));
+  const field = words(analysis.field ?? "");
+  return {
+    score: analysis.breakthrough_score,
+    title_match: similarity(words(expected.title), words(analysis.title ?? "")) >= TITLE_SIMILARITY,
+    ...(expected.field && {
+      field_match: field.size > 0 && [...words(expected.field)].every(w => field.has(w)),
+    }),
+    ...(expected.authors?.length && {
+      authors_recall: expected.authors.filter(a => authors.has(lastName(a))).length / expected.authors.length,
+    }),
+    claims: matchStats(expected.claims ?? [], (analysis.key_claims ?? []).map(c => c.claim), claimsMatch),
+    equations: matchStats(
+      expected.equations ?? [],
+      (analysis.key_equations ?? []).map(eq => eq.latex),
+      equationsMatch
+    ),
+  };
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+export interface EvalOptions {
+  runs?: number;
+  model?: string;
+  promptVersions?: PromptVersions;
+  // Called after every run, e.g. for a progress line
+  onRun?: (evalCase: EvalCase, run: EvalRun, index: number) => void;
+}
+
+async function runOnce(evalCase: EvalCase, options: EvalOptions): Promise<EvalRun> {
+  let repairs = 0;
+  try {
+    const analysis = await analyzePaper(evalCase.text, {
+      model: options.model,
+      promptVersions: options.promptVersions,
+      onProgress: event => {
+        if (event.type === "stage" && event.stage === "repairing") repairs++;
+      },
+    });
+    return { failed: false, repairs, ...scoreAnalysis(analysis, evalCase.expected) };
+  } catch (error) {
+    return {
+      failed: true,
+      repairs,
+      error: error instanceof AnalysisValidationError ? error.issues.join("; ") : String(error),
+    };
+  }
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+function stddev(values: number[]) {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+}
+
+function caseReport(evalCase: EvalCase, runs: EvalRun[]): EvalCaseReport {
+  const scored = runs.filter(run => !run.failed);
+  const scores = scored.map(run => run.score ?? 0);
+  const range = evalCase.expected.score_range;
+  const meanOf = (pick: (run: EvalRun) => number | boolean | undefined) =>
+    mean(scored.map(pick).filter(v => v !== undefined).map(Number));
+
+  return {
+    id: evalCase.id,
+    runs,
+    schema_violation_rate: runs.filter(run => run.failed || run.repairs > 0).length / runs.length,
+    failure_rate: (runs.length - scored.length) / runs.length,
+    title_accuracy: meanOf(run => run.title_match),
+    field_accuracy: meanOf(run => run.field_match),
+    authors_recall: meanOf(run => run.authors_recall),
+    claims: { precision: meanOf(run => run.claims?.precision), recall: meanOf(run => run.claims?.recall) },
+    equations: { precision: meanOf(run => run.equations?.precision), recall: meanOf(run => run.equations?.recall) },
+    score: {
+      mean: mean(scores),
+      stddev: stddev(scores),
+      min: scores.length ? Math.min(...scores) : 0,
+      max: scores.length ? Math.max(...scores) : 0,
+      ...(range && { in_range: mean(scores.map(s => Number(s >= range[0] && s <= range[1]))) }),
+    },
+  };
+}
+
+/**
+ * Analyze every case `runs` times (sequentially, to keep rate limits and
+ * recorded fixtures predictable) and aggregate the scores
+ */
+export async function runEval(cases: EvalCase[], options: EvalOptions = {}): Promise<EvalReport> {
+  const runsPerCase = Math.max(1, options.runs ?? 1);
+  const reports: EvalCaseReport[] = [];
+
+  for (const evalCase of cases) {
+    const runs: EvalRun[] = [];
+    for (let i = 0; i < runsPerCase; i++) {
+      const run = await runOnce(evalCase, options);
+      runs.push(run);
+      options.onRun?.(evalCase, run, i);
+    }
+    reports.push(caseReport(evalCase, runs));
+  }
+
+  const avg = (pick: (report: EvalCaseReport) => number) => mean(reports.map(pick));
+  return {
+    created_at: Date.now(),
+    runs_per_case: runsPerCase,
+    ...(options.model && { model: options.model }),
+    ...(options.promptVersions && { prompt_versions: options.promptVersions }),
+    cases: reports,
+    summary: {
+      schema_violation_rate: avg(r => r.schema_violation_rate),
+      failure_rate: avg(r => r.failure_rate),
+      title_accuracy: avg(r => r.title_accuracy),
+      field_accuracy: avg(r => r.field_accuracy),
+      authors_recall: avg(r => r.authors_recall),
+      claims_precision: avg(r => r.claims.precision),
+      claims_recall: avg(r => r.claims.recall),
+      equations_precision: avg(r => r.equations.precision),
+      equations_recall: avg(r => r.equations.recall),
+      score_stddev: avg(r => r.score.stddev),
+    },
+  };
+}
+
+// ============================================================================
+// BASELINE COMPARISON
+// ============================================================================
+
+// Summary metrics where lower is better; everything else should not drop
+const LOWER_IS_BETTER = new Set(["schema_violation_rate", "failure_rate", "score_stddev"]);
+
+/**
+ * Summary metrics that got worse than in the baseline by more than
+ * `tolerance` (absolute; score_stddev in score points x 0.1)
+ */
+export function findRegressions(report: EvalReport, baseline: EvalReport, tolerance = 0.05): string[] {
+  const regressions: string[] = [];
+  for (const [metric, value] of Object.entries(report.summary)) {
+    const before = baseline.summary[metric as keyof EvalReport["summary"]];
+    if (before === undefined) continue;
+    const allowed = metric === "score_stddev" ? tolerance * 10 : tolerance;
+    const worse = LOWER_IS_BETTER.has(metric) ? value - before : before - value;
+    if (worse > allowed) {
+      regressions.push(`${metric}: ${before.toFixed(3)} -> ${value.toFixed(3)}`);
+    }
+  }
+  return regressions;
+}
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evidenceStats, verifyEvidence } from "./evidence";
+import type { PaperAnalysis } from "./analysis-schema";
+
+const TEXT = [
+  "Deformable mirrors correct the wavefront in real time.",
+  "The controller achieves conver-",
+  "gence within 5 ms, and the Strehl ratio rises to 0.8 “under good seeing”.",
+  "Results on the 8 m telescope confirm the model for all guide stars.",
+].join("\n");
+
+function analysis(quotes: string[]): PaperAnalysis {
+  return {
+    title: "Adaptive Optics",
+    authors: [],
+    summary: "",
+    breakthrough_score: 50,
+    breakthrough_reasoning: "",
+    key_claims: quotes.map(quote => ({ claim: "A claim", evidence: [{ quote }] })),
+    testable_hypotheses: [],
+    key_equations: [],
+    simulation_possibilities: [],
+    field: "Optics",
+    related_fields: [],
+    limitations: [],
+    difficulty_to_understand: "Intermediate",
+    prerequisites: [],
+  };
+}
+
+function verify(quote: string) {
+  return verifyEvidence(analysis([quote]), TEXT).key_claims[0].evidence[0];
+}
+
+describe("verifyEvidence", () => {
+  it("records the offsets of exact quotes", () => {
+    const span = verify("correct the wavefront in real time");
+    assert.equal(span.verified, true);
+    assert.equal(TEXT.slice(span.start, span.end), "correct the wavefront in real time");
+  });
+
+  it("matches across line-end hyphenation, spacing, case and curly quotes", () => {
+    const span = verify('the controller achieves convergence  within 5 ms, and the Strehl ratio rises to 0.8 "under good seeing"');
+    assert.equal(span.verified, true);
+    assert.ok(TEXT.slice(span.start, span.end).startsWith("The controller achieves conver-\ngence"));
+    assert.ok(TEXT.slice(span.start, span.end).endsWith("under good seeing"));
+  });
+
+  it("matches elided quotes piece by piece, in order", () => {
+    const span = verify("Deformable mirrors ... within 5 ms");
+    assert.equal(span.verified, true);
+    assert.equal(TEXT.slice(span.start, span.end), TEXT.slice(0, TEXT.indexOf(" ms") + 3));
+
+    assert.equal(verify("within 5 ms ... Deformable mirrors").verified, false);
+  });
+
+  it("flags quotes that are not in the text and drops stale offsets", () => {
+    assert.deepEqual(
+      verifyEvidence(analysis(["mirrors were never tested"]), TEXT).key_claims[0].evidence,
+      [{ quote: "mirrors were never tested", verified: false }]
+    );
+    assert.deepEqual(verifyEvidence(analysis([""]), TEXT).key_claims[0].evidence, [{ quote: "", verified: false }]);
+  });
+
+  it("does not modify the input", () => {
+    const input = analysis(["real time"]);
+    verifyEvidence(input, TEXT);
+    assert.deepEqual(input.key_claims[0].evidence, [{ quote: "real time" }]);
+  });
+});
+
+describe("evidenceStats", () => {
+  it("counts items with at least one verified quote", () => {
+    const verified = verifyEvidence(analysis(["real time", "not in the paper"]), TEXT);
+    assert.deepEqual(evidenceStats(verified), { items: 2, supported: 1, quotes: 2, verified: 1 });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Evidence Verification
+ *
+ * Claims, hypotheses and equations in an analysis carry verbatim quotes from
+ * the paper. Models paraphrase and invent quotes, so every quote is looked up
+ * in the stored raw_text: found quotes get their character offsets and
+ * `verified: true`, the rest are flagged with `verified: false`.
+ *
+ * PDF text extraction mangles whitespace, ligatures, quote marks and
+ * hyphenation at line ends, so quotes that don't match exactly are retried
+ * against a normalized copy of the text whose offsets map back to the
+ * original.
+ */
+
+import type { EvidenceSpan, PaperAnalysis } from "./analysis-schema";
+
+// ============================================================================
+// TEXT NORMALIZATION
+// ============================================================================
+
+interface NormalizedText {
+  text: string;
+  offsets: number[]; // offsets[i] = index in the original of normalized char i
+}
+
+const CHAR_REPLACEMENTS: Record<string, string> = {
+  "‘": "'", "’": "'", "“": '"', "”": '"',
+  "‐": "-", "‑": "-", "‒": "-", "–": "-", "—": "-", "−": "-",
+  "­": "", // soft hyphen
+};
+
+const HYPHEN_BREAK = /-[ \t]*\r?\n\s*/y;
+
+function normalize(text: string): NormalizedText {
+  let out = "";
+  const offsets: number[] = [];
+  let lastWasSpace = true; // also trims leading whitespace
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    // "conver-\ngence" -> "convergence"
+    if (char === "-") {
+      HYPHEN_BREAK.lastIndex = i;
+      const match = HYPHEN_BREAK.exec(text);
+      if (match) {
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+
+    if (/\s/.test(char)) {
+      if (!lastWasSpace) {
+        out += " ";
+        offsets.push(i);
+      }
+      lastWasSpace = true;
+      continue;
+    }
+
+    const replaced = (CHAR_REPLACEMENTS[char] ?? char).normalize("NFKC").toLowerCase();
+    for (const c of replaced) {
+      out += c;
+      offsets.push(i);
+    }
+    lastWasSpace = false;
+  }
+
+  return { text: out, offsets };
+}
+
+// Quotes often come wrapped in quote marks or with elided parts
+function quoteSegments(quote: string): string[] {
+  return quote
+    .split(/\s*(?:\.\.\.|…|\[\.\.\.\])\s*/)
+    .map(segment => normalize(segment).text.replace(/^["'\s]+|["'\s]+$/g, ""))
+    .filter(segment => segment.length > 0);
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+// How far apart the pieces of an elided quote may be
+const MAX_ELISION_GAP = 1500;
+
+// [start, end) of a quote in the original text, or null when the quote (or
+// any piece of an elided quote) is missing
+function locateQuote(text: string, quote: string, normalized: () => NormalizedText): [number, number] | null {
+  const exact = quote.trim() ? text.indexOf(quote.trim()) : -1;
+  if (exact >= 0) return [exact, exact + quote.trim().length];
+
+  const segments = quoteSegments(quote);
+  if (segments.length === 0) return null;
+
+  const haystack = normalized();
+  let from = 0;
+  let first = -1;
+  let last = -1;
+  for (const segment of segments) {
+    const index = haystack.text.indexOf(segment, from);
+    if (index < 0 || (first >= 0 && index - from > MAX_ELISION_GAP)) return null;
+    if (first < 0) first = index;
+    last = index + segment.length - 1;
+    from = last + 1;
+  }
+
+  return [haystack.offsets[first], haystack.offsets[last] + 1];
+}
+
+function verifySpans(spans: EvidenceSpan[], text: string, normalized: () => NormalizedText): EvidenceSpan[] {
+  return spans.map(span => {
+    const location = locateQuote(text, span.quote, normalized);
+    return location
+      ? { quote: span.quote, start: location[0], end: location[1], verified: true }
+      : { quote: span.quote, verified: false };
+  });
+}
+
+/**
+ * Check every evidence quote in an analysis against the paper text and
+ * record its offsets. Returns a new analysis; the input is not modified.
+ */
+export function verifyEvidence<T extends PaperAnalysis>(analysis: T, text: string): T {
+  let cache: NormalizedText | null = null;
+  const normalized = () => (cache ??= normalize(text));
+
+  return {
+    ...analysis,
+    key_claims: analysis.key_claims.map(claim => ({
+      ...claim,
+      evidence: verifySpans(claim.evidence, text, normalized),
+    })),
+    testable_hypotheses: analysis.testable_hypotheses.map(hypothesis => ({
+      ...hypothesis,
+      evidence: verifySpans(hypothesis.evidence, text, normalized),
+    })),
+    key_equations: analysis.key_equations.map(equation => ({
+      ...equation,
+      evidence: verifySpans(equation.evidence, text, normalized),
+    })),
+  };
+}
+
+export interface EvidenceStats {
+  items: number;     // claims + hypotheses + equations
+  supported: number; // items with at least one verified quote
+  quotes: number;
+  verified: number;
+}
+
+export function evidenceStats(analysis: PaperAnalysis): EvidenceStats {
+  const items = [...analysis.key_claims, ...analysis.testable_hypotheses, ...analysis.key_equations];
+  const spans = items.flatMap(item => item.evidence);
+  return {
+    items: items.length,
+    supported: items.filter(item => item.evidence.some(span => span.verified)).length,
+    quotes: spans.length,
+    verified: spans.filter(span => span.verified).length,
+  };
+}
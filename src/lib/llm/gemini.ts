@@ -0,0 +1,101 @@
+import { GoogleGenAI, type Content, type GenerateContentConfig, type GenerateContentResponse } from "@google/genai";
+import type { LlmModelMap, LlmProvider, LlmRequest, LlmStreamEvent, LlmTask, LlmTokenUsage, LlmToolCall } from "./types";
+
+// ============================================================================
+// GEMINI ADAPTER
+// ============================================================================
+
+export const GEMINI_DEFAULT_MODELS: LlmModelMap = {
+  analysis: "gemini-3-pro-preview",
+  analysis_chunk: "gemini-3-flash-preview",
+  quick_analysis: "gemini-3-flash-preview",
+  agent: "gemini-3-flash-preview",
+};
+
+function toConfig(request: LlmRequest): GenerateContentConfig {
+  return {
+    ...(request.system && { systemInstruction: request.system }),
+    ...(request.signal && { abortSignal: request.signal }),
+    ...(request.tools?.length && {
+      tools: [{
+        functionDeclarations: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parametersJsonSchema: tool.parameters,
+        })),
+      }],
+    }),
+    ...(request.responseSchema && {
+      responseMimeType: "application/json",
+      responseJsonSchema: request.responseSchema,
+    }),
+  };
+}
+
+// Visible text and function calls of one response (or stream chunk)
+function readParts(response: GenerateContentResponse) {
+  let text = "";
+  const toolCalls: LlmToolCall[] = [];
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (typeof part.text === "string" && !part.thought) text += part.text;
+    if (part.functionCall?.name) {
+      toolCalls.push({
+        name: part.functionCall.name,
+        args: part.functionCall.args ?? {},
+        ...(part.thoughtSignature && { thoughtSignature: part.thoughtSignature }),
+      });
+    }
+  }
+  return { text, toolCalls };
+}
+
+// Thinking tokens are billed as output
+function readUsage(response: GenerateContentResponse): LlmTokenUsage | undefined {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.promptTokenCount ?? 0,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  };
+}
+
+export function createGeminiProvider(options: { apiKey?: string; models?: Partial<LlmModelMap> } = {}): LlmProvider {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey ?? process.env.GEMINI_API_KEY ?? "" });
+  const models = { ...GEMINI_DEFAULT_MODELS, ...options.models };
+  const model = (task: LlmTask) => models[task];
+  const modelFor = (request: LlmRequest) => request.model ?? model(request.task);
+
+  return {
+    kind: "gemini",
+    model,
+
+    async generate(request) {
+      const response = await ai.models.generateContent({
+        model: modelFor(request),
+        contents: request.messages as Content[],
+        config: toConfig(request),
+      });
+      return { ...readParts(response), model: modelFor(request), usage: readUsage(response) };
+    },
+
+    async stream(request) {
+      const response = await ai.models.generateContentStream({
+        model: modelFor(request),
+        contents: request.messages as Content[],
+        config: toConfig(request),
+      });
+
+      return (async function* (): AsyncGenerator<LlmStreamEvent> {
+        // Every chunk carries the running totals; the last one is final
+        let usage: LlmTokenUsage | undefined;
+        for await (const chunk of response) {
+          const { text, toolCalls } = readParts(chunk);
+          if (text) yield { type: "text", text };
+          for (const call of toolCalls) yield { type: "tool_call", call };
+          usage = readUsage(chunk) ?? usage;
+        }
+        if (usage) yield { type: "usage", usage };
+      })();
+    },
+  };
+}
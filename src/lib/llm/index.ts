@@ -0,0 +1,108 @@
+import path from "path";
+import { recordUsage } from "../db";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider, createRecordingProvider } from "./mock";
+import { createOpenAiProvider } from "./openai";
+import { createMeteredProvider } from "./usage";
+import { LLM_TASKS, type LlmMessage, type LlmModelMap, type LlmProvider, type LlmProviderKind } from "./types";
+
+export type * from "./types";
+
+// ============================================================================
+// LLM CONFIGURATION
+// ============================================================================
+//
+// SCIPROTO_LLM_PROVIDER picks the backend:
+//   gemini (default) - Google Gemini (GEMINI_API_KEY)
+//   openai           - any OpenAI-compatible endpoint, including local
+//                      Ollama / llama.cpp servers (SCIPROTO_OPENAI_*)
+//   mock             - replays recorded fixtures, no network or API key
+//
+// Models are chosen per task:
+//   SCIPROTO_LLM_MODEL                 default for every task
+//   SCIPROTO_LLM_MODEL_ANALYSIS        full paper analysis
+//   SCIPROTO_LLM_MODEL_ANALYSIS_CHUNK  per-section pass over long papers
+//   SCIPROTO_LLM_MODEL_QUICK_ANALYSIS  quick analysis while browsing
+//   SCIPROTO_LLM_MODEL_AGENT           prototype agent
+// Gemini falls back to its built-in defaults; openai needs at least
+// SCIPROTO_LLM_MODEL.
+//
+// SCIPROTO_LLM_FIXTURES sets the fixture directory (default fixtures/llm).
+// SCIPROTO_LLM_RECORD=true saves every real response there as a fixture.
+//
+// Every call's tokens, latency and cost are recorded (see ./usage.ts).
+// ============================================================================
+
+export const LLM_FIXTURES_DIR = process.env.SCIPROTO_LLM_FIXTURES || path.join(process.cwd(), "fixtures", "llm");
+
+function resolveKind(): LlmProviderKind {
+  const kind = (process.env.SCIPROTO_LLM_PROVIDER || "gemini").toLowerCase();
+  if (kind !== "gemini" && kind !== "openai" && kind !== "mock") {
+    console.warn(`[LLM] Unknown SCIPROTO_LLM_PROVIDER "${kind}", falling back to gemini`);
+    return "gemini";
+  }
+  return kind;
+}
+
+// Per-task model overrides from the environment
+function configuredModels(): Partial<LlmModelMap> {
+  const models: Partial<LlmModelMap> = {};
+  for (const task of LLM_TASKS) {
+    const model = process.env[`SCIPROTO_LLM_MODEL_${task.toUpperCase()}`] || process.env.SCIPROTO_LLM_MODEL;
+    if (model) models[task] = model;
+  }
+  return models;
+}
+
+function createOpenAiFromEnv(): LlmProvider {
+  const models = configuredModels();
+  const missing = LLM_TASKS.filter(task => !models[task]);
+  if (missing.length > 0) {
+    throw new Error(`SCIPROTO_LLM_PROVIDER=openai needs a model for: ${missing.join(", ")} (set SCIPROTO_LLM_MODEL)`);
+  }
+
+  return createOpenAiProvider({
+    baseUrl: process.env.SCIPROTO_OPENAI_BASE_URL,
+    apiKey: process.env.SCIPROTO_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+    models: models as LlmModelMap,
+    responseFormat: process.env.SCIPROTO_OPENAI_RESPONSE_FORMAT === "json_object" ? "json_object" : "json_schema",
+  });
+}
+
+function createBaseProvider(): LlmProvider {
+  const kind = resolveKind();
+  if (kind === "mock") {
+    return createMockProvider({ fixturesDir: LLM_FIXTURES_DIR });
+  }
+
+  const provider = kind === "openai"
+    ? createOpenAiFromEnv()
+    : createGeminiProvider({ models: configuredModels() });
+  return process.env.SCIPROTO_LLM_RECORD === "true"
+    ? createRecordingProvider(provider, { fixturesDir: LLM_FIXTURES_DIR })
+    : provider;
+}
+
+function createProvider(): LlmProvider {
+  const provider = createBaseProvider();
+  return process.env.SCIPROTO_LLM_USAGE === "false"
+    ? provider
+    : createMeteredProvider(provider, recordUsage);
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createProvider();
+    const current = provider;
+    const models = LLM_TASKS.map(task => `${task}=${current.model(task)}`).join(", ");
+    console.log(`[LLM] Using ${current.kind} provider (${models})`);
+  }
+  return provider;
+}
+
+// Single user turn
+export function userMessage(text: string): LlmMessage {
+  return { role: "user", parts: [{ text }] };
+}
@@ -0,0 +1,159 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { LlmProvider, LlmRequest, LlmResponse, LlmStreamEvent, LlmTask, LlmToolCall } from "./types";
+
+// ============================================================================
+// MOCK ADAPTER (fixture replay)
+// ============================================================================
+//
+// Replays recorded responses so the analyze -> prototype flow runs offline
+// and deterministically. Fixtures live in <dir>/<task>/:
+//
+//   <key>.json     response recorded for one exact request
+//   default.json   fallback for any other request of that task
+//
+// The key is a hash of the request content (system prompt, messages, tools,
+// schema) - not the model - so fixtures survive model changes. Record new
+// ones by running against a real provider with SCIPROTO_LLM_RECORD=true.
+// ============================================================================
+
+export interface LlmFixture {
+  task: LlmTask;
+  key?: string;
+  model?: string;
+  recorded_at?: number;
+  text: string;
+  tool_calls: LlmToolCall[];
+  // Text as it was streamed; replayed chunk by chunk when present
+  chunks?: string[];
+}
+
+export function fixtureKey(request: LlmRequest) {
+  const content = JSON.stringify({
+    system: request.system ?? "",
+    messages: request.messages,
+    tools: request.tools?.map(t => t.name) ?? [],
+    schema: request.responseSchema ?? null,
+  });
+  return crypto.createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+function fixturePath(dir: string, task: LlmTask, name: string) {
+  return path.join(dir, task, `${name}.json`);
+}
+
+function readFixture(file: string): LlmFixture | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new Error(`Invalid LLM fixture ${file}: ${String(error)}`);
+  }
+}
+
+// Split text into word-sized chunks so replayed streams look like real ones
+function chunkText(text: string) {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+export function createMockProvider(options: { fixturesDir: string }): LlmProvider {
+  const { fixturesDir } = options;
+
+  function load(request: LlmRequest): LlmFixture {
+    const key = fixtureKey(request);
+    const fixture =
+      readFixture(fixturePath(fixturesDir, request.task, key)) ??
+      readFixture(fixturePath(fixturesDir, request.task, "default"));
+    if (!fixture) {
+      throw new Error(`No LLM fixture for task "${request.task}" (key ${key}) in ${fixturesDir}`);
+    }
+    return fixture;
+  }
+
+  return {
+    kind: "mock",
+    model: task => `mock-${task}`,
+
+    async generate(request) {
+      request.signal?.throwIfAborted();
+      const fixture = load(request);
+      return { text: fixture.text, toolCalls: fixture.tool_calls ?? [], model: `mock-${request.task}` };
+    },
+
+    async stream(request) {
+      const fixture = load(request);
+      return (async function* (): AsyncGenerator<LlmStreamEvent> {
+        for (const text of fixture.chunks ?? chunkText(fixture.text)) {
+          request.signal?.throwIfAborted();
+          yield { type: "text", text };
+        }
+        for (const call of fixture.tool_calls ?? []) {
+          request.signal?.throwIfAborted();
+          yield { type: "tool_call", call };
+        }
+      })();
+    },
+  };
+}
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+function writeFixture(dir: string, request: LlmRequest, response: LlmResponse, chunks?: string[]) {
+  const key = fixtureKey(request);
+  const fixture: LlmFixture = {
+    task: request.task,
+    key,
+    model: response.model,
+    recorded_at: Date.now(),
+    text: response.text,
+    tool_calls: response.toolCalls,
+    ...(chunks && { chunks }),
+  };
+  const file = fixturePath(dir, request.task, key);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+    console.log(`[LLM] Recorded fixture ${path.relative(process.cwd(), file)}`);
+  } catch (error) {
+    console.warn("[LLM] Failed to record fixture:", error);
+  }
+}
+
+/**
+ * Wrap a real provider so every response is also saved as a mock fixture
+ */
+export function createRecordingProvider(inner: LlmProvider, options: { fixturesDir: string }): LlmProvider {
+  const { fixturesDir } = options;
+
+  return {
+    kind: inner.kind,
+    model: task => inner.model(task),
+
+    async generate(request) {
+      const response = await inner.generate(request);
+      writeFixture(fixturesDir, request, response);
+      return response;
+    },
+
+    async stream(request) {
+      const events = await inner.stream(request);
+      return (async function* (): AsyncGenerator<LlmStreamEvent> {
+        const chunks: string[] = [];
+        const toolCalls: LlmToolCall[] = [];
+        for await (const event of events) {
+          if (event.type === "text") chunks.push(event.text);
+          else if (event.type === "tool_call") toolCalls.push(event.call);
+          yield event;
+        }
+        writeFixture(fixturesDir, request, {
+          text: chunks.join(""),
+          toolCalls,
+          model: request.model ?? inner.model(request.task),
+        }, chunks);
+      })();
+    },
+  };
+}
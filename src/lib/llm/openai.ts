@@ -0,0 +1,236 @@
+import type {
+  LlmModelMap,
+  LlmProvider,
+  LlmRequest,
+  LlmStreamEvent,
+  LlmTask,
+  LlmTokenUsage,
+  LlmToolCall,
+} from "./types";
+
+// ============================================================================
+// OPENAI-COMPATIBLE ADAPTER
+// ============================================================================
+//
+// Talks to any /v1/chat/completions endpoint: OpenAI itself, or a local
+// server such as Ollama (http://localhost:11434/v1) or llama.cpp
+// (http://localhost:8080/v1). Local servers usually ignore the API key.
+//
+// Structured output uses response_format "json_schema". Servers that only
+// understand "json_object" can be used with responseFormat: "json_object";
+// the schema is then added to the system prompt instead.
+// ============================================================================
+
+export const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+export type OpenAiResponseFormat = "json_schema" | "json_object";
+
+export interface OpenAiProviderOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  models: LlmModelMap;
+  responseFormat?: OpenAiResponseFormat;
+}
+
+// Error carrying the HTTP status, so callers can retry on 429/503
+export class OpenAiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "OpenAiError";
+  }
+}
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+// Our messages only name the function a response belongs to; OpenAI wants
+// the id of the call. Ids are assigned in order and matched by name.
+function toChatMessages(request: LlmRequest, responseFormat: OpenAiResponseFormat): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  let system = request.system ?? "";
+  if (request.responseSchema && responseFormat === "json_object") {
+    system += `\n\nRespond with a single JSON object matching this JSON Schema:\n${JSON.stringify(request.responseSchema)}`;
+  }
+  if (system.trim()) messages.push({ role: "system", content: system.trim() });
+
+  const pending: ChatToolCall[] = [];
+  let callCount = 0;
+
+  for (const message of request.messages) {
+    const text = message.parts.map(p => p.text ?? "").join("");
+
+    if (message.role === "model") {
+      const toolCalls: ChatToolCall[] = message.parts
+        .filter(p => p.functionCall)
+        .map(p => ({
+          id: `call_${++callCount}`,
+          type: "function",
+          function: { name: p.functionCall!.name, arguments: JSON.stringify(p.functionCall!.args ?? {}) },
+        }));
+      pending.push(...toolCalls);
+      messages.push({ role: "assistant", content: text || null, ...(toolCalls.length && { tool_calls: toolCalls }) });
+      continue;
+    }
+
+    for (const part of message.parts) {
+      if (!part.functionResponse) continue;
+      const index = pending.findIndex(c => c.function.name === part.functionResponse!.name);
+      const content = JSON.stringify(part.functionResponse.response);
+      if (index >= 0) {
+        messages.push({ role: "tool", tool_call_id: pending[index].id, content });
+        pending.splice(index, 1);
+      } else {
+        messages.push({ role: "user", content: `Result of ${part.functionResponse.name}: ${content}` });
+      }
+    }
+    if (text) messages.push({ role: "user", content: text });
+  }
+
+  return messages;
+}
+
+function toRequestBody(request: LlmRequest, model: string, responseFormat: OpenAiResponseFormat, stream: boolean) {
+  return {
+    model,
+    messages: toChatMessages(request, responseFormat),
+    stream,
+    // Ask for a final chunk with token counts
+    ...(stream && { stream_options: { include_usage: true } }),
+    ...(request.tools?.length && {
+      tools: request.tools.map(tool => ({
+        type: "function",
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      })),
+    }),
+    ...(request.responseSchema && {
+      response_format: responseFormat === "json_schema"
+        ? { type: "json_schema", json_schema: { name: `${request.task}_response`, schema: request.responseSchema } }
+        : { type: "json_object" },
+    }),
+  };
+}
+
+function readUsage(usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): LlmTokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    throw new Error(`Model returned invalid tool call arguments: ${raw.slice(0, 200)}`);
+  }
+}
+
+// Parse a server-sent event stream into its JSON `data:` payloads
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (!data) continue;
+      if (data === "[DONE]") return;
+      yield JSON.parse(data);
+    }
+  }
+}
+
+export function createOpenAiProvider(options: OpenAiProviderOptions): LlmProvider {
+  const baseUrl = (options.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/$/, "");
+  const responseFormat = options.responseFormat ?? "json_schema";
+  const model = (task: LlmTask) => options.models[task];
+  const modelFor = (request: LlmRequest) => request.model ?? model(request.task);
+
+  async function post(request: LlmRequest, stream: boolean) {
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: JSON.stringify(toRequestBody(request, modelFor(request), responseFormat, stream)),
+      signal: request.signal,
+    });
+    if (!res.ok) {
+      const details = await res.text().catch(() => "");
+      throw new OpenAiError(`Chat completion failed (${res.status}): ${details.slice(0, 500)}`, res.status);
+    }
+    return res;
+  }
+
+  return {
+    kind: "openai",
+    model,
+
+    async generate(request) {
+      const res = await post(request, false);
+      const data = await res.json();
+      const message = data.choices?.[0]?.message ?? {};
+      const toolCalls: LlmToolCall[] = (message.tool_calls ?? []).map((call: ChatToolCall) => ({
+        name: call.function.name,
+        args: parseArguments(call.function.arguments),
+      }));
+      return { text: message.content ?? "", toolCalls, model: modelFor(request), usage: readUsage(data.usage) };
+    },
+
+    async stream(request) {
+      const res = await post(request, true);
+      if (!res.body) throw new OpenAiError("Chat completion returned no body", res.status);
+      const body = res.body;
+
+      return (async function* (): AsyncGenerator<LlmStreamEvent> {
+        // Tool call names/arguments arrive in fragments, keyed by index
+        const calls = new Map<number, { name: string; arguments: string }>();
+        let usage: LlmTokenUsage | undefined;
+
+        for await (const chunk of readEvents(body)) {
+          const { choices, usage: chunkUsage } = chunk as {
+            choices?: { delta?: Record<string, unknown> }[];
+            usage?: { prompt_tokens?: number; completion_tokens?: number };
+          };
+          usage = readUsage(chunkUsage) ?? usage;
+          const delta = choices?.[0]?.delta;
+          if (!delta) continue;
+
+          if (typeof delta.content === "string" && delta.content) {
+            yield { type: "text", text: delta.content };
+          }
+          const toolCalls = (delta.tool_calls ?? []) as {
+            index?: number;
+            function?: { name?: string; arguments?: string };
+          }[];
+          for (const fragment of toolCalls) {
+            const index = fragment.index ?? 0;
+            const call = calls.get(index) ?? { name: "", arguments: "" };
+            call.name += fragment.function?.name ?? "";
+            call.arguments += fragment.function?.arguments ?? "";
+            calls.set(index, call);
+          }
+        }
+
+        for (const call of calls.values()) {
+          yield { type: "tool_call", call: { name: call.name, args: parseArguments(call.arguments) } };
+        }
+        if (usage) yield { type: "usage", usage };
+      })();
+    },
+  };
+}
@@ -0,0 +1,61 @@
+// ============================================================================
+// PARTIAL JSON
+// ============================================================================
+//
+// Structured output streams in as text fragments of one JSON object. To show
+// results before the object is complete, the top-level fields whose values
+// have been fully received are parsed out of the text so far.
+// ============================================================================
+
+/**
+ * Top-level fields of a (possibly incomplete) JSON object whose values are
+ * complete. Text before the first "{" is ignored, so a leading "[" or a
+ * code fence doesn't matter.
+ */
+export function completedFields(text: string): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const start = text.indexOf("{");
+  if (start < 0) return fields;
+
+  const addEntry = (entry: string) => {
+    if (!entry.trim()) return;
+    try {
+      Object.assign(fields, JSON.parse(`{${entry}}`));
+    } catch {
+      // Not a complete "key": value pair
+    }
+  };
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let entryStart = start + 1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 0) {
+        addEntry(text.slice(entryStart, i));
+        break;
+      }
+    } else if (char === "," && depth === 1) {
+      addEntry(text.slice(entryStart, i));
+      entryStart = i + 1;
+    }
+  }
+
+  return fields;
+}
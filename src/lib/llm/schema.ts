@@ -0,0 +1,18 @@
+import { z } from "zod";
+import type { JsonSchema } from "./types";
+
+// ============================================================================
+// SCHEMA CONVERSION
+// ============================================================================
+
+/**
+ * JSON Schema for a Zod schema, for structured output and tool parameters.
+ * Descriptions (`.describe()`) become prompts for the model, so keep them
+ * meaningful. Adapters wrap the result in their own request format.
+ */
+export function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const jsonSchema = z.toJSONSchema(schema, { io: "output" }) as JsonSchema;
+  // The draft URI is noise to every provider we talk to
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
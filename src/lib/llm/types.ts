@@ -0,0 +1,106 @@
+// ============================================================================
+// LLM PROVIDER TYPES
+// ============================================================================
+//
+// Provider-neutral request/response shapes. Messages use the role/parts
+// layout the chat UI already sends (user/model turns with text, function
+// call and function response parts); each adapter converts to its own API.
+// ============================================================================
+
+// What a call is for. Each task can use its own model (see ./index.ts).
+// analysis_chunk is the per-chunk pass over papers too long for one call.
+export type LlmTask = "analysis" | "analysis_chunk" | "quick_analysis" | "agent";
+
+export const LLM_TASKS: LlmTask[] = ["analysis", "analysis_chunk", "quick_analysis", "agent"];
+
+export type LlmModelMap = Record<LlmTask, string>;
+
+// Subset of JSON Schema used for structured output and tool parameters
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  [key: string]: unknown;
+}
+
+export interface LlmToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  // Opaque token Gemini attaches to a call; it has to come back unchanged
+  // with the call (as LlmPart.thoughtSignature) in later requests of the turn
+  thoughtSignature?: string;
+}
+
+export interface LlmPart {
+  text?: string;
+  functionCall?: Omit<LlmToolCall, "thoughtSignature">;
+  functionResponse?: { name: string; response: Record<string, unknown> };
+  thoughtSignature?: string;
+}
+
+export interface LlmMessage {
+  role: "user" | "model";
+  parts: LlmPart[];
+}
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+// What a call's usage is recorded against (see ./usage.ts)
+export interface LlmCallContext {
+  paper_hash?: string;
+  prototype_id?: string;
+  // 0 for the first try; repair attempts and overload retries count up
+  attempt?: number;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  system?: string;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  // Ask for JSON output matching this schema (structured generation)
+  responseSchema?: JsonSchema;
+  // Use this model instead of the one configured for the task
+  model?: string;
+  context?: LlmCallContext;
+  // Cancels the call, including a stream that is being read
+  signal?: AbortSignal;
+}
+
+export interface LlmTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+  model: string;
+  // Token counts as reported by the provider, when it reports them
+  usage?: LlmTokenUsage;
+}
+
+export type LlmStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: LlmToolCall }
+  // Sent once, at the end, by providers that report token counts
+  | { type: "usage"; usage: LlmTokenUsage };
+
+export type LlmProviderKind = "gemini" | "openai" | "mock";
+
+export interface LlmProvider {
+  readonly kind: LlmProviderKind;
+  // Model used for a task (for logging and usage records)
+  model(task: LlmTask): string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  // Resolves once the upstream call is accepted, so connection errors
+  // (overload, auth) surface before any event is read
+  stream(request: LlmRequest): Promise<AsyncIterable<LlmStreamEvent>>;
+}
@@ -0,0 +1,155 @@
+import type { UsageRecord } from "../storage";
+import type { LlmProvider, LlmRequest, LlmStreamEvent, LlmTokenUsage } from "./types";
+
+// ============================================================================
+// USAGE ACCOUNTING
+// ============================================================================
+//
+// Every model call is timed and its token counts recorded, along with the
+// paper / prototype it was made for (LlmRequest.context). Providers that
+// don't report counts (the mock adapter, some local servers) get an
+// estimate of ~4 characters per token.
+//
+// Cost is computed from USD prices per million tokens, matched by model
+// name prefix. SCIPROTO_LLM_PRICES adds or overrides entries:
+//   SCIPROTO_LLM_PRICES='{"qwen2.5": [0, 0], "my-model": [0.5, 1.5]}'
+// Models without a known price are recorded with cost_usd null.
+// ============================================================================
+
+type Price = [input: number, output: number];
+
+const DEFAULT_PRICES: Record<string, Price> = {
+  "gemini-3-pro": [2, 12],
+  "gemini-3-flash": [0.5, 3],
+  "gemini-2.5-pro": [1.25, 10],
+  "gemini-2.5-flash": [0.3, 2.5],
+  "gpt-4o": [2.5, 10],
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4.1": [2, 8],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "mock-": [0, 0],
+};
+
+const CHARS_PER_TOKEN = 4;
+
+function configuredPrices(): Record<string, Price> {
+  const raw = process.env.SCIPROTO_LLM_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(raw) };
+  } catch {
+    console.warn("[LLM] Ignoring SCIPROTO_LLM_PRICES: not valid JSON");
+    return DEFAULT_PRICES;
+  }
+}
+
+const prices = configuredPrices();
+
+// Price of the longest matching model prefix ("gpt-4o-mini-2024-07-18" -> gpt-4o-mini)
+function priceFor(model: string): Price | null {
+  const match = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+/**
+ * Estimated cost in USD, or null if the model has no known price
+ */
+export function estimateCost(model: string, usage: LlmTokenUsage): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  return (usage.inputTokens * price[0] + usage.outputTokens * price[1]) / 1_000_000;
+}
+
+export function estimateTokens(chars: number) {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function requestChars(request: LlmRequest) {
+  return (request.system?.length ?? 0) + JSON.stringify(request.messages).length;
+}
+
+/**
+ * Wrap a provider so every call (including failed ones) is passed to
+ * onRecord once it finishes. A failing onRecord never fails the call.
+ */
+export function createMeteredProvider(
+  inner: LlmProvider,
+  onRecord: (record: Omit<UsageRecord, "id">) => void
+): LlmProvider {
+  function record(request: LlmRequest, startedAt: number, outputChars: number, usage?: LlmTokenUsage, error?: unknown) {
+    const model = request.model ?? inner.model(request.task);
+    const tokens = usage ?? {
+      inputTokens: estimateTokens(requestChars(request)),
+      outputTokens: estimateTokens(outputChars),
+    };
+    try {
+      onRecord({
+        task: request.task,
+        provider: inner.kind,
+        model,
+        ...(request.context?.paper_hash && { paper_hash: request.context.paper_hash }),
+        ...(request.context?.prototype_id && { prototype_id: request.context.prototype_id }),
+        input_tokens: tokens.inputTokens,
+        output_tokens: tokens.outputTokens,
+        ...(!usage && { estimated: true }),
+        latency_ms: Date.now() - startedAt,
+        attempt: request.context?.attempt ?? 0,
+        cost_usd: estimateCost(model, tokens),
+        ...(error !== undefined && { error: error instanceof Error ? error.message : String(error) }),
+        created_at: startedAt,
+      });
+    } catch (recordError) {
+      console.warn("[LLM] Failed to record usage:", recordError);
+    }
+  }
+
+  return {
+    kind: inner.kind,
+    model: task => inner.model(task),
+
+    async generate(request) {
+      const startedAt = Date.now();
+      try {
+        const response = await inner.generate(request);
+        record(request, startedAt, response.text.length + JSON.stringify(response.toolCalls).length, response.usage);
+        return response;
+      } catch (error) {
+        record(request, startedAt, 0, undefined, error);
+        throw error;
+      }
+    },
+
+    async stream(request) {
+      const startedAt = Date.now();
+      let events: AsyncIterable<LlmStreamEvent>;
+      try {
+        events = await inner.stream(request);
+      } catch (error) {
+        record(request, startedAt, 0, undefined, error);
+        throw error;
+      }
+
+      return (async function* (): AsyncGenerator<LlmStreamEvent> {
+        let usage: LlmTokenUsage | undefined;
+        let outputChars = 0;
+        let error: unknown;
+        try {
+          for await (const event of events) {
+            if (event.type === "usage") usage = event.usage;
+            else if (event.type === "text") outputChars += event.text.length;
+            else outputChars += JSON.stringify(event.call).length;
+            yield event;
+          }
+        } catch (streamError) {
+          error = streamError;
+          throw streamError;
+        } finally {
+          // Also runs when the consumer stops reading early
+          record(request, startedAt, outputChars, usage, error);
+        }
+      })();
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readNdjson } from "./ndjson";
+
+// A response whose body arrives in these chunks
+function chunked(chunks: string[], init?: ResponseInit) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, init);
+}
+
+async function read(response: Response) {
+  const events: unknown[] = [];
+  await readNdjson(response, event => events.push(event));
+  return events;
+}
+
+describe("readNdjson", () => {
+  it("reassembles lines split across chunks", async () => {
+    const events = await read(chunked(['{"type":"te', 'xt","content":"a"}\n{"type":"done"}', "\n"]));
+    assert.deepEqual(events, [{ type: "text", content: "a" }, { type: "done" }]);
+  });
+
+  it("reads a last line without a trailing newline and skips malformed lines", async () => {
+    const events = await read(chunked(['{"type":"text"}\nnot json\n\n{"type":"done"}']));
+    assert.deepEqual(events, [{ type: "text" }, { type: "done" }]);
+  });
+
+  it("throws with the server's message for error responses", async () => {
+    await assert.rejects(
+      read(chunked(['{"error":"The agent is still answering","turnId":"t1"}'], { status: 409 })),
+      /The agent is still answering/
+    );
+    await assert.rejects(read(chunked(["gateway timeout"], { status: 504 })), /Request failed \(504\)/);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * NDJSON Streaming
+ *
+ * Newline-delimited JSON (one event object per line) for long-running API
+ * routes, and the matching reader for the pages that call them. Every stream
+ * ends with a `{ type: "done" }` event; failures are sent as
+ * `{ type: "error", message, issues? }` before it.
+ */
+
+export const NDJSON_HEADERS = {
+  "Content-Type": "application/x-ndjson",
+  "Cache-Control": "no-cache",
+  "Connection": "keep-alive",
+};
+
+export type NdjsonControlEvent =
+  | { type: "error"; message: string; issues?: string[] }
+  | { type: "done" };
+
+/**
+ * Stream the events sent by `run` as an NDJSON response. A throw from `run`
+ * becomes an error event; the stream is closed either way.
+ */
+export function ndjsonResponse<E extends { type: string }>(
+  run: (send: (event: E) => void) => Promise<void>,
+  logLabel = "[NDJSON]"
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (event: E | NdjsonControlEvent) =>
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+
+      try {
+        await run(write);
+      } catch (error) {
+        console.error(`${logLabel} Stream error:`, error);
+        // Validation failures carry the individual problems
+        const issues = (error as { issues?: unknown })?.issues;
+        write({
+          type: "error",
+          message: error instanceof Error ? error.message : String(error),
+          ...(Array.isArray(issues) && { issues: issues.map(String) }),
+        });
+      }
+      write({ type: "done" });
+      controller.close();
+    },
+  });
+
+  return new Response(stream, { headers: NDJSON_HEADERS });
+}
+
+/**
+ * Read an NDJSON response body, calling onEvent for each line. Lines split
+ * across network chunks are reassembled; malformed lines are skipped.
+ * Throws for error responses, which are plain JSON rather than a stream.
+ */
+export async function readNdjson<E>(response: Response, onEvent: (event: E | NdjsonControlEvent) => void) {
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  if (!response.body) throw new Error("No response body");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const emit = (line: string) => {
+    if (!line.trim()) return;
+    try {
+      onEvent(JSON.parse(line));
+    } catch {
+      // Ignore parse errors
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(emit);
+  }
+  emit(buffer);
+}
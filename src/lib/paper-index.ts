@@ -0,0 +1,205 @@
+/**
+ * Paper Passage Index
+ *
+ * Lets the prototype agent look things up in a paper instead of getting the
+ * whole text in its first message. The text is split into sections (see
+ * sections.ts) and short passages; search_paper ranks passages with BM25,
+ * read_section returns a section's text a page at a time.
+ *
+ * Indexes are built from the stored raw_text on first use and kept in
+ * memory - a paper takes milliseconds to index, so nothing is persisted.
+ */
+
+import { getAnalysis } from "./db";
+import { tokenize } from "./search";
+import { chunkSections, splitSections, type PaperSection } from "./sections";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaperPassage {
+  index: number;
+  section: string; // section title, with "(part i/n)" for long sections
+  text: string;
+}
+
+export interface PaperIndex {
+  hash: string;
+  title: string;
+  sections: PaperSection[];
+  passages: PaperPassage[];
+  // Term counts per passage (parallel to `passages`), for ranking
+  terms: Map<string, number>[];
+  lengths: number[];
+  avgLength: number;
+  text: string;
+}
+
+export interface PassageHit {
+  index: number;
+  section: string;
+  score: number;
+  text: string;
+}
+
+export interface SectionPage {
+  section: string;
+  part: number;
+  parts: number;
+  text: string;
+}
+
+// Passage size: roughly a paragraph or an algorithm box
+const PASSAGE_CHARS = 1200;
+
+// Text returned by one read_section call
+export const SECTION_PAGE_CHARS = 6000;
+
+// Papers kept indexed in memory
+const CACHE_SIZE = 20;
+
+// BM25 parameters (as in search.ts)
+const K1 = 1.2;
+const B = 0.75;
+
+// A query term in the section title counts like this many in the body
+const TITLE_BOOST = 2;
+
+// ============================================================================
+// INDEXING
+// ============================================================================
+
+function countTerms(text: string) {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+}
+
+export function buildPaperIndex(hash: string, title: string, text: string): PaperIndex {
+  const sections = splitSections(text);
+  const passages: PaperPassage[] = [];
+  for (const section of sections) {
+    for (const chunk of chunkSections(text, [section], PASSAGE_CHARS)) {
+      passages.push({ index: passages.length, section: chunk.sections[0], text: chunk.text.trim() });
+    }
+  }
+
+  const terms = passages.map(p => countTerms(p.text));
+  const lengths = terms.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+  return {
+    hash,
+    title,
+    sections,
+    passages,
+    terms,
+    lengths,
+    avgLength: lengths.reduce((sum, n) => sum + n, 0) / (lengths.length || 1) || 1,
+    text,
+  };
+}
+
+const cache = new Map<string, PaperIndex>();
+
+/**
+ * Index of a stored paper, or null if it doesn't exist or has no text
+ */
+export function getPaperIndex(hash: string): PaperIndex | null {
+  const entry = getAnalysis(hash);
+  if (!entry?.raw_text?.trim()) return null;
+
+  const cached = cache.get(hash);
+  // Re-analysis can replace the text
+  if (cached && cached.text === entry.raw_text) return cached;
+
+  let title = entry.filename;
+  try {
+    title = JSON.parse(entry.analysis_json).title || title;
+  } catch {
+    // Keep the filename
+  }
+
+  const index = buildPaperIndex(hash, title, entry.raw_text);
+  cache.delete(hash);
+  cache.set(hash, index);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return index;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Passages that best match the query, best first
+ */
+export function searchPaper(index: PaperIndex, query: string, limit = 5): PassageHit[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const n = index.passages.length;
+  if (queryTerms.length === 0 || n === 0) return [];
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = index.terms.filter(counts => counts.has(term)).length;
+    idf.set(term, Math.log(1 + (n - df + 0.5) / (df + 0.5)));
+  }
+
+  const hits: PassageHit[] = [];
+  index.passages.forEach((passage, i) => {
+    const titleTerms = new Set(tokenize(passage.section));
+    const norm = K1 * (1 - B + (B * index.lengths[i]) / index.avgLength);
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = (index.terms[i].get(term) ?? 0) + (titleTerms.has(term) ? TITLE_BOOST : 0);
+      if (tf) score += (idf.get(term) ?? 0) * ((tf * (K1 + 1)) / (tf + norm));
+    }
+    if (score > 0) hits.push({ index: passage.index, section: passage.section, score, text: passage.text });
+  });
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+function normalizeTitle(title: string) {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}.]+/gu, " ").trim();
+}
+
+/**
+ * Find a section by title: exact, by number ("3.2"), or by a title word
+ * sequence ("training" finds "4 Training Details")
+ */
+export function findSection(index: PaperIndex, name: string): PaperSection | null {
+  const wanted = normalizeTitle(name);
+  if (!wanted) return null;
+  const titles = index.sections.map(section => normalizeTitle(section.title));
+
+  const exact = titles.indexOf(wanted);
+  if (exact !== -1) return index.sections[exact];
+
+  const numbered = titles.findIndex(title => title.split(" ")[0].replace(/\.$/, "") === wanted.replace(/\.$/, ""));
+  if (numbered !== -1) return index.sections[numbered];
+
+  const partial = titles.findIndex(title => title.includes(wanted));
+  return partial !== -1 ? index.sections[partial] : null;
+}
+
+/**
+ * One page of a section's text; `part` is 1-based
+ */
+export function readSection(index: PaperIndex, section: PaperSection, part = 1): SectionPage {
+  const body = index.text.slice(section.start, section.end).trim();
+  const parts = Math.max(1, Math.ceil(body.length / SECTION_PAGE_CHARS));
+  const page = Math.min(Math.max(1, Math.floor(part)), parts);
+  return {
+    section: section.title,
+    part: page,
+    parts,
+    text: body.slice((page - 1) * SECTION_PAGE_CHARS, page * SECTION_PAGE_CHARS),
+  };
+}
+
+// Section titles with their length, for the agent's system prompt
+export function paperOutline(index: PaperIndex) {
+  return index.sections
+    .map(section => `- ${section.title} (${(section.end - section.start).toLocaleString("en-US")} chars)`)
+    .join("\n");
+}
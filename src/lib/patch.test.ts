@@ -0,0 +1,154 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyEdits, applyUnifiedDiff, formatPatchFailures, parseUnifiedDiff } from "./patch";
+
+const CODE = [
+  "export default function App() {",
+  "  const [count, setCount] = useState(0);",
+  "  return (",
+  "    <div>",
+  "      <button onClick={() => setCount(count + 1)}>Add</button>",
+  "      <span>{count}</span>",
+  "    </div>",
+  "  );",
+  "}",
+].join("\n");
+
+describe("applyEdits", () => {
+  it("replaces an exact, unique match", () => {
+    const result = applyEdits(CODE, [{ search: "useState(0)", replace: "useState(10)" }]);
+    assert.ok(result.ok);
+    assert.match(result.code, /useState\(10\)/);
+  });
+
+  it("applies edits in order, each to the previous result", () => {
+    const result = applyEdits(CODE, [
+      { search: "useState(0)", replace: "useState(1)" },
+      { search: "useState(1)", replace: "useState(2)" },
+    ]);
+    assert.ok(result.ok);
+    assert.match(result.code, /useState\(2\)/);
+  });
+
+  it("applies nothing and reports every failing edit when any edit fails", () => {
+    const result = applyEdits(CODE, [
+      { search: "useState(0)", replace: "useState(1)" },
+      { search: "useReducer()", replace: "useReducer(reducer)" },
+      { search: "<p>missing</p>", replace: "" },
+    ]);
+    assert.ok(!result.ok);
+    assert.equal("code" in result, false);
+    assert.deepEqual(result.failures.map(f => f.index), [1, 2]);
+    assert.match(result.failures[0].reason, /search text not found/);
+  });
+
+  it("rejects a search text that matches more than one place", () => {
+    const code = "const a = 1;\nconst b = 1;\n";
+    const result = applyEdits(code, [{ search: "= 1;", replace: "= 2;" }]);
+    assert.ok(!result.ok);
+    assert.match(result.failures[0].reason, /matches 2 places/);
+  });
+
+  it("rejects an ambiguous match that only appears when ignoring indentation", () => {
+    const code = "if (a) {\n  run();\n}\nif (b) {\n    run();\n}";
+    const result = applyEdits(code, [{ search: "run();\n", replace: "stop();\n" }]);
+    assert.ok(!result.ok);
+    assert.match(result.failures[0].reason, /matches 2 places/);
+  });
+
+  it("rejects an empty search text", () => {
+    const result = applyEdits(CODE, [{ search: "  \n", replace: "x" }]);
+    assert.ok(!result.ok);
+    assert.equal(result.failures[0].reason, "search text is empty");
+  });
+
+  it("fails when no edits are given", () => {
+    const result = applyEdits(CODE, []);
+    assert.ok(!result.ok);
+    assert.equal(result.failures[0].reason, "no edits given");
+  });
+
+  it("matches ignoring indentation and shifts the replacement to fit", () => {
+    const result = applyEdits(CODE, [{
+      search: "<button onClick={() => setCount(count + 1)}>Add</button>\n<span>{count}</span>",
+      replace: "<button onClick={() => setCount(count + 1)}>Add</button>\n<span>{count}</span>\n<span>{count * 2}</span>",
+    }]);
+    assert.ok(result.ok);
+    assert.match(result.code, /\n {6}<span>\{count\}<\/span>\n {6}<span>\{count \* 2\}<\/span>\n/);
+  });
+
+  it("dedents the replacement when the search text was indented too far", () => {
+    const result = applyEdits(CODE, [{
+      search: "        return (",
+      replace: "        const label = `${count}`;\n        return (",
+    }]);
+    assert.ok(result.ok);
+    assert.match(result.code, /\n {2}const label = `\$\{count\}`;\n {2}return \(\n/);
+  });
+
+  it("points at the first line that differs when nothing matches", () => {
+    const result = applyEdits(CODE, [{
+      search: "  return (\n    <section>",
+      replace: "",
+    }]);
+    assert.ok(!result.ok);
+    assert.match(result.failures[0].reason, /closest match starts at line 3, but line 4 is "<div>" instead of "<section>"/);
+  });
+
+  it("treats CRLF line endings like LF", () => {
+    const result = applyEdits(CODE.replace(/\n/g, "\r\n"), [{ search: "  return (\r\n    <div>", replace: "  return (\r\n    <main>" }]);
+    assert.ok(result.ok);
+    assert.match(result.code, /return \(\n {4}<main>/);
+  });
+});
+
+describe("parseUnifiedDiff", () => {
+  it("turns each hunk into a search/replace edit", () => {
+    const diff = [
+      "--- a/App.tsx",
+      "+++ b/App.tsx",
+      "@@ -1,3 +1,3 @@",
+      " export default function App() {",
+      "-  const [count, setCount] = useState(0);",
+      "+  const [count, setCount] = useState(5);",
+      "   return (",
+      "@@ -6,1 +6,2 @@",
+      "       <span>{count}</span>",
+      "+      <span>done</span>",
+      "",
+    ].join("\n");
+
+    assert.deepEqual(parseUnifiedDiff(diff), [
+      {
+        search: "export default function App() {\n  const [count, setCount] = useState(0);\n  return (",
+        replace: "export default function App() {\n  const [count, setCount] = useState(5);\n  return (",
+      },
+      {
+        search: "      <span>{count}</span>",
+        replace: "      <span>{count}</span>\n      <span>done</span>",
+      },
+    ]);
+  });
+
+  it("ignores headers and no-newline markers", () => {
+    const diff = "diff --git a/x b/x\nindex 1..2\n@@ -1 +1 @@\n-a\n+b\n\\ No newline at end of file";
+    assert.deepEqual(parseUnifiedDiff(diff), [{ search: "a", replace: "b" }]);
+  });
+
+  it("applies a diff whose line numbers are wrong", () => {
+    const diff = "@@ -40,2 +40,2 @@\n     <div>\n-      <button onClick={() => setCount(count + 1)}>Add</button>\n+      <button onClick={() => setCount(0)}>Reset</button>";
+    const result = applyUnifiedDiff(CODE, diff);
+    assert.ok(result.ok);
+    assert.match(result.code, /Reset/);
+    assert.doesNotMatch(result.code, />Add</);
+  });
+});
+
+describe("formatPatchFailures", () => {
+  it("numbers failures from 1", () => {
+    assert.equal(
+      formatPatchFailures([{ index: 0, search: "x", reason: "search text is empty" }]),
+      "Edit 1: search text is empty"
+    );
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Prototype Patches
+ *
+ * Applies the agent's edit_prototype calls to the current prototype code, so
+ * small changes don't need the whole component regenerated. An edit is a
+ * search/replace pair; unified-diff hunks are converted to the same form
+ * (context + removed lines -> search, context + added lines -> replace) and
+ * matched by content, since models rarely get hunk line numbers right.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export interface PatchFailure {
+  // 0-based position in the edit list (or hunk in the diff)
+  index: number;
+  search: string;
+  reason: string;
+}
+
+export type PatchResult =
+  | { ok: true; code: string }
+  | { ok: false; failures: PatchFailure[] };
+
+// ============================================================================
+// UNIFIED DIFF
+// ============================================================================
+
+/**
+ * Convert unified-diff hunks into search/replace edits. File headers
+ * (`---`, `+++`, `diff`, `index`) and hunk line numbers are ignored.
+ */
+export function parseUnifiedDiff(diff: string): SearchReplaceEdit[] {
+  const edits: SearchReplaceEdit[] = [];
+  let hunk: { search: string[]; replace: string[] } | null = null;
+
+  const flush = () => {
+    if (hunk && (hunk.search.length || hunk.replace.length)) {
+      edits.push({ search: hunk.search.join("\n"), replace: hunk.replace.join("\n") });
+    }
+  };
+
+  for (const line of diff.replace(/\r\n/g, "\n").split("\n")) {
+    if (line.startsWith("@@")) {
+      flush();
+      hunk = { search: [], replace: [] };
+    } else if (!hunk || line.startsWith("\\")) {
+      // Headers before the first hunk, "\ No newline at end of file"
+      continue;
+    } else if (line.startsWith("-")) {
+      hunk.search.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      hunk.replace.push(line.slice(1));
+    } else {
+      // Context (an empty line is an empty context line)
+      const text = line.startsWith(" ") ? line.slice(1) : line;
+      hunk.search.push(text);
+      hunk.replace.push(text);
+    }
+  }
+  flush();
+
+  // Trailing blank context from the split on the final newline
+  for (const edit of edits) {
+    while (edit.search.endsWith("\n") && edit.replace.endsWith("\n")) {
+      edit.search = edit.search.slice(0, -1);
+      edit.replace = edit.replace.slice(0, -1);
+    }
+  }
+  return edits;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function countOccurrences(text: string, search: string) {
+  let count = 0;
+  for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + 1)) count++;
+  return count;
+}
+
+// Line windows of `lines` equal to `search` ignoring indentation and
+// trailing whitespace; returns their start indexes
+function findLooseMatches(lines: string[], search: string[]) {
+  const starts: number[] = [];
+  for (let i = 0; i + search.length <= lines.length; i++) {
+    if (search.every((line, j) => lines[i + j].trim() === line.trim())) starts.push(i);
+  }
+  return starts;
+}
+
+function trimBlankLines(lines: string[]) {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
+
+// Why `search` wasn't found: the longest prefix of its lines that does match
+function describeMismatch(lines: string[], search: string[]) {
+  let best = { start: -1, matched: 0 };
+  for (let i = 0; i < lines.length; i++) {
+    let matched = 0;
+    while (matched < search.length && i + matched < lines.length &&
+      lines[i + matched].trim() === search[matched].trim()) matched++;
+    if (matched > best.matched) best = { start: i, matched };
+  }
+  if (best.matched === 0) {
+    return `search text not found (no line matches "${search[0].trim()}")`;
+  }
+  const line = best.start + best.matched;
+  return `search text not found: closest match starts at line ${best.start + 1}, ` +
+    `but line ${line + 1} is "${(lines[line] ?? "").trim()}" instead of "${search[best.matched].trim()}"`;
+}
+
+// Shift replacement lines by the indentation difference between the
+// search text and the code it matched
+function reindent(replace: string[], searchLine: string, matchedLine: string) {
+  const from = searchLine.match(/^\s*/)![0];
+  const to = matchedLine.match(/^\s*/)![0];
+  if (to.length > from.length && to.startsWith(from)) {
+    const add = to.slice(from.length);
+    return replace.map(line => (line.trim() ? add + line : line));
+  }
+  if (from.length > to.length && from.startsWith(to)) {
+    const remove = from.length - to.length;
+    return replace.map(line => line.replace(new RegExp(`^\\s{0,${remove}}`), ""));
+  }
+  return replace;
+}
+
+/**
+ * Apply one edit. An exact, unique match is replaced as is; otherwise the
+ * search lines are matched ignoring indentation. Ambiguous matches fail,
+ * so the model adds context instead of patching the wrong place.
+ */
+function applyEdit(code: string, edit: SearchReplaceEdit): { code: string } | { reason: string } {
+  if (!edit.search.trim()) {
+    return { reason: "search text is empty" };
+  }
+
+  const exact = countOccurrences(code, edit.search);
+  if (exact === 1) {
+    return { code: code.replace(edit.search, () => edit.replace) };
+  }
+  if (exact > 1) {
+    return { reason: `search text matches ${exact} places; include more surrounding lines` };
+  }
+
+  const lines = code.split("\n");
+  const search = trimBlankLines(edit.search.split("\n"));
+  const starts = findLooseMatches(lines, search);
+  if (starts.length > 1) {
+    return { reason: `search text matches ${starts.length} places; include more surrounding lines` };
+  }
+  if (starts.length === 0) {
+    return { reason: describeMismatch(lines, search) };
+  }
+
+  const replace = reindent(trimBlankLines(edit.replace.split("\n")), search[0], lines[starts[0]]);
+  lines.splice(starts[0], search.length, ...replace);
+  return { code: lines.join("\n") };
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/**
+ * Apply edits in order, each to the result of the previous ones.
+ * All or nothing: if any edit fails the code is left unchanged and every
+ * failing edit is reported.
+ */
+export function applyEdits(code: string, edits: SearchReplaceEdit[]): PatchResult {
+  if (edits.length === 0) {
+    return { ok: false, failures: [{ index: 0, search: "", reason: "no edits given" }] };
+  }
+
+  const failures: PatchFailure[] = [];
+  const normalize = (text: string) => text.replace(/\r\n/g, "\n");
+  let current = normalize(code);
+  edits.forEach((edit, index) => {
+    const result = applyEdit(current, { search: normalize(edit.search), replace: normalize(edit.replace) });
+    if ("code" in result) current = result.code;
+    else failures.push({ index, search: edit.search, reason: result.reason });
+  });
+
+  return failures.length ? { ok: false, failures } : { ok: true, code: current };
+}
+
+/**
+ * Apply a unified diff (see parseUnifiedDiff) the same way as edits
+ */
+export function applyUnifiedDiff(code: string, diff: string): PatchResult {
+  return applyEdits(code, parseUnifiedDiff(diff));
+}
+
+// One line per failure, for the model and for the chat
+export function formatPatchFailures(failures: PatchFailure[]) {
+  return failures.map(f => `Edit ${f.index + 1}: ${f.reason}`).join("\n");
+}
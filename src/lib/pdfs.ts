@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+import { DATA_DIR } from "./storage";
+
+// ============================================================================
+// ORIGINAL PDF STORAGE
+// ============================================================================
+//
+// Uploaded PDFs are kept next to the database (pdfs/<hash>.pdf) so they can
+// be included in library exports. Papers fetched from arXiv are not stored;
+// they can always be downloaded again.
+// ============================================================================
+
+const PDF_DIR = path.join(DATA_DIR, "pdfs");
+
+// Hashes are hex digests or arxiv-* ids; never let them escape PDF_DIR
+function pdfPath(hash: string) {
+  return path.join(PDF_DIR, `${hash.replace(/[^a-zA-Z0-9-]/g, "-")}.pdf`);
+}
+
+export function savePdf(hash: string, data: Uint8Array) {
+  try {
+    fs.mkdirSync(PDF_DIR, { recursive: true });
+    fs.writeFileSync(pdfPath(hash), data);
+  } catch (e) {
+    // Keeping the original is best-effort (e.g. read-only filesystems)
+    console.warn("[PDF] Failed to store PDF:", e);
+  }
+}
+
+export function readPdf(hash: string): Uint8Array | null {
+  const file = pdfPath(hash);
+  return fs.existsSync(file) ? new Uint8Array(fs.readFileSync(file)) : null;
+}
+
+export function deletePdf(hash: string) {
+  fs.rmSync(pdfPath(hash), { force: true });
+}
@@ -0,0 +1,162 @@
+import fs from "fs";
+import path from "path";
+
+// ============================================================================
+// PROMPT REGISTRY
+// ============================================================================
+//
+// System prompts live in versioned files, one directory per prompt id:
+//
+//   prompts/<id>/<version>.md
+//
+// A file may start with a frontmatter block:
+//
+//   ---
+//   description: Shorter claims, stricter scoring
+//   default: true
+//   ---
+//
+// A prompt's default version is the one marked `default: true`, else the
+// highest version ("v10" > "v9"). SCIPROTO_PROMPT_VERSIONS overrides the
+// defaults, e.g. '{"analysis": "v2"}'. A request can pick other versions
+// (A/B runs); the versions actually used are stored with what they produced.
+// Files are read on every call, so edits apply without a restart.
+// ============================================================================
+
+export type PromptId = "analysis" | "analysis_chunk" | "agent" | "agent_summary";
+
+export const PROMPT_IDS: PromptId[] = ["analysis", "analysis_chunk", "agent", "agent_summary"];
+
+// Prompt id -> version
+export type PromptVersions = Partial<Record<PromptId, string>>;
+
+export interface PromptInfo {
+  id: PromptId;
+  version: string;
+  description?: string;
+  isDefault: boolean;
+}
+
+export interface Prompt extends PromptInfo {
+  text: string;
+}
+
+export class UnknownPromptError extends Error {
+  constructor(readonly id: string, readonly version?: string) {
+    super(version ? `Unknown version "${version}" of prompt "${id}"` : `Unknown prompt "${id}"`);
+    this.name = "UnknownPromptError";
+  }
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n/;
+
+function promptsDir() {
+  return process.env.SCIPROTO_PROMPTS_DIR || path.join(process.cwd(), "prompts");
+}
+
+function isPromptId(id: string): id is PromptId {
+  return (PROMPT_IDS as string[]).includes(id);
+}
+
+function parsePromptFile(id: PromptId, version: string, content: string): Prompt & { markedDefault: boolean } {
+  const match = content.match(FRONTMATTER);
+  const meta: Record<string, string> = {};
+  for (const line of match?.[1].split(/\r?\n/) ?? []) {
+    const separator = line.indexOf(":");
+    if (separator > 0) meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return {
+    id,
+    version,
+    description: meta.description || undefined,
+    isDefault: false,
+    markedDefault: meta.default === "true",
+    text: content.slice(match?.[0].length ?? 0).trim(),
+  };
+}
+
+function configuredDefaults(): PromptVersions {
+  const raw = process.env.SCIPROTO_PROMPT_VERSIONS;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn("[Prompts] Ignoring SCIPROTO_PROMPT_VERSIONS: not valid JSON");
+    return {};
+  }
+}
+
+// Every version of a prompt, oldest first, with the default flagged
+function loadVersions(id: PromptId): Prompt[] {
+  const dir = path.join(promptsDir(), id);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(file => file.endsWith(".md"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const versions = files
+    .map(file => parsePromptFile(id, file.slice(0, -".md".length), fs.readFileSync(path.join(dir, file), "utf-8")))
+    .sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }));
+
+  const configured = configuredDefaults()[id];
+  const defaultVersion =
+    (configured && versions.find(p => p.version === configured)) ||
+    versions.find(p => p.markedDefault) ||
+    versions[versions.length - 1];
+  if (configured && defaultVersion?.version !== configured) {
+    console.warn(`[Prompts] SCIPROTO_PROMPT_VERSIONS: no version "${configured}" of prompt "${id}"`);
+  }
+
+  return versions.map(prompt => ({
+    id,
+    version: prompt.version,
+    description: prompt.description,
+    isDefault: prompt === defaultVersion,
+    text: prompt.text,
+  }));
+}
+
+/**
+ * Load a prompt, in the given version or the default one.
+ * Throws UnknownPromptError if that version (or any version) doesn't exist.
+ */
+export function getPrompt(id: PromptId, version?: string): Prompt {
+  const versions = loadVersions(id);
+  const prompt = version ? versions.find(p => p.version === version) : versions.find(p => p.isDefault);
+  if (!prompt) throw new UnknownPromptError(id, version);
+  return prompt;
+}
+
+// Every prompt version on disk, without the text
+export function listPrompts(): PromptInfo[] {
+  return PROMPT_IDS.flatMap(id => loadVersions(id).map(prompt => ({
+    id: prompt.id,
+    version: prompt.version,
+    description: prompt.description,
+    isDefault: prompt.isDefault,
+  })));
+}
+
+/**
+ * Versions that will be used for `ids`: the requested ones where given,
+ * the defaults otherwise. Throws UnknownPromptError for a requested
+ * version that doesn't exist, so callers can reject a request up front.
+ */
+export function resolvePromptVersions(ids: PromptId[], requested: PromptVersions = {}): PromptVersions {
+  const resolved: PromptVersions = {};
+  for (const id of ids) resolved[id] = getPrompt(id, requested[id]).version;
+  return resolved;
+}
+
+// Keep only well-formed `{ id: version }` pairs from a request body
+export function parsePromptVersions(value: unknown): PromptVersions {
+  if (!value || typeof value !== "object") return {};
+  const versions: PromptVersions = {};
+  for (const [id, version] of Object.entries(value)) {
+    if (isPromptId(id) && typeof version === "string" && version.trim()) versions[id] = version.trim();
+  }
+  return versions;
+}
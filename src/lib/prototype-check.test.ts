@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkPrototype, formatPrototypeDiagnostics } from "./prototype-check";
+
+const VALID = [
+  'import React, { useState } from "react";',
+  'import { LineChart } from "recharts";',
+  "",
+  "export default function App() {",
+  "  const [points, setPoints] = useState<number[]>([]);",
+  "  return <LineChart data={points} onClick={() => setPoints([...points, 1])} />;",
+  "}",
+].join("\n");
+
+describe("checkPrototype", () => {
+  it("accepts code the sandbox can render", () => {
+    assert.deepEqual(checkPrototype(VALID), []);
+  });
+
+  it("accepts other forms of default export", () => {
+    assert.deepEqual(checkPrototype("const App = () => <div />;\nexport default App;"), []);
+    assert.deepEqual(checkPrototype("function App() { return null; }\nexport { App as default };"), []);
+    assert.deepEqual(checkPrototype("export default class App extends React.Component {}"), []);
+  });
+
+  it("reports syntax errors with their position, and nothing else", () => {
+    const diagnostics = checkPrototype('import x from "left-pad";\nexport default function App() {\n  return <div>;\n}');
+    assert.ok(diagnostics.length > 0);
+    assert.ok(diagnostics.every(d => d.message.startsWith("Syntax error:")));
+    assert.equal(diagnostics[0].line, 3);
+  });
+
+  it("reports imports missing from the sandbox import map", () => {
+    const diagnostics = checkPrototype(`import _ from "axios";\n${VALID}`);
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].line, 1);
+    assert.match(diagnostics[0].message, /^Unknown import "axios"\. Available modules: react, /);
+  });
+
+  it("reports a missing default export", () => {
+    const diagnostics = checkPrototype("export function App() {\n  return <div />;\n}");
+    assert.deepEqual(diagnostics, [
+      { line: 1, column: 1, message: "No default export. Add `export default function App()`" },
+    ]);
+  });
+
+  it("reports useState() without an initial value", () => {
+    const diagnostics = checkPrototype(
+      "export default function App() {\n  const [a] = useState();\n  const [b] = React.useState();\n  return null;\n}"
+    );
+    assert.deepEqual(diagnostics.map(d => [d.line, d.column]), [[2, 15], [3, 15]]);
+    assert.ok(diagnostics.every(d => d.message.startsWith("useState() needs an initial value")));
+  });
+
+  it("reports require()", () => {
+    const diagnostics = checkPrototype('const d3 = require("d3");\nexport default function App() { return null; }');
+    assert.deepEqual(diagnostics, [
+      { line: 1, column: 12, message: "require() is not available. Use ES module imports" },
+    ]);
+  });
+
+  it("reports every problem, sorted by position", () => {
+    const diagnostics = checkPrototype(
+      'import _ from "axios";\nfunction App() {\n  const [a] = useState();\n  return require("x");\n}'
+    );
+    assert.deepEqual(diagnostics.map(d => d.line), [1, 1, 3, 4]);
+  });
+});
+
+describe("formatPrototypeDiagnostics", () => {
+  it("prefixes each problem with its position", () => {
+    assert.equal(
+      formatPrototypeDiagnostics([{ line: 2, column: 5, message: "oops" }, { line: 3, column: 1, message: "again" }]),
+      "Line 2:5: oops\nLine 3:1: again"
+    );
+  });
+});
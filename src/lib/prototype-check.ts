@@ -0,0 +1,121 @@
+import ts from "typescript";
+import { PROTOTYPE_IMPORT_MAP } from "./prototype-imports";
+
+/**
+ * Prototype Checks
+ *
+ * Static checks run on the server before generated code is sent to the
+ * sandbox, so the mistakes the sandbox would only report after a render
+ * (see PrototypeRenderer) go straight back to the model instead:
+ *
+ * - syntax errors (parsed as TSX, like the sandbox's Babel presets)
+ * - imports missing from the sandbox import map, and require()
+ * - no `export default`
+ * - `useState()` without an initial value
+ *
+ * Runtime errors still surface in the browser.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PrototypeDiagnostic {
+  // 1-based position in the code
+  line: number;
+  column: number;
+  message: string;
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+const AVAILABLE_IMPORTS = Object.keys(PROTOTYPE_IMPORT_MAP);
+
+function position(source: ts.SourceFile, pos: number) {
+  const { line, character } = source.getLineAndCharacterOfPosition(pos);
+  return { line: line + 1, column: character + 1 };
+}
+
+function syntaxDiagnostics(code: string, source: ts.SourceFile): PrototypeDiagnostic[] {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: "App.tsx",
+    reportDiagnostics: true,
+    compilerOptions: {
+      jsx: ts.JsxEmit.React,
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  return diagnostics.map(diagnostic => ({
+    ...position(source, diagnostic.start ?? 0),
+    message: `Syntax error: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`,
+  }));
+}
+
+function hasDefaultExport(node: ts.Node) {
+  if (ts.isExportAssignment(node) && !node.isExportEquals) return true;
+  if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.modifiers) {
+    const kinds = node.modifiers.map(modifier => modifier.kind);
+    return kinds.includes(ts.SyntaxKind.ExportKeyword) && kinds.includes(ts.SyntaxKind.DefaultKeyword);
+  }
+  // export { App as default }
+  return ts.isExportDeclaration(node) && !!node.exportClause && ts.isNamedExports(node.exportClause) &&
+    node.exportClause.elements.some(element => element.name.text === "default");
+}
+
+// useState() / React.useState()
+function isUseStateCall(node: ts.CallExpression) {
+  const callee = node.expression;
+  return (ts.isIdentifier(callee) && callee.text === "useState") ||
+    (ts.isPropertyAccessExpression(callee) && callee.name.text === "useState");
+}
+
+/**
+ * Check generated prototype code; an empty list means it can be rendered
+ */
+export function checkPrototype(code: string): PrototypeDiagnostic[] {
+  const source = ts.createSourceFile("App.tsx", code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+
+  // Everything below assumes a well-formed tree
+  const syntax = syntaxDiagnostics(code, source);
+  if (syntax.length > 0) return syntax;
+
+  const diagnostics: PrototypeDiagnostic[] = [];
+  const report = (node: ts.Node, message: string) =>
+    diagnostics.push({ ...position(source, node.getStart(source)), message });
+
+  for (const statement of source.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const name = statement.moduleSpecifier.text;
+      if (!PROTOTYPE_IMPORT_MAP[name]) {
+        report(statement, `Unknown import "${name}". Available modules: ${AVAILABLE_IMPORTS.join(", ")}`);
+      }
+    }
+  }
+
+  if (!source.statements.some(hasDefaultExport)) {
+    diagnostics.push({ line: 1, column: 1, message: "No default export. Add `export default function App()`" });
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      if (isUseStateCall(node) && node.arguments.length === 0) {
+        report(node, "useState() needs an initial value, e.g. useState(0) or useState([])");
+      }
+      if (ts.isIdentifier(node.expression) && node.expression.text === "require") {
+        report(node, "require() is not available. Use ES module imports");
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+// One line per problem, for the model and for the chat
+export function formatPrototypeDiagnostics(diagnostics: PrototypeDiagnostic[]) {
+  return diagnostics.map(d => `Line ${d.line}:${d.column}: ${d.message}`).join("\n");
+}
@@ -0,0 +1,136 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  addToSearchIndex,
+  buildSnippets,
+  createSearchIndex,
+  getSearchIndex,
+  rankSearchIndex,
+  removeFromSearchIndex,
+  tokenize,
+} from "./search";
+import { createJsonAdapter } from "./storage/json";
+import { putAnalysis, removeAnalysis } from "./storage/summaries";
+import type { AnalysisEntry } from "./storage/types";
+
+function paper(hash: string, analysis: object, rawText = "", createdAt = 1): AnalysisEntry {
+  return {
+    hash,
+    filename: `${hash}.pdf`,
+    raw_text: rawText,
+    analysis_json: JSON.stringify(analysis),
+    created_at: createdAt,
+  };
+}
+
+const GRAPHS = paper("graphs", {
+  title: "Graph Neural Networks for Anomaly Detection",
+  key_claims: [{ claim: "Message passing finds anomalies without labels" }],
+  key_equations: [{ name: "Update rule", latex: "h_v = \\sigma(W h_u)", description: "Neighbour aggregation" }],
+}, "We study graphs. Anomalies in graphs are rare, so detection needs care.");
+
+const OPTICS = paper("optics", {
+  title: "Adaptive Optics with Deformable Mirrors",
+  key_claims: [{ claim: "Mirror control removes atmospheric blur" }],
+}, "Telescopes suffer from blur. A graph of actuator couplings is used once.");
+
+function indexOf(...entries: AnalysisEntry[]) {
+  const index = createSearchIndex();
+  for (const entry of entries) addToSearchIndex(index, entry);
+  return index;
+}
+
+describe("tokenize", () => {
+  it("lowercases, strips accents, drops stopwords and short words, and stems plurals", () => {
+    assert.deepEqual(tokenize("The Networks of Schrödinger's studies, a x"), ["network", "schrodinger", "study"]);
+  });
+});
+
+describe("rankSearchIndex", () => {
+  it("returns only papers containing a query term, best first", () => {
+    const hits = rankSearchIndex(indexOf(GRAPHS, OPTICS), "graph anomalies");
+    assert.deepEqual(hits.map(h => h.hash), ["graphs", "optics"]);
+    assert.ok(hits[0].score > hits[1].score);
+  });
+
+  it("reports the fields each hit matched in", () => {
+    const [graphs, optics] = rankSearchIndex(indexOf(GRAPHS, OPTICS), "graph");
+    assert.deepEqual(graphs.matchedFields, ["title", "text"]);
+    assert.deepEqual(optics.matchedFields, ["text"]);
+  });
+
+  it("weights a title match above the same match in body text", () => {
+    const inTitle = paper("a", { title: "Mirrors" }, "nothing here");
+    const inText = paper("b", { title: "Other" }, "mirrors");
+    assert.deepEqual(rankSearchIndex(indexOf(inTitle, inText), "mirror").map(h => h.hash), ["a", "b"]);
+  });
+
+  it("finds claims and equations", () => {
+    const index = indexOf(GRAPHS, OPTICS);
+    assert.deepEqual(rankSearchIndex(index, "atmospheric").map(h => [h.hash, h.matchedFields]), [["optics", ["claims"]]]);
+    assert.deepEqual(rankSearchIndex(index, "aggregation").map(h => [h.hash, h.matchedFields]), [["graphs", ["equations"]]]);
+  });
+
+  it("returns nothing for an empty index or a query of stopwords", () => {
+    assert.deepEqual(rankSearchIndex(createSearchIndex(), "graph"), []);
+    assert.deepEqual(rankSearchIndex(indexOf(GRAPHS), "the of a"), []);
+  });
+
+  it("forgets removed papers and re-indexes replaced ones", () => {
+    const index = indexOf(GRAPHS, OPTICS);
+    removeFromSearchIndex(index, "graphs");
+    assert.deepEqual(rankSearchIndex(index, "anomalies").map(h => h.hash), []);
+    assert.equal(index.postings.has("anomaly"), false);
+
+    addToSearchIndex(index, paper("optics", { title: "Lasers" }, "coherent light"));
+    assert.deepEqual(rankSearchIndex(index, "mirror"), []);
+    assert.deepEqual(rankSearchIndex(index, "laser").map(h => h.hash), ["optics"]);
+    assert.equal(index.totalLengths.title, 1);
+  });
+});
+
+describe("getSearchIndex", () => {
+  it("builds from the store and catches up with added, replaced and deleted papers", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sciproto-search-"));
+    try {
+      const store = createJsonAdapter(path.join(dir, "db.json"));
+      putAnalysis(store, GRAPHS);
+      assert.deepEqual(rankSearchIndex(getSearchIndex(store), "graph").map(h => h.hash), ["graphs"]);
+
+      putAnalysis(store, OPTICS);
+      assert.deepEqual(rankSearchIndex(getSearchIndex(store), "graph").map(h => h.hash), ["graphs", "optics"]);
+
+      putAnalysis(store, paper("optics", { title: "Lasers" }, "coherent light", 2));
+      assert.deepEqual(rankSearchIndex(getSearchIndex(store), "graph").map(h => h.hash), ["graphs"]);
+
+      removeAnalysis(store, "graphs");
+      assert.deepEqual(rankSearchIndex(getSearchIndex(store), "graph"), []);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("buildSnippets", () => {
+  it("returns the title, first matching claim and body text with highlighted matches", () => {
+    const snippets = buildSnippets(GRAPHS, "anomalies");
+    assert.deepEqual(snippets.map(s => s.field), ["title", "claims", "text"]);
+
+    const [title] = snippets;
+    assert.equal(title.text, "Graph Neural Networks for Anomaly Detection");
+    assert.deepEqual(title.highlights, [[26, 33]]);
+    assert.equal(title.text.slice(...title.highlights[0]), "Anomaly");
+  });
+
+  it("cuts long text to a window around the matches", () => {
+    const text = `${"filler words here ".repeat(40)}the mirror moved ${"more filler text ".repeat(40)}`;
+    const [body] = buildSnippets(paper("long", { title: "Long" }, text), "mirror");
+    assert.equal(body.field, "text");
+    assert.ok(body.text.startsWith("…") && body.text.endsWith("…"));
+    assert.ok(body.text.length < 240);
+    assert.equal(body.text.slice(...body.highlights[0]), "mirror");
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Full-Text Search
+ *
+ * BM25F-style ranking over analyzed papers. An inverted index (term ->
+ * papers -> occurrences per field) is built in memory from the stored
+ * analyses the first time a store is searched, and caught up with papers
+ * added, re-analyzed or deleted since on every search. Nothing is persisted;
+ * only the top hits load their raw text for snippets.
+ */
+
+import type { AnalysisEntry, StorageAdapter } from "./storage/types";
+import type { PaperAnalysis } from "./analysis-schema";
+
+export type SearchField = "title" | "claims" | "equations" | "text";
+
+export const SEARCH_FIELDS: SearchField[] = ["title", "claims", "equations", "text"];
+
+// Matches in short, curated fields count for more than body text
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  claims: 2,
+  equations: 1.5,
+  text: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 220;
+
+// ============================================================================
+// TOKENIZATION
+// ============================================================================
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was",
+  "we", "were", "which", "with",
+]);
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Light plural stemming so "networks" finds "network"
+function stem(word: string) {
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 3 && word.endsWith("s") && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function normalizeWord(word: string) {
+  return word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+function tokenizeWithOffsets(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = normalizeWord(match[0]);
+    if (word.length < 2 || STOPWORDS.has(word)) continue;
+    tokens.push({ term: stem(word), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map(t => t.term);
+}
+
+// ============================================================================
+// INDEXING
+// ============================================================================
+
+function parseAnalysis(entry: AnalysisEntry): Partial<PaperAnalysis> {
+  try {
+    return JSON.parse(entry.analysis_json);
+  } catch {
+    return {};
+  }
+}
+
+// Text of each searchable field
+function fieldTexts(entry: AnalysisEntry): Record<SearchField, string> {
+  const analysis = parseAnalysis(entry);
+  return {
+    title: analysis.title || entry.filename,
+    // Claims are plain strings in analyses that could not be upgraded
+    claims: (analysis.key_claims ?? []).map(c => typeof c === "string" ? c : c.claim).join("\n"),
+    equations: (analysis.key_equations ?? [])
+      .map(eq => [eq.name, eq.latex, eq.description].filter(Boolean).join(" "))
+      .join("\n"),
+    text: entry.raw_text,
+  };
+}
+
+// Occurrences of a term in one paper, per field
+type FieldCounts = Partial<Record<SearchField, number>>;
+
+interface IndexedPaper {
+  // created_at of the analysis it was built from; a newer one is re-indexed
+  created_at: number;
+  lengths: Record<SearchField, number>;
+  terms: string[];
+}
+
+export interface SearchIndex {
+  // term -> paper hash -> occurrences per field
+  postings: Map<string, Map<string, FieldCounts>>;
+  papers: Map<string, IndexedPaper>;
+  // Sum of each field's length over all papers, for average lengths
+  totalLengths: Record<SearchField, number>;
+}
+
+export function createSearchIndex(): SearchIndex {
+  return {
+    postings: new Map(),
+    papers: new Map(),
+    totalLengths: { title: 0, claims: 0, equations: 0, text: 0 },
+  };
+}
+
+export function removeFromSearchIndex(index: SearchIndex, hash: string) {
+  const paper = index.papers.get(hash);
+  if (!paper) return;
+  for (const term of paper.terms) {
+    const postings = index.postings.get(term);
+    postings?.delete(hash);
+    if (postings?.size === 0) index.postings.delete(term);
+  }
+  for (const field of SEARCH_FIELDS) index.totalLengths[field] -= paper.lengths[field];
+  index.papers.delete(hash);
+}
+
+/**
+ * Index (or re-index) one paper
+ */
+export function addToSearchIndex(index: SearchIndex, entry: AnalysisEntry) {
+  removeFromSearchIndex(index, entry.hash);
+
+  const texts = fieldTexts(entry);
+  const counts = new Map<string, FieldCounts>();
+  const lengths = {} as Record<SearchField, number>;
+
+  for (const field of SEARCH_FIELDS) {
+    const tokens = tokenize(texts[field]);
+    lengths[field] = tokens.length;
+    index.totalLengths[field] += tokens.length;
+    for (const term of tokens) {
+      let fields = counts.get(term);
+      if (!fields) counts.set(term, (fields = {}));
+      fields[field] = (fields[field] ?? 0) + 1;
+    }
+  }
+
+  for (const [term, fields] of counts) {
+    let postings = index.postings.get(term);
+    if (!postings) index.postings.set(term, (postings = new Map()));
+    postings.set(entry.hash, fields);
+  }
+  index.papers.set(entry.hash, { created_at: entry.created_at, lengths, terms: [...counts.keys()] });
+}
+
+// One index per open store, rebuilt when the process starts
+const indexes = new WeakMap<StorageAdapter, SearchIndex>();
+
+/**
+ * The store's search index, brought up to date with its analyses. Papers are
+ * matched to their listing summary by hash and created_at, so changes made
+ * by another process are picked up too.
+ */
+export function getSearchIndex(store: StorageAdapter): SearchIndex {
+  let index = indexes.get(store);
+  if (!index) {
+    index = createSearchIndex();
+    indexes.set(store, index);
+  }
+
+  const current = new Map(store.list("analysis_summaries").map(s => [s.hash, s.created_at]));
+  for (const [hash, paper] of index.papers) {
+    if (current.get(hash) !== paper.created_at) removeFromSearchIndex(index, hash);
+  }
+  for (const hash of current.keys()) {
+    if (index.papers.has(hash)) continue;
+    const entry = store.get("analyses", hash);
+    if (entry) addToSearchIndex(index, entry);
+  }
+  return index;
+}
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+export interface RankedHit {
+  hash: string;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+/**
+ * Score the papers containing any query term (BM25 per field, weighted sum)
+ */
+export function rankSearchIndex(index: SearchIndex, query: string): RankedHit[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const n = index.papers.size;
+  if (queryTerms.length === 0 || n === 0) return [];
+
+  const avgLength = {} as Record<SearchField, number>;
+  for (const field of SEARCH_FIELDS) {
+    avgLength[field] = index.totalLengths[field] / n || 1;
+  }
+
+  const scores = new Map<string, { score: number; fields: Set<SearchField> }>();
+  for (const term of queryTerms) {
+    const postings = index.postings.get(term);
+    if (!postings) continue;
+    // Document frequency over any field
+    const df = postings.size;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+
+    for (const [hash, counts] of postings) {
+      const paper = index.papers.get(hash)!;
+      let hit = scores.get(hash);
+      if (!hit) scores.set(hash, (hit = { score: 0, fields: new Set() }));
+
+      for (const field of SEARCH_FIELDS) {
+        const tf = counts[field];
+        if (!tf) continue;
+        const norm = K1 * (1 - B + (B * paper.lengths[field]) / avgLength[field]);
+        hit.score += FIELD_WEIGHTS[field] * idf * ((tf * (K1 + 1)) / (tf + norm));
+        hit.fields.add(field);
+      }
+    }
+  }
+
+  const hits: RankedHit[] = [];
+  for (const [hash, { score, fields }] of scores) {
+    if (score <= 0) continue;
+    hits.push({ hash, score, matchedFields: SEARCH_FIELDS.filter(f => fields.has(f)) });
+  }
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// SNIPPETS
+// ============================================================================
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  // [start, end) character ranges in `text` that matched the query
+  highlights: [number, number][];
+}
+
+/**
+ * Cut the window of `text` that contains the most distinct query terms and
+ * mark every match in it
+ */
+function snippetFor(field: SearchField, text: string, queryTerms: Set<string>, maxLength: number): SearchSnippet | null {
+  const matches = tokenizeWithOffsets(text).filter(t => queryTerms.has(t.term));
+  if (matches.length === 0) return null;
+
+  // Slide a window over the matches and keep the one (at most maxLength
+  // characters) covering the most distinct terms
+  const counts = new Map<string, number>();
+  let bestStart = 0;
+  let bestDistinct = 0;
+  let i = 0;
+  for (let j = 0; j < matches.length; j++) {
+    counts.set(matches[j].term, (counts.get(matches[j].term) ?? 0) + 1);
+    while (matches[j].end - matches[i].start > maxLength) {
+      const count = counts.get(matches[i].term)! - 1;
+      if (count === 0) counts.delete(matches[i].term);
+      else counts.set(matches[i].term, count);
+      i++;
+    }
+    if (counts.size > bestDistinct) {
+      bestDistinct = counts.size;
+      bestStart = i;
+    }
+  }
+
+  // Center the window a little before the first match
+  const first = matches[bestStart];
+  let start = Math.max(0, first.start - Math.floor(maxLength / 4));
+  let end = Math.min(text.length, start + maxLength);
+  start = Math.max(0, end - maxLength);
+
+  // Don't cut words in half
+  while (start > 0 && /\S/.test(text[start - 1])) start--;
+  while (end < text.length && /\S/.test(text[end])) end++;
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  // Whitespace is replaced one-for-one so offsets stay valid
+  const body = text.slice(start, end).replace(/\s/g, " ");
+
+  const highlights = matches
+    .filter(m => m.start >= start && m.end <= end)
+    .map(m => [m.start - start + prefix.length, m.end - start + prefix.length] as [number, number]);
+
+  return { field, text: prefix + body + suffix, highlights };
+}
+
+/**
+ * Highlighted snippets for one hit, best field first (title, a matching
+ * claim, a matching equation, then the body text)
+ */
+export function buildSnippets(entry: AnalysisEntry, query: string): SearchSnippet[] {
+  const queryTerms = new Set(tokenize(query));
+  const texts = fieldTexts(entry);
+  const snippets: SearchSnippet[] = [];
+
+  const title = snippetFor("title", texts.title, queryTerms, Infinity);
+  if (title) snippets.push(title);
+
+  for (const field of ["claims", "equations"] as const) {
+    // One line per claim/equation; show the first that matches
+    for (const line of texts[field].split("\n")) {
+      const snippet = snippetFor(field, line, queryTerms, SNIPPET_LENGTH);
+      if (snippet) {
+        snippets.push(snippet);
+        break;
+      }
+    }
+  }
+
+  const body = snippetFor("text", texts.text, queryTerms, SNIPPET_LENGTH);
+  if (body) snippets.push(body);
+
+  return snippets;
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FRONT_MATTER_TITLE, chunkSections, isBackMatter, splitSections } from "./sections";
+
+const PAPER = [
+  "Adaptive Optics for Everyone",
+  "A. Author, B. Author",
+  "Abstract",
+  "We correct blur.",
+  "1 Introduction",
+  "Telescopes see blur.",
+  "A new method is proposed here.",
+  "2.1 Mirror Control",
+  "The mirror moves.",
+  "Table 3.2 shows 0.5 gain, 0.7 loss",
+  "IV. EXPERIMENTS",
+  "It works.",
+  "References",
+  "[1] Someone. A paper.",
+  "A.1 Proof of Lemma 2",
+  "Trivially true.",
+].join("\n");
+
+describe("splitSections", () => {
+  it("finds named, numbered, roman and appendix headings", () => {
+    assert.deepEqual(splitSections(PAPER).map(s => s.title), [
+      FRONT_MATTER_TITLE,
+      "Abstract",
+      "1 Introduction",
+      "2.1 Mirror Control",
+      "IV. EXPERIMENTS",
+      "References",
+      "A.1 Proof of Lemma 2",
+    ]);
+  });
+
+  it("covers the text without gaps, each section starting at its heading", () => {
+    const sections = splitSections(PAPER);
+    assert.equal(sections[0].start, 0);
+    assert.equal(sections[sections.length - 1].end, PAPER.length);
+    for (let i = 1; i < sections.length; i++) {
+      assert.equal(sections[i].start, sections[i - 1].end);
+    }
+    assert.ok(PAPER.slice(sections[2].start).startsWith("1 Introduction\n"));
+  });
+
+  it("returns one front matter section when there are no headings", () => {
+    assert.deepEqual(splitSections("just some text\nwith lines"), [
+      { title: FRONT_MATTER_TITLE, start: 0, end: 25 },
+    ]);
+  });
+
+  it("does not mistake sentences starting with a letter for appendix headings", () => {
+    const titles = splitSections("1 Introduction\nA new method is proposed.\nB cells respond.").map(s => s.title);
+    assert.deepEqual(titles, ["1 Introduction"]);
+  });
+});
+
+describe("isBackMatter", () => {
+  it("matches references and acknowledgements, numbered or not", () => {
+    const back = (title: string) => isBackMatter({ title, start: 0, end: 0 });
+    assert.equal(back("References"), true);
+    assert.equal(back("7 Acknowledgments"), true);
+    assert.equal(back("Results"), false);
+  });
+});
+
+describe("chunkSections", () => {
+  it("packs whole sections together up to the limit", () => {
+    const text = "1 Intro\naaaa\n2 Method\nbbbb\n3 Results\ncccc\n";
+    const chunks = chunkSections(text, splitSections(text), 30);
+    assert.deepEqual(chunks.map(c => c.sections), [["1 Intro", "2 Method"], ["3 Results"]]);
+    assert.equal(chunks.map(c => c.text).join(""), text);
+    assert.deepEqual(chunks.map(c => c.index), [0, 1]);
+  });
+
+  it("splits a long section at paragraph breaks and labels its parts", () => {
+    const text = `1 Long\n${"x".repeat(30)}\n\n${"y".repeat(30)}\n\n${"z".repeat(30)}`;
+    const chunks = chunkSections(text, splitSections(text), 50);
+
+    assert.deepEqual(chunks.flatMap(c => c.sections), ["1 Long (part 1/3)", "1 Long (part 2/3)", "1 Long (part 3/3)"]);
+    assert.ok(chunks.every(c => c.text.length <= 50));
+    assert.equal(chunks.map(c => c.text).join(""), text);
+  });
+
+  it("cuts text without line breaks at the limit", () => {
+    const text = "a".repeat(120);
+    const chunks = chunkSections(text, splitSections(text), 50);
+    assert.deepEqual(chunks.map(c => c.text.length), [50, 50, 20]);
+  });
+});
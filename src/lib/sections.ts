@@ -0,0 +1,162 @@
+/**
+ * Paper Section Utilities
+ *
+ * Heuristic section detection for text extracted from PDFs, and packing of
+ * sections into chunks small enough for one model call. Extracted text has
+ * no structure beyond line breaks, so headings are recognised by shape:
+ * numbered ("3.2 Training"), roman ("IV. EXPERIMENTS"), appendix letters
+ * ("A.1 Proof of Lemma 2") and well-known unnumbered names ("References").
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaperSection {
+  title: string;
+  start: number; // offset of the heading line in the text
+  end: number;   // offset where the next section starts
+}
+
+export interface PaperChunk {
+  index: number;
+  sections: string[]; // titles of the sections (or parts of them) in this chunk
+  text: string;
+}
+
+// ============================================================================
+// SECTION DETECTION
+// ============================================================================
+
+export const FRONT_MATTER_TITLE = "Front matter";
+
+const NAMED_HEADING = /^(abstract|introduction|background|related work|preliminaries|methods?|methodology|approach|experiments?|experimental (?:setup|results)|results|evaluation|discussion|conclusions?|limitations|future work|references|bibliography|acknowledge?ments?|appendix|appendices|supplementary materials?)\s*:?$/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,2})\.?\s+([A-Z].{1,78})$/;
+const ROMAN_HEADING = /^([IVX]{1,5})\.\s+([A-Z][A-Z0-9 ,:&'-]{2,78})$/;
+const APPENDIX_HEADING = /^(?:Appendix\s+)?([A-H](?:\.\d{1,2}){0,2})\.?\s+([A-Z].{1,78})$/;
+const EXPLICIT_APPENDIX = /^Appendix\s+[A-H]\b/;
+
+// Sections that carry no findings of their own
+const BACK_MATTER = /^(?:[\dA-Z.]+\s+)?(references|bibliography|acknowledge?ments?)$/i;
+
+function looksLikeTitle(title: string): boolean {
+  const words = title.split(/\s+/);
+  return words.length <= 12
+    && !/[.,;]$/.test(title)          // sentences and reference entries
+    && !/\d+\.\d+/.test(title)        // table rows with decimals
+    && (title.match(/[A-Za-z]/g)?.length ?? 0) >= title.length / 2;
+}
+
+function headingTitle(line: string, inAppendix: boolean): string | null {
+  if (line.length > 90) return null;
+
+  if (NAMED_HEADING.test(line)) return line.replace(/\s*:$/, "");
+
+  let match = line.match(NUMBERED_HEADING);
+  if (match && Number(match[1].split(".")[0]) <= 30 && looksLikeTitle(match[2])) {
+    return `${match[1]} ${match[2]}`;
+  }
+
+  match = line.match(ROMAN_HEADING);
+  if (match && looksLikeTitle(match[2])) return `${match[1]}. ${match[2]}`;
+
+  // Single letters are also articles ("A new method"), so letter headings
+  // only count once the appendix has started or when spelled out
+  match = line.match(APPENDIX_HEADING);
+  if (match && (inAppendix || EXPLICIT_APPENDIX.test(line)) && looksLikeTitle(match[2])) {
+    return `${match[1]} ${match[2]}`;
+  }
+
+  return null;
+}
+
+/**
+ * Split paper text into sections at detected headings. Text before the
+ * first heading (title, authors, often the abstract) is "Front matter".
+ * Returns a single section spanning the text when no headings are found.
+ */
+export function splitSections(text: string): PaperSection[] {
+  const headings: { title: string; start: number }[] = [];
+  let inAppendix = false;
+  let offset = 0;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    const title = line && headingTitle(line, inAppendix);
+    if (title) {
+      headings.push({ title, start: offset });
+      if (/^(references|bibliography|appendix|appendices)/i.test(title) || EXPLICIT_APPENDIX.test(title)) {
+        inAppendix = true;
+      }
+    }
+    offset += rawLine.length + 1;
+  }
+
+  if (headings.length === 0 || headings[0].start > 0) {
+    headings.unshift({ title: FRONT_MATTER_TITLE, start: 0 });
+  }
+
+  return headings
+    .map((heading, i) => ({
+      title: heading.title,
+      start: heading.start,
+      end: i + 1 < headings.length ? headings[i + 1].start : text.length,
+    }))
+    .filter(section => text.slice(section.start, section.end).trim());
+}
+
+/**
+ * Reference lists and acknowledgements - safe to leave out of analysis
+ */
+export function isBackMatter(section: PaperSection): boolean {
+  return BACK_MATTER.test(section.title);
+}
+
+// ============================================================================
+// CHUNKING
+// ============================================================================
+
+// Cut a long section at paragraph (or failing that, line) boundaries
+function splitText(text: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < maxChars / 2) cut = window.lastIndexOf("\n");
+    if (cut < maxChars / 2) cut = maxChars;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  if (rest.trim()) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Pack consecutive sections into chunks of at most maxChars. Sections are
+ * kept whole where they fit; longer ones are split and labelled by part.
+ */
+export function chunkSections(text: string, sections: PaperSection[], maxChars: number): PaperChunk[] {
+  const chunks: PaperChunk[] = [];
+  let current: { sections: string[]; text: string } = { sections: [], text: "" };
+
+  const flush = () => {
+    if (!current.text.trim()) return;
+    chunks.push({ index: chunks.length, ...current });
+    current = { sections: [], text: "" };
+  };
+
+  for (const section of sections) {
+    const body = text.slice(section.start, section.end);
+    const parts = splitText(body, maxChars);
+
+    parts.forEach((part, i) => {
+      if (current.text.length + part.length > maxChars) flush();
+      current.sections.push(parts.length > 1 ? `${section.title} (part ${i + 1}/${parts.length})` : section.title);
+      current.text += part;
+    });
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { createJsonAdapter } from "./json";
+import { runMigrations } from "./migrations";
+import { createSqliteAdapter } from "./sqlite";
+import { putAnalysis } from "./summaries";
+import type { StorageAdapter, StorageKind } from "./types";
+
+export type * from "./types";
+
+// ============================================================================
+// STORAGE CONFIGURATION
+// ============================================================================
+//
+// SCIPROTO_STORAGE picks the backend:
+//   json   (default) - single JSON file (sciproto-db.json)
+//   sqlite           - embedded SQLite database (sciproto.db)
+//
+// LOCAL DEV: files live in the project root
+// VERCEL PROD: files live in /tmp (ephemeral but writable per invocation)
+//
+// The first time the SQLite backend opens, an existing sciproto-db.json is
+// imported into it automatically (once). Schema migrations (./migrations.ts)
+// run whenever a backend is opened.
+// ============================================================================
+
+const isVercel = process.env.VERCEL === "1";
+export const DATA_DIR = isVercel ? "/tmp" : process.cwd();
+
+export const JSON_DB_PATH = process.env.SCIPROTO_JSON_PATH || path.join(DATA_DIR, "sciproto-db.json");
+export const SQLITE_DB_PATH = process.env.SCIPROTO_SQLITE_PATH || path.join(DATA_DIR, "sciproto.db");
+
+const JSON_IMPORT_META_KEY = "imported_from_json";
+
+function resolveKind(): StorageKind {
+  const kind = (process.env.SCIPROTO_STORAGE || "json").toLowerCase();
+  if (kind !== "json" && kind !== "sqlite") {
+    console.warn(`[DB] Unknown SCIPROTO_STORAGE "${kind}", falling back to json`);
+    return "json";
+  }
+  return kind;
+}
+
+/**
+ * Copy every document from a sciproto-db.json file into another adapter.
+ * Existing documents with the same id are overwritten.
+ */
+export function importJsonFile(target: StorageAdapter, jsonPath: string = JSON_DB_PATH) {
+  const source = createJsonAdapter(jsonPath);
+  const analyses = source.list("analyses");
+  const prototypes = source.list("prototypes");
+  const revisions = source.list("revisions");
+  const analysisRevisions = source.list("analysis_revisions");
+  const collections = source.list("paper_collections");
+  const usage = source.list("usage");
+  const quickScores = source.list("quick_scores");
+  const agentSessions = source.list("agent_sessions");
+
+  target.transaction(() => {
+    for (const entry of analyses) putAnalysis(target, entry);
+    for (const entry of prototypes) target.put("prototypes", entry.id, entry);
+    for (const entry of revisions) target.put("revisions", entry.id, entry);
+    for (const entry of analysisRevisions) target.put("analysis_revisions", entry.id, entry);
+    for (const entry of collections) target.put("paper_collections", entry.id, entry);
+    for (const entry of usage) target.put("usage", entry.id, entry);
+    for (const entry of quickScores) target.put("quick_scores", entry.id, entry);
+    for (const entry of agentSessions) target.put("agent_sessions", entry.id, entry);
+  });
+
+  return {
+    analyses: analyses.length,
+    prototypes: prototypes.length,
+    revisions: revisions.length,
+    collections: collections.length,
+  };
+}
+
+// One-shot migration: seed a fresh SQLite database from the JSON file
+function importJsonOnce(adapter: StorageAdapter) {
+  if (adapter.getMeta(JSON_IMPORT_META_KEY)) return;
+
+  if (fs.existsSync(JSON_DB_PATH)) {
+    const counts = importJsonFile(adapter, JSON_DB_PATH);
+    console.log(
+      `[DB] Imported ${counts.analyses} analyses and ${counts.prototypes} prototypes from ${JSON_DB_PATH}`
+    );
+  }
+  adapter.setMeta(JSON_IMPORT_META_KEY, String(Date.now()));
+}
+
+function createStorage(): StorageAdapter {
+  const kind = resolveKind();
+
+  let adapter: StorageAdapter;
+  if (kind === "sqlite") {
+    adapter = createSqliteAdapter(SQLITE_DB_PATH);
+    importJsonOnce(adapter);
+  } else {
+    // On Vercel, /tmp writes might fail in edge cases - log but don't crash
+    adapter = createJsonAdapter(JSON_DB_PATH, { ignoreWriteErrors: isVercel });
+  }
+
+  runMigrations(adapter);
+  return adapter;
+}
+
+let storage: StorageAdapter | null = null;
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createStorage();
+    console.log(`[DB] Using ${storage.kind} storage`);
+  }
+  return storage;
+}
@@ -0,0 +1,90 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createJsonAdapter } from "./json";
+import type { PrototypeEntry } from "./types";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sciproto-json-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let n = 0;
+function dbPath() {
+  return path.join(dir, `db-${n++}.json`);
+}
+
+function prototype(id: string): PrototypeEntry {
+  return { id, title: "Demo", code: "", history: [], created_at: 1, updated_at: 1 };
+}
+
+describe("json adapter writes", () => {
+  it("replace the file without leaving temp or lock files behind", () => {
+    const file = dbPath();
+    const store = createJsonAdapter(file);
+    store.put("prototypes", "a", prototype("a"));
+    store.transaction(() => store.put("prototypes", "b", prototype("b")));
+
+    assert.deepEqual(fs.readdirSync(dir).filter(name => name.includes(path.basename(file))), [path.basename(file)]);
+    assert.deepEqual(Object.keys(JSON.parse(fs.readFileSync(file, "utf-8")).prototypes), ["a", "b"]);
+  });
+
+  it("read files in the old layout with analyses at the root", () => {
+    const file = dbPath();
+    fs.writeFileSync(file, JSON.stringify({ abc: { hash: "abc", filename: "a.pdf", raw_text: "", analysis_json: "{}", created_at: 1 } }));
+    assert.equal(createJsonAdapter(file).get("analyses", "abc")?.filename, "a.pdf");
+  });
+
+  it("move a file that fails to parse aside instead of overwriting it", () => {
+    const file = dbPath();
+    fs.writeFileSync(file, "{ truncated");
+    const store = createJsonAdapter(file);
+
+    assert.equal(store.count("prototypes"), 0);
+    const quarantined = fs.readdirSync(dir).filter(name => name.startsWith(`${path.basename(file)}.corrupt-`));
+    assert.equal(quarantined.length, 1);
+    assert.equal(fs.readFileSync(path.join(dir, quarantined[0]), "utf-8"), "{ truncated");
+
+    store.put("prototypes", "a", prototype("a"));
+    assert.equal(store.count("prototypes"), 1);
+  });
+});
+
+describe("json adapter lock", () => {
+  it("fails with an error while another process holds the lock", () => {
+    const file = dbPath();
+    fs.writeFileSync(`${file}.lock`, "other");
+    const store = createJsonAdapter(file);
+
+    const startedAt = Date.now();
+    assert.throws(() => store.put("prototypes", "a", prototype("a")), /Timed out waiting for lock/);
+    assert.ok(Date.now() - startedAt < 5_000);
+    assert.equal(fs.readFileSync(`${file}.lock`, "utf-8"), "other");
+  });
+
+  it("breaks a stale lock left by a crashed process", () => {
+    const file = dbPath();
+    const lockPath = `${file}.lock`;
+    fs.writeFileSync(lockPath, "crashed");
+    const longAgo = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, longAgo, longAgo);
+
+    const store = createJsonAdapter(file);
+    store.put("prototypes", "a", prototype("a"));
+    assert.equal(store.count("prototypes"), 1);
+    assert.equal(fs.existsSync(lockPath), false);
+    assert.deepEqual(fs.readdirSync(dir).filter(name => name.startsWith(`${path.basename(file)}.lock`)), []);
+  });
+
+  it("does not remove a lock that another process took over", () => {
+    const file = dbPath();
+    const lockPath = `${file}.lock`;
+    const store = createJsonAdapter(file);
+
+    store.transaction(() => {
+      // Our lock was broken as stale and someone else locked the file
+      fs.writeFileSync(lockPath, "other");
+    });
+    assert.equal(fs.readFileSync(lockPath, "utf-8"), "other");
+  });
+});
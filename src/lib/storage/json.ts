@@ -0,0 +1,280 @@
+import fs from "fs";
+import path from "path";
+import { COLLECTIONS } from "./types";
+import type { Collection, DbSchema, Doc, ListOptions, StorageAdapter } from "./types";
+
+// ============================================================================
+// JSON FILE ADAPTER
+// ============================================================================
+//
+// Keeps the whole database in a single JSON file (sciproto-db.json).
+// Simple and diff-friendly, but every call re-reads and re-writes the file,
+// so it slows down as the library grows. Use the SQLite adapter for larger
+// libraries.
+//
+// Safety:
+// - Writes go to a temp file that is fsync'd and renamed over the original,
+//   so a crash mid-write never leaves a half-written database behind.
+// - Every read-modify-write holds a lock file (<db>.lock), so concurrent
+//   requests from different processes don't lose each other's updates.
+//   (Within one process the adapter is synchronous, so calls can't interleave.)
+// - A file that fails to parse is moved aside (<db>.corrupt-<timestamp>)
+//   instead of being overwritten by the next write.
+// ============================================================================
+
+// Waiting blocks the whole server thread, so give up quickly: a write holds
+// the lock for milliseconds, and a crashed holder's lock goes stale anyway
+const LOCK_TIMEOUT_MS = 2_000;
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+
+interface JsonFile extends DbSchema {
+  meta?: Record<string, string>;
+}
+
+function emptyDb(): JsonFile {
+  return { analyses: {}, analysis_summaries: {}, prototypes: {}, revisions: {}, analysis_revisions: {}, paper_collections: {}, usage: {}, quick_scores: {}, agent_sessions: {} };
+}
+
+// Block the current thread (the adapter API is synchronous)
+function sleepSync(ms: number) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function readOwner(lockPath: string): string | null {
+  try {
+    return fs.readFileSync(lockPath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+// Break a lock left behind by a crashed process. The lock is first renamed
+// to a path no other waiter uses, so two waiters that saw the same stale
+// lock can't both remove it (the second would delete the first's new lock).
+function breakStaleLock(lockPath: string, staleOwner: string) {
+  const claimed = `${lockPath}.stale-${process.pid}-${Date.now()}`;
+  try {
+    fs.renameSync(lockPath, claimed);
+  } catch {
+    // Already broken (or released) by someone else
+    return;
+  }
+
+  if (readOwner(claimed) === staleOwner) {
+    console.warn("[DB] Removed stale lock:", lockPath);
+  } else {
+    // Another waiter broke the stale lock first and took a new one; put it back
+    try {
+      fs.linkSync(claimed, lockPath);
+    } catch {
+      // A newer lock already took its place
+    }
+  }
+  fs.rmSync(claimed, { force: true });
+}
+
+// Returns the token written to the lock file, to release it with
+function acquireLock(lockPath: string): string {
+  const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const fd = fs.openSync(lockPath, "wx");
+      fs.writeSync(fd, token);
+      fs.closeSync(fd);
+      return token;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+
+    try {
+      const { mtimeMs } = fs.statSync(lockPath);
+      const owner = readOwner(lockPath);
+      if (owner !== null && Date.now() - mtimeMs > LOCK_STALE_MS) {
+        breakStaleLock(lockPath, owner);
+        continue;
+      }
+    } catch {
+      // Lock disappeared between open and stat - just retry
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`[DB] Timed out waiting for lock ${lockPath}`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+// Only remove the lock if it is still ours (it may have been broken as stale)
+function releaseLock(lockPath: string, token: string) {
+  if (readOwner(lockPath) === token) fs.rmSync(lockPath, { force: true });
+}
+
+// Move an unreadable database aside so it can be recovered by hand
+function quarantine(filePath: string) {
+  const target = `${filePath}.corrupt-${Date.now()}`;
+  try {
+    fs.renameSync(filePath, target);
+    console.error(`[DB] ${filePath} could not be parsed; moved to ${target}`);
+  } catch (e) {
+    // Another reader already moved it aside
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+    console.error(`[DB] Failed to quarantine ${filePath}:`, e);
+    throw e;
+  }
+}
+
+export interface JsonAdapterOptions {
+  // Log failed writes instead of throwing. Only for serverless hosts, where
+  // the file lives in /tmp and losing a write beats failing the request.
+  ignoreWriteErrors?: boolean;
+}
+
+export function createJsonAdapter(filePath: string, options: JsonAdapterOptions = {}): StorageAdapter {
+  // While a transaction is open, all reads/writes go to this snapshot
+  let snapshot: JsonFile | null = null;
+  let dirty = false;
+
+  const lockPath = `${filePath}.lock`;
+
+  // Helper to read DB (safe for serverless)
+  function load(): JsonFile {
+    if (!fs.existsSync(filePath)) {
+      return emptyDb();
+    }
+    // I/O errors propagate: returning an empty DB here would let the next
+    // write wipe the real one
+    const data = fs.readFileSync(filePath, "utf-8");
+
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+      if (!parsed || typeof parsed !== "object") throw new Error("Not an object");
+    } catch {
+      quarantine(filePath);
+      return emptyDb();
+    }
+
+    // Migration: handle old format where analyses were at root level
+    if (!parsed.analyses && !parsed.prototypes) {
+      return { ...emptyDb(), analyses: parsed };
+    }
+    const db: JsonFile = emptyDb();
+    if (parsed.meta) db.meta = parsed.meta;
+    for (const collection of COLLECTIONS) {
+      if (parsed[collection]) db[collection] = parsed[collection];
+    }
+    return db;
+  }
+
+  // Helper to write DB atomically (temp file + rename)
+  function save(data: JsonFile) {
+    const tmpPath = path.join(
+      path.dirname(filePath),
+      `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+    );
+    try {
+      const fd = fs.openSync(tmpPath, "w");
+      try {
+        fs.writeFileSync(fd, JSON.stringify(data, null, 2));
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tmpPath, filePath);
+    } catch (e) {
+      fs.rmSync(tmpPath, { force: true });
+      // Callers must not report success for data that never reached disk
+      if (!options.ignoreWriteErrors) throw e;
+      console.warn("[DB] Write failed (serverless?):", e);
+    }
+  }
+
+  function locked<T>(fn: () => T): T {
+    const token = acquireLock(lockPath);
+    try {
+      return fn();
+    } finally {
+      releaseLock(lockPath, token);
+    }
+  }
+
+  function withDb<T>(mutates: boolean, fn: (db: JsonFile) => T): T {
+    if (snapshot) {
+      if (mutates) dirty = true;
+      return fn(snapshot);
+    }
+    if (!mutates) return fn(load());
+    return locked(() => {
+      const db = load();
+      const result = fn(db);
+      save(db);
+      return result;
+    });
+  }
+
+  return {
+    kind: "json",
+
+    get<C extends Collection>(collection: C, id: string): Doc<C> | null {
+      return withDb(false, db => (db[collection][id] as Doc<C>) || null);
+    },
+
+    list<C extends Collection>(collection: C, options: ListOptions = {}): Doc<C>[] {
+      return withDb(false, db => {
+        const docs = db[collection] as Record<string, Doc<C>>;
+        const { idPrefix } = options;
+        if (!idPrefix) return Object.values(docs);
+        return Object.keys(docs).filter(id => id.startsWith(idPrefix)).map(id => docs[id]);
+      });
+    },
+
+    count(collection) {
+      return withDb(false, db => Object.keys(db[collection]).length);
+    },
+
+    put<C extends Collection>(collection: C, id: string, doc: Doc<C>) {
+      withDb(true, db => {
+        (db[collection] as Record<string, Doc<C>>)[id] = doc;
+      });
+    },
+
+    remove(collection, id) {
+      return withDb(true, db => {
+        const existed = id in db[collection];
+        delete db[collection][id];
+        return existed;
+      });
+    },
+
+    getMeta(key) {
+      return withDb(false, db => db.meta?.[key] ?? null);
+    },
+
+    setMeta(key, value) {
+      withDb(true, db => {
+        db.meta = { ...db.meta, [key]: value };
+      });
+    },
+
+    transaction<T>(fn: () => T): T {
+      // Nested transactions just join the outer one
+      if (snapshot) return fn();
+      return locked(() => {
+        snapshot = load();
+        dirty = false;
+        try {
+          const result = fn();
+          if (dirty) save(snapshot);
+          return result;
+        } finally {
+          snapshot = null;
+          dirty = false;
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ANALYSIS_SCHEMA_VERSION } from "../analysis-schema";
+import { DB_SCHEMA_VERSION, MIGRATIONS, getSchemaVersion, revalidateAnalyses, runMigrations } from "./migrations";
+import { createJsonAdapter } from "./json";
+import type { AnalysisEntry } from "./types";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sciproto-migrations-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let n = 0;
+function openStore() {
+  return createJsonAdapter(path.join(dir, `db-${n++}.json`));
+}
+
+const VALID_ANALYSIS = {
+  title: "Adaptive Optics",
+  authors: ["A. Author"],
+  summary: "Mirrors fix blur.",
+  breakthrough_score: 60,
+  breakthrough_reasoning: "Incremental.",
+  key_claims: [{ claim: "Mirror control removes blur", evidence: [] }],
+  testable_hypotheses: [],
+  key_equations: [],
+  simulation_possibilities: [],
+  field: "Optics",
+  related_fields: [],
+  limitations: [],
+  difficulty_to_understand: "Intermediate",
+  prerequisites: [],
+};
+
+function paper(hash: string, analysis: object, overrides: Partial<AnalysisEntry> = {}): AnalysisEntry {
+  return {
+    hash,
+    filename: `${hash}.pdf`,
+    raw_text: "",
+    analysis_json: JSON.stringify(analysis),
+    created_at: 5,
+    ...overrides,
+  };
+}
+
+describe("runMigrations", () => {
+  it("brings a store saved before versioning up to the current schema", () => {
+    const store = openStore();
+    store.put("analyses", "a", paper("a", VALID_ANALYSIS));
+    store.put("prototypes", "p", { id: "p", title: "Demo", code: "export default () => null;", history: [], created_at: 1, updated_at: 2 });
+
+    runMigrations(store);
+
+    assert.equal(getSchemaVersion(store), DB_SCHEMA_VERSION);
+    assert.equal(DB_SCHEMA_VERSION, MIGRATIONS.length);
+    assert.deepEqual(store.get("revisions", "p#000001"), {
+      id: "p#000001",
+      prototype_id: "p",
+      seq: 1,
+      code: "export default () => null;",
+      origin: "initial",
+      created_at: 2,
+    });
+    assert.equal(store.get("analysis_revisions", "a#000001")?.analysis_json, JSON.stringify(VALID_ANALYSIS));
+    assert.equal(store.get("analysis_summaries", "a")?.title, "Adaptive Optics");
+    assert.equal(store.get("analyses", "a")?.schema_version, ANALYSIS_SCHEMA_VERSION);
+  });
+
+  it("only runs migrations newer than the stored version", () => {
+    const store = openStore();
+    store.put("prototypes", "p", { id: "p", title: "Demo", code: "x", history: [], created_at: 1, updated_at: 1 });
+    store.setMeta("schema_version", "2");
+
+    runMigrations(store);
+
+    assert.equal(store.count("revisions"), 0);
+    assert.equal(getSchemaVersion(store), DB_SCHEMA_VERSION);
+  });
+
+  it("does nothing on a store that is already current", () => {
+    const store = openStore();
+    runMigrations(store);
+    store.put("prototypes", "p", { id: "p", title: "Demo", code: "x", history: [], created_at: 1, updated_at: 1 });
+
+    runMigrations(store);
+    assert.equal(store.count("revisions"), 0);
+  });
+});
+
+describe("revalidateAnalyses", () => {
+  it("upgrades old analyses that conform and flags the rest", () => {
+    const store = openStore();
+    store.put("analyses", "old", paper("old", { ...VALID_ANALYSIS, key_claims: ["Mirror control removes blur"] }, { schema_version: 0 }));
+    store.put("analyses", "broken", paper("broken", { ...VALID_ANALYSIS, key_claims: ["Mirror control removes blur"], breakthrough_score: 500 }, { schema_version: 0 }));
+    store.put("analyses", "current", paper("current", VALID_ANALYSIS, { schema_version: ANALYSIS_SCHEMA_VERSION }));
+
+    const report = revalidateAnalyses(store);
+
+    assert.equal(report.checked, 2);
+    assert.equal(report.valid, 1);
+    assert.deepEqual(report.flagged.map(f => f.hash), ["broken"]);
+    assert.ok(report.flagged[0].issues.some(issue => issue.startsWith("breakthrough_score:")));
+
+    const old = store.get("analyses", "old");
+    assert.equal(old?.schema_version, ANALYSIS_SCHEMA_VERSION);
+    assert.deepEqual(JSON.parse(old!.analysis_json).key_claims, [{ claim: "Mirror control removes blur", evidence: [] }]);
+
+    const broken = store.get("analyses", "broken");
+    assert.equal(broken?.schema_version, 0);
+    assert.deepEqual(broken?.validation_issues, report.flagged[0].issues);
+    assert.deepEqual(JSON.parse(broken!.analysis_json).key_claims, [{ claim: "Mirror control removes blur", evidence: [] }]);
+    assert.equal(store.get("analysis_summaries", "broken")?.has_issues, true);
+  });
+
+  it("re-checks current analyses when forced", () => {
+    const store = openStore();
+    store.put("analyses", "a", paper("a", { ...VALID_ANALYSIS, title: 42 }, { schema_version: ANALYSIS_SCHEMA_VERSION }));
+
+    assert.equal(revalidateAnalyses(store).checked, 0);
+    const report = revalidateAnalyses(store, { force: true });
+    assert.deepEqual(report.flagged.map(f => f.hash), ["a"]);
+  });
+
+  it("flags analyses that are not valid JSON", () => {
+    const store = openStore();
+    store.put("analyses", "a", paper("a", {}, { analysis_json: "{oops" }));
+    assert.deepEqual(revalidateAnalyses(store).flagged, [{ hash: "a", issues: ["analysis_json: not valid JSON"] }]);
+  });
+});
@@ -0,0 +1,165 @@
+import { ANALYSIS_SCHEMA_VERSION, PaperAnalysisSchema, formatAnalysisIssues, upgradeAnalysis } from "../analysis-schema";
+import { buildAnalysisSummary, putAnalysis } from "./summaries";
+import type { StorageAdapter } from "./types";
+
+// ============================================================================
+// SCHEMA MIGRATIONS
+// ============================================================================
+//
+// The database records its schema version in meta["schema_version"].
+// On startup every migration with a higher version runs in order, each in
+// its own transaction, and the version is bumped as it completes.
+//
+// To change the stored shape: append a migration with the next version
+// number. Never edit or reorder migrations that have already shipped.
+//
+// (Backend-specific file layouts, like the old root-level JSON format, are
+// normalized by the adapter itself before migrations run.)
+// ============================================================================
+
+const SCHEMA_VERSION_META_KEY = "schema_version";
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (store: StorageAdapter) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Stamp analyses saved before versioning with schema_version 0",
+    up(store) {
+      for (const entry of store.list("analyses")) {
+        if (entry.schema_version === undefined) {
+          putAnalysis(store, { ...entry, schema_version: 0 });
+        }
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Seed an initial code revision for existing prototypes",
+    up(store) {
+      for (const prototype of store.list("prototypes")) {
+        if (!prototype.code) continue;
+        const prefix = `${prototype.id}#`;
+        if (store.list("revisions", { idPrefix: prefix }).length > 0) continue;
+        const id = `${prefix}000001`;
+        store.put("revisions", id, {
+          id,
+          prototype_id: prototype.id,
+          seq: 1,
+          code: prototype.code,
+          origin: "initial",
+          created_at: prototype.updated_at,
+        });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Keep each paper's current analysis as its first analysis revision",
+    up(store) {
+      for (const entry of store.list("analyses")) {
+        const prefix = `${entry.hash}#`;
+        if (store.list("analysis_revisions", { idPrefix: prefix }).length > 0) continue;
+        const id = `${prefix}000001`;
+        store.put("analysis_revisions", id, {
+          id,
+          hash: entry.hash,
+          seq: 1,
+          analysis_json: entry.analysis_json,
+          schema_version: entry.schema_version,
+          created_at: entry.created_at,
+        });
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Build listing summaries for existing analyses",
+    up(store) {
+      for (const entry of store.list("analyses")) {
+        store.put("analysis_summaries", entry.hash, buildAnalysisSummary(entry));
+      }
+    },
+  },
+];
+
+export const DB_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+export function getSchemaVersion(store: StorageAdapter): number {
+  return Number(store.getMeta(SCHEMA_VERSION_META_KEY) || 0);
+}
+
+export interface RevalidationReport {
+  checked: number;
+  valid: number;
+  flagged: { hash: string; issues: string[] }[];
+}
+
+/**
+ * Re-validate stored analyses against the current PaperAnalysisSchema.
+ * Older shapes are first converted with upgradeAnalysis and saved that way.
+ * Conforming analyses are bumped to the current ANALYSIS_SCHEMA_VERSION;
+ * the rest keep their old version and get `validation_issues` set.
+ *
+ * By default only analyses older than the current version are checked.
+ */
+export function revalidateAnalyses(store: StorageAdapter, options: { force?: boolean } = {}): RevalidationReport {
+  const report: RevalidationReport = { checked: 0, valid: 0, flagged: [] };
+
+  store.transaction(() => {
+    for (const entry of store.list("analyses")) {
+      if (!options.force && (entry.schema_version ?? 0) >= ANALYSIS_SCHEMA_VERSION) continue;
+      report.checked++;
+
+      let issues: string[];
+      let analysisJson = entry.analysis_json;
+      try {
+        const analysis = upgradeAnalysis(JSON.parse(entry.analysis_json), entry.schema_version ?? 0);
+        const result = PaperAnalysisSchema.safeParse(analysis);
+        issues = result.success ? [] : formatAnalysisIssues(result.error);
+        analysisJson = JSON.stringify(analysis);
+      } catch {
+        issues = ["analysis_json: not valid JSON"];
+      }
+
+      if (issues.length === 0) {
+        report.valid++;
+        const updated = { ...entry, analysis_json: analysisJson, schema_version: ANALYSIS_SCHEMA_VERSION };
+        delete updated.validation_issues;
+        putAnalysis(store, updated);
+      } else {
+        report.flagged.push({ hash: entry.hash, issues });
+        // Still stored in the current shape, so readers can rely on it
+        putAnalysis(store, { ...entry, analysis_json: analysisJson, validation_issues: issues });
+      }
+    }
+  });
+
+  if (report.flagged.length > 0) {
+    console.warn(`[DB] ${report.flagged.length} stored analyses no longer match the current schema`);
+  }
+  return report;
+}
+
+/**
+ * Bring the store up to DB_SCHEMA_VERSION, then re-validate any analyses
+ * produced with an older analysis schema.
+ */
+export function runMigrations(store: StorageAdapter) {
+  const current = getSchemaVersion(store);
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+    console.log(`[DB] Migrating to v${migration.version}: ${migration.description}`);
+    store.transaction(() => {
+      migration.up(store);
+      store.setMeta(SCHEMA_VERSION_META_KEY, String(migration.version));
+    });
+  }
+
+  revalidateAnalyses(store);
+}
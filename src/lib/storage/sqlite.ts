@@ -0,0 +1,105 @@
+import Database from "better-sqlite3";
+import { COLLECTIONS } from "./types";
+import type { Collection, Doc, ListOptions, StorageAdapter } from "./types";
+
+// ============================================================================
+// SQLITE ADAPTER
+// ============================================================================
+//
+// Embedded SQLite database (better-sqlite3). Documents are stored as JSON
+// blobs keyed by (collection, id), so reading one paper no longer means
+// parsing the whole library.
+// ============================================================================
+
+export function createSqliteAdapter(filePath: string): StorageAdapter {
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS documents (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (collection, id)
+    );
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+
+  // Drop documents of collections that no longer exist (the JSON adapter
+  // leaves them out when it loads the file)
+  db.prepare(`DELETE FROM documents WHERE collection NOT IN (${COLLECTIONS.map(() => "?").join(", ")})`)
+    .run(...COLLECTIONS);
+
+  const getStmt = db.prepare<[string, string], { data: string }>(
+    "SELECT data FROM documents WHERE collection = ? AND id = ?"
+  );
+  const listStmt = db.prepare<[string], { data: string }>(
+    "SELECT data FROM documents WHERE collection = ?"
+  );
+  const listPrefixStmt = db.prepare<[string, string, string], { data: string }>(
+    "SELECT data FROM documents WHERE collection = ? AND substr(id, 1, length(?)) = ?"
+  );
+  const countStmt = db.prepare<[string], { n: number }>(
+    "SELECT COUNT(*) AS n FROM documents WHERE collection = ?"
+  );
+  const putStmt = db.prepare<[string, string, string]>(
+    `INSERT INTO documents (collection, id, data) VALUES (?, ?, ?)
+     ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data`
+  );
+  const removeStmt = db.prepare<[string, string]>(
+    "DELETE FROM documents WHERE collection = ? AND id = ?"
+  );
+  const getMetaStmt = db.prepare<[string], { value: string }>(
+    "SELECT value FROM meta WHERE key = ?"
+  );
+  const setMetaStmt = db.prepare<[string, string]>(
+    `INSERT INTO meta (key, value) VALUES (?, ?)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+  );
+
+  return {
+    kind: "sqlite",
+
+    get<C extends Collection>(collection: C, id: string): Doc<C> | null {
+      const row = getStmt.get(collection, id);
+      return row ? (JSON.parse(row.data) as Doc<C>) : null;
+    },
+
+    list<C extends Collection>(collection: C, options: ListOptions = {}): Doc<C>[] {
+      const { idPrefix } = options;
+      const rows = idPrefix
+        ? listPrefixStmt.all(collection, idPrefix, idPrefix)
+        : listStmt.all(collection);
+      return rows.map(row => JSON.parse(row.data) as Doc<C>);
+    },
+
+    count(collection) {
+      return countStmt.get(collection)?.n ?? 0;
+    },
+
+    put<C extends Collection>(collection: C, id: string, doc: Doc<C>) {
+      putStmt.run(collection, id, JSON.stringify(doc));
+    },
+
+    remove(collection, id) {
+      return removeStmt.run(collection, id).changes > 0;
+    },
+
+    getMeta(key) {
+      return getMetaStmt.get(key)?.value ?? null;
+    },
+
+    setMeta(key, value) {
+      setMetaStmt.run(key, value);
+    },
+
+    transaction<T>(fn: () => T): T {
+      // better-sqlite3 turns nested transactions into savepoints
+      return db.transaction(fn)();
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { importJsonFile } from "./index";
+import { createJsonAdapter } from "./json";
+import { createSqliteAdapter } from "./sqlite";
+import { putAnalysis, removeAnalysis } from "./summaries";
+import type { AnalysisEntry, PrototypeEntry, StorageAdapter } from "./types";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sciproto-storage-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// better-sqlite3's prebuilt binary needs Node 22 (see its "engines")
+const sqliteSkip = Number(process.versions.node.split(".")[0]) < 22 && "better-sqlite3 needs Node 22 or newer";
+
+function paper(hash: string, overrides: Partial<AnalysisEntry> = {}): AnalysisEntry {
+  return {
+    hash,
+    filename: `${hash}.pdf`,
+    raw_text: "Full text",
+    analysis_json: JSON.stringify({ title: `Paper ${hash}`, summary: "Short", field: "Optics", breakthrough_score: 70 }),
+    created_at: 1,
+    ...overrides,
+  };
+}
+
+function prototype(id: string): PrototypeEntry {
+  return { id, title: "Demo", code: "export default () => null;", history: [], created_at: 1, updated_at: 1 };
+}
+
+const backends: { name: string; open: (file: string) => StorageAdapter; skip: string | false }[] = [
+  { name: "json", open: file => createJsonAdapter(`${file}.json`), skip: false },
+  { name: "sqlite", open: file => createSqliteAdapter(`${file}.db`), skip: sqliteSkip },
+];
+
+for (const backend of backends) {
+  describe(`${backend.name} adapter`, { skip: backend.skip }, () => {
+    let n = 0;
+    const open = () => backend.open(path.join(dir, `${backend.name}-${n++}`));
+
+    it("stores, lists, counts and removes documents by collection and id", () => {
+      const store = open();
+      store.put("prototypes", "a", prototype("a"));
+      store.put("prototypes", "b", prototype("b"));
+
+      assert.equal(store.get("prototypes", "a")?.title, "Demo");
+      assert.equal(store.get("prototypes", "missing"), null);
+      assert.equal(store.get("analyses", "a"), null);
+      assert.equal(store.count("prototypes"), 2);
+      assert.deepEqual(store.list("prototypes").map(p => p.id).sort(), ["a", "b"]);
+
+      assert.equal(store.remove("prototypes", "a"), true);
+      assert.equal(store.remove("prototypes", "a"), false);
+      assert.equal(store.count("prototypes"), 1);
+    });
+
+    it("lists documents by id prefix", () => {
+      const store = open();
+      for (const id of ["p1#000001", "p1#000002", "p10#000001"]) {
+        store.put("revisions", id, { id, prototype_id: id.split("#")[0], seq: 1, code: "x", origin: "initial", created_at: 1 });
+      }
+      assert.deepEqual(store.list("revisions", { idPrefix: "p1#" }).map(r => r.id).sort(), ["p1#000001", "p1#000002"]);
+    });
+
+    it("keeps data after reopening the file", () => {
+      const file = path.join(dir, `${backend.name}-reopen`);
+      const store = backend.open(file);
+      store.put("prototypes", "a", prototype("a"));
+      store.setMeta("marker", "1");
+
+      const reopened = backend.open(file);
+      assert.equal(reopened.get("prototypes", "a")?.id, "a");
+      assert.equal(reopened.getMeta("marker"), "1");
+      assert.equal(reopened.getMeta("missing"), null);
+    });
+
+    it("writes nothing from a transaction that throws", () => {
+      const store = open();
+      store.put("prototypes", "a", prototype("a"));
+      assert.throws(() => store.transaction(() => {
+        store.put("prototypes", "b", prototype("b"));
+        store.remove("prototypes", "a");
+        throw new Error("boom");
+      }), /boom/);
+      assert.deepEqual(store.list("prototypes").map(p => p.id), ["a"]);
+    });
+
+    it("joins nested transactions to the outer one", () => {
+      const store = open();
+      const result = store.transaction(() => {
+        store.transaction(() => store.put("prototypes", "a", prototype("a")));
+        return store.get("prototypes", "a")?.id;
+      });
+      assert.equal(result, "a");
+      assert.equal(store.count("prototypes"), 1);
+    });
+  });
+}
+
+describe("putAnalysis / removeAnalysis", () => {
+  it("keep a listing summary next to each analysis", () => {
+    const store = createJsonAdapter(path.join(dir, "summaries.json"));
+    putAnalysis(store, paper("a", { tags: ["optics"], validation_issues: ["title: Required"] }));
+
+    assert.deepEqual(store.get("analysis_summaries", "a"), {
+      hash: "a",
+      filename: "a.pdf",
+      title: "Paper a",
+      summary: "Short",
+      field: "Optics",
+      breakthrough_score: 70,
+      created_at: 1,
+      has_issues: true,
+      tags: ["optics"],
+      collection_ids: [],
+    });
+
+    assert.equal(removeAnalysis(store, "a"), true);
+    assert.equal(store.get("analysis_summaries", "a"), null);
+    assert.equal(removeAnalysis(store, "a"), false);
+  });
+
+  it("summarize unreadable analyses with defaults", () => {
+    const store = createJsonAdapter(path.join(dir, "summaries-broken.json"));
+    putAnalysis(store, paper("a", { analysis_json: "{not json" }));
+    const summary = store.get("analysis_summaries", "a");
+    assert.equal(summary?.title, "Untitled");
+    assert.equal(summary?.breakthrough_score, null);
+  });
+});
+
+describe("importJsonFile", () => {
+  it("copies every collection and builds summaries for the copied analyses", () => {
+    const sourcePath = path.join(dir, "import-source.json");
+    const source = createJsonAdapter(sourcePath);
+    source.put("analyses", "a", paper("a"));
+    source.put("prototypes", "p", prototype("p"));
+
+    const target = createJsonAdapter(path.join(dir, "import-target.json"));
+    const counts = importJsonFile(target, sourcePath);
+
+    assert.deepEqual(counts, { analyses: 1, prototypes: 1, revisions: 0, collections: 0 });
+    assert.equal(target.get("analyses", "a")?.raw_text, "Full text");
+    assert.equal(target.get("analysis_summaries", "a")?.title, "Paper a");
+    assert.equal(target.get("prototypes", "p")?.id, "p");
+  });
+});
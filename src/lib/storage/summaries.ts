@@ -0,0 +1,43 @@
+import type { PaperAnalysis } from "../analysis-schema";
+import type { AnalysisEntry, AnalysisSummary, StorageAdapter } from "./types";
+
+// ============================================================================
+// ANALYSIS SUMMARIES
+// ============================================================================
+//
+// Every AnalysisEntry has an AnalysisSummary under the same hash, so library
+// listings, tag counts and collection counts read a few hundred bytes per
+// paper instead of its raw text and full analysis. Write and delete analyses
+// through putAnalysis / removeAnalysis so the two stay in step.
+// ============================================================================
+
+export function buildAnalysisSummary(entry: AnalysisEntry): AnalysisSummary {
+  let parsed: Partial<PaperAnalysis> = {};
+  try {
+    parsed = JSON.parse(entry.analysis_json);
+  } catch {
+    // Keep defaults for unreadable analyses
+  }
+  return {
+    hash: entry.hash,
+    filename: entry.filename,
+    title: parsed.title || "Untitled",
+    summary: parsed.summary || "",
+    field: parsed.field || "",
+    breakthrough_score: typeof parsed.breakthrough_score === "number" ? parsed.breakthrough_score : null,
+    created_at: entry.created_at,
+    has_issues: (entry.validation_issues?.length ?? 0) > 0,
+    tags: entry.tags ?? [],
+    collection_ids: entry.collection_ids ?? [],
+  };
+}
+
+export function putAnalysis(store: StorageAdapter, entry: AnalysisEntry) {
+  store.put("analyses", entry.hash, entry);
+  store.put("analysis_summaries", entry.hash, buildAnalysisSummary(entry));
+}
+
+export function removeAnalysis(store: StorageAdapter, hash: string): boolean {
+  store.remove("analysis_summaries", hash);
+  return store.remove("analyses", hash);
+}
@@ -0,0 +1,200 @@
+// ============================================================================
+// STORAGE TYPES
+// ============================================================================
+//
+// Shared shapes for every storage backend. Each backend stores the same
+// documents (keyed by collection + id); `db.ts` builds the app-level
+// functions on top of the `StorageAdapter` interface below.
+// ============================================================================
+
+export interface AnalysisEntry {
+  hash: string;
+  filename: string;
+  raw_text: string;
+  analysis_json: string;
+  // ANALYSIS_SCHEMA_VERSION the analysis was produced with (missing = pre-versioning)
+  schema_version?: number;
+  // Set when the stored analysis no longer passes the current PaperAnalysisSchema
+  validation_issues?: string[];
+  // Model that produced the current analysis (missing = not recorded)
+  model?: string;
+  // Prompt id -> version the current analysis was produced with (see lib/prompts.ts)
+  prompt_versions?: Record<string, string>;
+  // Free-form labels (normalized lowercase)
+  tags?: string[];
+  // Ids of the PaperCollections this paper belongs to
+  collection_ids?: string[];
+  created_at: number;
+}
+
+// Listing view of an AnalysisEntry (no raw text or full analysis), kept
+// under the same hash so library pages don't load whole papers
+export interface AnalysisSummary {
+  hash: string;
+  filename: string;
+  title: string;
+  summary: string;
+  field: string;
+  breakthrough_score: number | null;
+  created_at: number;
+  has_issues: boolean;
+  tags: string[];
+  collection_ids: string[];
+}
+
+export interface PrototypeEntry {
+  id: string;
+  paper_hash?: string;
+  title: string;
+  description?: string;
+  code: string;
+  algorithm_info?: string;
+  // Prompt id -> version of the agent prompt that produced the current code
+  prompt_versions?: Record<string, string>;
+  // Chat transcript saved before agent sessions existed (see AgentSession)
+  history: AgentSessionMessage[];
+  created_at: number;
+  updated_at: number;
+}
+
+// What caused a prototype's code to change
+export type RevisionOrigin = "agent" | "auto_fix" | "manual" | "restore" | "initial";
+
+// Immutable snapshot of a prototype's code. Stored under
+// `${prototype_id}#${seq}` so one prototype's revisions share an id prefix.
+export interface PrototypeRevision {
+  id: string;
+  prototype_id: string;
+  seq: number;
+  code: string;
+  origin: RevisionOrigin;
+  // Chat message that triggered the change (truncated)
+  message?: string;
+  // For restores: the revision that was restored
+  restored_from?: number;
+  created_at: number;
+}
+
+// Snapshot of one analysis run of a paper. Stored under `${hash}#${seq}`;
+// the newest revision is the AnalysisEntry's current analysis.
+export interface AnalysisRevision {
+  id: string;
+  hash: string;
+  seq: number;
+  analysis_json: string;
+  schema_version?: number;
+  model?: string;
+  prompt_versions?: Record<string, string>;
+  created_at: number;
+}
+
+// Named group of papers ("reading group week 12"). Membership is stored on
+// each AnalysisEntry (collection_ids).
+export interface PaperCollection {
+  id: string;
+  name: string;
+  description?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+// One model call: what it cost and what it was for (see lib/llm/usage.ts)
+export interface UsageRecord {
+  id: string;
+  // LlmTask
+  task: string;
+  provider: string;
+  model: string;
+  paper_hash?: string;
+  prototype_id?: string;
+  input_tokens: number;
+  output_tokens: number;
+  // The provider reported no counts; estimated from text length
+  estimated?: boolean;
+  latency_ms: number;
+  // 0 for the first try; repair attempts and overload retries count up
+  attempt: number;
+  // USD; null when the model has no known price
+  cost_usd: number | null;
+  error?: string;
+  created_at: number;
+}
+
+// Quick triage of an arXiv paper from its abstract (Discover), cached by
+// arXiv id without version suffix
+export interface QuickScoreEntry {
+  id: string;
+  title: string;
+  summary: string;
+  breakthrough_score: number;
+  // How well the paper lends itself to an interactive prototype (1-100)
+  prototypability: number;
+  field: string;
+  key_insight: string;
+  model?: string;
+  created_at: number;
+}
+
+// One turn part of an agent conversation (same layout as LlmMessage)
+export interface AgentSessionMessage {
+  role: "user" | "model";
+  parts: {
+    text?: string;
+    functionCall?: { name: string; args: Record<string, unknown> };
+    functionResponse?: { name: string; response: Record<string, unknown> };
+    thoughtSignature?: string;
+  }[];
+}
+
+// A prototype's agent conversation, owned by /api/agent and keyed by
+// prototype id. `messages` is the full transcript; the first `summarized`
+// of them are only sent to the model as `summary` (see lib/agent-session.ts).
+export interface AgentSession {
+  id: string;
+  paper_hash?: string;
+  messages: AgentSessionMessage[];
+  summary?: string;
+  summarized: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbSchema {
+  analyses: Record<string, AnalysisEntry>;
+  analysis_summaries: Record<string, AnalysisSummary>;
+  prototypes: Record<string, PrototypeEntry>;
+  revisions: Record<string, PrototypeRevision>;
+  analysis_revisions: Record<string, AnalysisRevision>;
+  paper_collections: Record<string, PaperCollection>;
+  usage: Record<string, UsageRecord>;
+  quick_scores: Record<string, QuickScoreEntry>;
+  agent_sessions: Record<string, AgentSession>;
+}
+
+export type Collection = keyof DbSchema;
+
+export const COLLECTIONS: Collection[] = ["analyses", "analysis_summaries", "prototypes", "revisions", "analysis_revisions", "paper_collections", "usage", "quick_scores", "agent_sessions"];
+
+export interface ListOptions {
+  // Only return documents whose id starts with this prefix
+  idPrefix?: string;
+}
+
+// Document type stored in a given collection
+export type Doc<C extends Collection> = DbSchema[C][string];
+
+export type StorageKind = "json" | "sqlite";
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+  get<C extends Collection>(collection: C, id: string): Doc<C> | null;
+  list<C extends Collection>(collection: C, options?: ListOptions): Doc<C>[];
+  count(collection: Collection): number;
+  put<C extends Collection>(collection: C, id: string, doc: Doc<C>): void;
+  remove(collection: Collection, id: string): boolean;
+  // Small key/value area for backend bookkeeping (import markers, etc.)
+  getMeta(key: string): string | null;
+  setMeta(key: string, value: string): void;
+  // Run several reads/writes as one unit (one file write / one SQL transaction)
+  transaction<T>(fn: () => T): T;
+}